@@ -0,0 +1,248 @@
+/**
+ * 任务附件与产物 — 打包（内联 base64 / 分块）、落盘、读取
+ *
+ * 父节点: hub-data/artifacts/<taskId>/      子节点输出产物
+ * 子节点: hub-data/task-input/<taskId>/     父节点下发的输入附件
+ *         hub-data/task-output/<taskId>/    agent 写入的待交付文件
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { TaskArtifact, ArtifactChunkPayload, StoredArtifact } from './types.js';
+
+/** 不超过该大小的文件内联在 task / result 消息中 */
+export const ARTIFACT_INLINE_LIMIT = 256 * 1024;
+/** 分块大小（原始字节） */
+export const ARTIFACT_CHUNK_SIZE = 192 * 1024;
+/** 单个任务附件 / 产物总大小上限 */
+export const ARTIFACT_MAX_TOTAL = 20 * 1024 * 1024;
+/** 任务目录中由 ArtifactStore 自己使用的文件名，附件 / 产物不能占用 */
+const RESERVED_NAMES = new Set(['manifest.json']);
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.log': 'text/plain',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.js': 'text/javascript',
+  '.ts': 'text/plain',
+  '.py': 'text/x-python',
+  '.sh': 'text/x-shellscript',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+};
+
+export function guessMime(name: string): string {
+  return MIME_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
+
+export function isTextMime(mime: string): boolean {
+  return mime.startsWith('text/') || mime === 'application/json' || mime === 'application/yaml' || mime === 'application/xml';
+}
+
+/** 文件名只保留最后一段，防止路径穿越 */
+export function safeName(name: string): string {
+  const base = path.basename(String(name || '')).replace(/[\u0000-\u001f]/g, '');
+  if (!base || base === '.' || base === '..') throw new Error(`非法文件名: ${name}`);
+  return base;
+}
+
+export function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * 打包一组文件：小文件内联，大文件拆成分块（由调用方先于 task / result 发送）
+ * 同名文件自动加序号；总大小超过 ARTIFACT_MAX_TOTAL 时抛错
+ */
+export function packFiles(
+  filePaths: string[],
+  direction: ArtifactChunkPayload['direction'],
+): { artifacts: TaskArtifact[]; chunks: ArtifactChunkPayload[] } {
+  const artifacts: TaskArtifact[] = [];
+  const chunks: ArtifactChunkPayload[] = [];
+  // 保留名视为已占用，同名文件按重名规则改名
+  const used = new Set<string>(RESERVED_NAMES);
+  let total = 0;
+
+  for (const filePath of filePaths) {
+    const buffer = fs.readFileSync(filePath);
+    total += buffer.length;
+    if (total > ARTIFACT_MAX_TOTAL) {
+      throw new Error(`文件总大小超过上限 ${ARTIFACT_MAX_TOTAL / 1024 / 1024}MB`);
+    }
+
+    let name = safeName(filePath);
+    for (let i = 1; used.has(name); i++) {
+      const ext = path.extname(filePath);
+      name = `${path.basename(filePath, ext)}-${i}${ext}`;
+    }
+    used.add(name);
+
+    const artifact: TaskArtifact = { name, mime: guessMime(name), size: buffer.length, sha256: sha256(buffer) };
+    if (buffer.length <= ARTIFACT_INLINE_LIMIT) {
+      artifact.data = buffer.toString('base64');
+    } else {
+      const count = Math.ceil(buffer.length / ARTIFACT_CHUNK_SIZE);
+      artifact.chunks = count;
+      for (let index = 0; index < count; index++) {
+        const slice = buffer.subarray(index * ARTIFACT_CHUNK_SIZE, (index + 1) * ARTIFACT_CHUNK_SIZE);
+        chunks.push({ direction, name, index, total: count, data: slice.toString('base64') });
+      }
+    }
+    artifacts.push(artifact);
+  }
+  return { artifacts, chunks };
+}
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+/** 列出目录下的普通文件（不递归），目录不存在时返回空数组 */
+export function listFiles(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(e => e.isFile())
+      .map(e => path.join(dir, e.name));
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// ArtifactStore — 按任务分目录落盘，manifest.json 记录元数据
+// ============================================================================
+
+export class ArtifactStore {
+  constructor(private rootDir: string) { }
+
+  dirOf(taskId: string): string {
+    return path.join(this.rootDir, safeName(taskId));
+  }
+
+  /** 保存内联产物，或把已收齐分块的产物转正；校验大小与 sha256 */
+  save(taskId: string, artifact: TaskArtifact): StoredArtifact {
+    const dir = this.dirOf(taskId);
+    const name = this.fileName(artifact.name);
+    const target = path.join(dir, name);
+    fs.mkdirSync(dir, { recursive: true });
+
+    if (artifact.data !== undefined) {
+      fs.writeFileSync(target, Buffer.from(artifact.data, 'base64'));
+    } else {
+      const part = `${target}.part`;
+      if (!fs.existsSync(part)) throw new Error(`产物 ${name} 的分块未收到`);
+      fs.renameSync(part, target);
+    }
+
+    const buffer = fs.readFileSync(target);
+    if (buffer.length !== artifact.size || sha256(buffer) !== artifact.sha256) {
+      fs.rmSync(target, { force: true });
+      throw new Error(`产物 ${name} 校验失败`);
+    }
+
+    const stored: StoredArtifact = {
+      name, mime: artifact.mime || guessMime(name), size: artifact.size,
+      sha256: artifact.sha256, path: target, savedAt: Date.now(),
+    };
+    this.writeManifest(taskId, [...this.list(taskId).filter(a => a.name !== name), stored]);
+    return stored;
+  }
+
+  /** 追加一个分块（分块按序到达，index 0 时重新开始）；任务目录合计超过 ARTIFACT_MAX_TOTAL 时抛错 */
+  writeChunk(taskId: string, chunk: ArtifactChunkPayload): void {
+    const dir = this.dirOf(taskId);
+    const part = path.join(dir, `${this.fileName(chunk.name)}.part`);
+    fs.mkdirSync(dir, { recursive: true });
+    const data = Buffer.from(String(chunk.data || ''), 'base64');
+    const existing = this.usedBytes(dir) - (chunk.index === 0 ? fileSize(part) : 0);
+    if (existing + data.length > ARTIFACT_MAX_TOTAL) {
+      throw new Error(`任务文件总大小超过上限 ${ARTIFACT_MAX_TOTAL / 1024 / 1024}MB`);
+    }
+    if (chunk.index === 0) fs.writeFileSync(part, data);
+    else fs.appendFileSync(part, data);
+  }
+
+  list(taskId: string): StoredArtifact[] {
+    try {
+      const raw = fs.readFileSync(path.join(this.dirOf(taskId), 'manifest.json'), 'utf-8');
+      const data = JSON.parse(raw);
+      return Array.isArray(data.artifacts) ? data.artifacts : [];
+    } catch {
+      return [];
+    }
+  }
+
+  read(taskId: string, name: string): Buffer {
+    return fs.readFileSync(path.join(this.dirOf(taskId), safeName(name)));
+  }
+
+  /** 复制产物到指定目录，返回目标路径 */
+  copyTo(taskId: string, outDir: string, names?: string[]): string[] {
+    fs.mkdirSync(outDir, { recursive: true });
+    const wanted = names && names.length > 0 ? new Set(names) : null;
+    return this.list(taskId)
+      .filter(a => !wanted || wanted.has(a.name))
+      .map(a => {
+        const target = path.join(outDir, a.name);
+        fs.copyFileSync(a.path, target);
+        return target;
+      });
+  }
+
+  remove(taskId: string): void {
+    fs.rmSync(this.dirOf(taskId), { recursive: true, force: true });
+  }
+
+  /** 删除不在 keep 中的任务目录，返回删除数量 */
+  prune(keep: Set<string>): number {
+    let removed = 0;
+    try {
+      for (const entry of fs.readdirSync(this.rootDir, { withFileTypes: true })) {
+        if (!entry.isDirectory() || keep.has(entry.name)) continue;
+        fs.rmSync(path.join(this.rootDir, entry.name), { recursive: true, force: true });
+        removed++;
+      }
+    } catch { /* 目录不存在 */ }
+    return removed;
+  }
+
+  private fileName(name: string): string {
+    const base = safeName(name);
+    if (RESERVED_NAMES.has(base)) throw new Error(`文件名 ${base} 为保留名`);
+    return base;
+  }
+
+  /** 目录中附件 / 产物（含未收齐的分块）已占用的字节数 */
+  private usedBytes(dir: string): number {
+    return listFiles(dir)
+      .filter(f => !RESERVED_NAMES.has(path.basename(f)))
+      .reduce((sum, f) => sum + fileSize(f), 0);
+  }
+
+  private writeManifest(taskId: string, artifacts: StoredArtifact[]): void {
+    fs.writeFileSync(path.join(this.dirOf(taskId), 'manifest.json'), JSON.stringify({
+      version: 1,
+      updatedAt: Date.now(),
+      artifacts,
+    }, null, 2));
+  }
+}
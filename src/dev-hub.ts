@@ -0,0 +1,848 @@
+/**
+ * 本地 Hub — 开发与集成测试用的替身，也作为无云端 Hub 时的内置 Hub（hubServerEnabled）
+ *
+ * 实现 HubClient 用到的 REST 接口（注册、节点查询、树、改挂父节点、邀请码、共享配置）
+ * 和消息中转：带 to 的消息（task / result / chat / task_* / file …）转发给目标节点，
+ * broadcast 转发给同集群其他在线节点，heartbeat 更新节点负载并回应。
+ * 节点可经 /ws?token= 、长轮询 /api/lp/* 或同进程 loopback 接入，三种传输共用同一套中转逻辑。
+ * dev-server 状态只在内存中，进程退出即清空（启动：openclaw hub dev-server）；
+ * 内置 Hub 设置 dataDir，节点注册表、邀请码和集群共享配置写入 hub-server.json，重启后节点凭原 token 重连。
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { randomUUID, randomBytes } from 'crypto';
+import type { WebSocket as WsSocket, WebSocketServer } from 'ws';
+import type { HubNode, HubCluster, HubTreeNode, RegisterRequest, WSMessage } from './types.js';
+import {
+  LONG_POLL_HOLD_MS,
+  registerLoopbackHub,
+  unregisterLoopbackHub,
+  type HubPeer,
+  type LoopbackHub,
+  type PeerHandlers,
+  type TransportRequest,
+  type TransportResponse,
+} from './transport.js';
+
+export const DEV_HUB_DEFAULT_PORT = 18790;
+/** 持久化文件名（位于 dataDir 下） */
+const STATE_FILE = 'hub-server.json';
+/** 请求体上限 */
+const MAX_BODY_BYTES = 1024 * 1024;
+/** 长轮询会话超过该时长没有新的 poll 请求即视为断线 */
+const LONG_POLL_SESSION_TTL_MS = LONG_POLL_HOLD_MS + 30_000;
+
+let loopbackSeq = 0;
+
+type PluginLogger = {
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+};
+
+export interface DevHubOptions {
+  port?: number;
+  host?: string;
+  /** 设置后，带 X-Admin-Key 的请求跳过权限检查 */
+  adminKey?: string;
+  /** false 时不监听端口，只供同进程 loopback 传输连接，start() 返回 loopback:// 地址 */
+  listen?: boolean;
+  /** 设置后持久化节点注册表 / 集群到该目录，不设置则只在内存中 */
+  dataDir?: string;
+  /**
+   * 只服务一个集群：不带父节点的注册只接受本机（回环地址 / 同进程）或带 X-Admin-Key 的请求，且已有集群时一律拒绝，
+   * 其他节点只能凭邀请码加入；避免局域网里的其他主机抢先注册成根节点
+   */
+  singleCluster?: boolean;
+  /** 日志里的名称，默认 dev-server */
+  label?: string;
+  logger: PluginLogger;
+}
+
+interface NodeRecord {
+  id: string;
+  name: string;
+  alias: string;
+  parentId: string | null;
+  clusterId: string;
+  capabilities: string[];
+  token: string;
+  inviteCode?: string;
+  load: number;
+  activeTasks: number;
+  connectedAt: number;
+  lastHeartbeat: number;
+  metrics?: HubNode['metrics'];
+  createdAt: number;
+}
+
+interface ClusterRecord {
+  id: string;
+  name: string;
+  rootNodeId: string;
+  sharedConfig: Record<string, any>;
+  createdAt: number;
+}
+
+/** 带 HTTP 状态码的错误，路由里直接 throw */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface DevHubStatus {
+  url: string | null;
+  nodes: number;
+  online: number;
+  clusters: number;
+  persistent: boolean;
+}
+
+interface RequestContext {
+  method: string;
+  parts: string[];
+  body: any;
+  caller: NodeRecord | null;
+  admin: boolean;
+  /** 请求来自本机 */
+  local: boolean;
+}
+
+export class DevHub implements LoopbackHub {
+  private nodes = new Map<string, NodeRecord>();
+  private clusters = new Map<string, ClusterRecord>();
+  private peers = new Map<string, HubPeer>();
+  private longPolls = new Map<string, LongPollSession>();
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private url: string | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private opts: DevHubOptions) {
+    this.load();
+  }
+
+  private get label(): string {
+    return this.opts.label || 'dev-server';
+  }
+
+  /** 启动 HTTP + WebSocket 服务，返回实际监听地址；同时注册为 loopback Hub */
+  async start(): Promise<string> {
+    if (this.opts.listen === false) {
+      this.url = `loopback://dev-hub-${++loopbackSeq}`;
+      registerLoopbackHub(this.url, this);
+      return this.url;
+    }
+
+    const { WebSocketServer } = await import('ws');
+    const wss = new WebSocketServer({ noServer: true });
+    const server = http.createServer((req, res) => { this.handleHttp(req, res); });
+
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const token = url.searchParams.get('token');
+      if (url.pathname !== '/ws' || !this.nodeByToken(token)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, ws => {
+        const handlers = this.attachPeer(token!, wsPeer(ws));
+        if (!handlers) {
+          ws.close(4001, 'unauthorized');
+          return;
+        }
+        ws.on('message', data => handlers.onMessage(data.toString()));
+        ws.on('close', () => handlers.onClose());
+      });
+    });
+
+    const port = this.opts.port ?? DEV_HUB_DEFAULT_PORT;
+    const host = this.opts.host || '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => { server.off('error', reject); resolve(); });
+    });
+    this.server = server;
+    this.wss = wss;
+
+    const address = server.address();
+    const actualPort = typeof address === 'object' && address ? address.port : port;
+    this.url = `http://${host}:${actualPort}`;
+    registerLoopbackHub(this.url, this);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (this.url) unregisterLoopbackHub(this.url, this);
+    this.url = null;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+    for (const peer of [...this.peers.values()]) {
+      try { peer.close(1001, 'hub stopped'); } catch { }
+    }
+    this.peers.clear();
+    for (const session of [...this.longPolls.values()]) session.close(1001, 'hub stopped');
+    this.wss?.close();
+    this.wss = null;
+    const server = this.server;
+    this.server = null;
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /** 断开节点连接（模拟网络中断，节点会按退避策略重连） */
+  dropConnection(nodeId: string): boolean {
+    const peer = this.peers.get(nodeId);
+    if (!peer) return false;
+    peer.terminate();
+    return true;
+  }
+
+  status(): DevHubStatus {
+    return {
+      url: this.url,
+      nodes: this.nodes.size,
+      online: this.peers.size,
+      clusters: this.clusters.size,
+      persistent: !!this.opts.dataDir,
+    };
+  }
+
+  // ========================================================================
+  // REST
+  // ========================================================================
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let response: TransportResponse;
+    try {
+      const headers: Record<string, string> = {};
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') headers[key] = value;
+      }
+      const request = { method: req.method || 'GET', path: req.url || '/', headers, body: await readBody(req) };
+      response = await this.handleRequest(request, req.socket.remoteAddress || '');
+    } catch (err: any) {
+      response = errorResponse(err);
+    }
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(response.text);
+  }
+
+  /** REST 入口（HTTP 和 loopback 传输共用）；remoteAddress 为 HTTP 对端地址，不传表示同进程调用 */
+  async handleRequest(req: TransportRequest, remoteAddress?: string): Promise<TransportResponse> {
+    try {
+      const url = new URL(req.path, 'http://localhost');
+      const auth = header(req.headers, 'authorization');
+      const token = auth?.startsWith('Bearer ') ? auth.slice(7) : null;
+      const ctx: RequestContext = {
+        method: req.method.toUpperCase(),
+        parts: url.pathname.split('/').filter(Boolean),
+        body: parseBody(req.body),
+        caller: this.nodeByToken(token),
+        admin: !!this.opts.adminKey && header(req.headers, 'x-admin-key') === this.opts.adminKey,
+        local: remoteAddress === undefined || isLoopbackAddress(remoteAddress),
+      };
+      const body = ctx.parts[0] === 'api' && ctx.parts[1] === 'lp'
+        ? await this.handleLongPoll(ctx, token)
+        : this.route(ctx);
+      return { status: 200, text: JSON.stringify(body) };
+    } catch (err: any) {
+      return errorResponse(err);
+    }
+  }
+
+  private route(ctx: RequestContext): any {
+    const { method, parts, body } = ctx;
+    switch (`${method} /${parts.join('/')}`) {
+      case 'GET /':
+        return { success: true, status: 'running' };
+      case 'POST /api/nodes/register':
+        return { success: true, data: this.register(ctx, body as RegisterRequest) };
+      case 'GET /api/nodes':
+        return { success: true, nodes: this.visibleNodes(ctx).map(n => this.toHubNode(n)) };
+      case 'GET /api/clusters':
+        return { success: true, data: this.visibleClusters(ctx).map(c => this.toHubCluster(c)) };
+    }
+
+    if (parts[0] !== 'api' || !parts[2]) throw new HttpError(404, `未知路由: ${method} /${parts.join('/')}`);
+
+    if (parts[1] === 'clusters' && parts[3] === 'shared-config') {
+      const cluster = this.clusters.get(parts[2]);
+      if (!cluster) throw new HttpError(404, `集群不存在: ${parts[2]}`);
+      this.requireAccess(ctx, this.nodes.get(cluster.rootNodeId)!, method === 'PUT');
+      if (method === 'GET') return { success: true, data: cluster.sharedConfig };
+      if (method === 'PUT') return { success: true, data: this.setSharedConfig(cluster, body) };
+      throw new HttpError(405, `不支持 ${method}`);
+    }
+
+    if (parts[1] !== 'nodes') throw new HttpError(404, `未知路由: ${method} /${parts.join('/')}`);
+    const node = this.nodes.get(parts[2]);
+    if (!node) throw new HttpError(404, `节点不存在: ${parts[2]}`);
+    const sub = parts[3] || '';
+
+    switch (`${method} ${sub}`) {
+      case 'GET ':
+        this.requireAccess(ctx, node, false);
+        return { success: true, data: this.toHubNode(node) };
+      case 'PATCH ':
+        this.requireAccess(ctx, node, true);
+        if (body?.name) node.name = String(body.name);
+        if (body?.alias) node.alias = String(body.alias);
+        this.scheduleSave();
+        return { success: true, data: this.toHubNode(node) };
+      case 'DELETE ':
+        this.requireAccess(ctx, node, true);
+        this.unregister(node);
+        return { success: true };
+      case 'PATCH parent':
+        this.requireAccess(ctx, node, true);
+        return { success: true, data: this.reparent(ctx, node, body?.newParentId ?? null) };
+      case 'GET children':
+        this.requireAccess(ctx, node, false);
+        return { success: true, data: this.childrenOf(node.id).map(n => this.toHubNode(n)) };
+      case 'GET tree':
+        this.requireAccess(ctx, node, false);
+        return { success: true, data: this.toTree(node) };
+      case 'GET invite-code':
+        this.requireAccess(ctx, node, true);
+        return { success: true, data: { inviteCode: node.inviteCode ?? null } };
+      case 'POST invite-code':
+        this.requireAccess(ctx, node, true);
+        node.inviteCode = body?.code ? String(body.code) : randomBytes(4).toString('hex');
+        this.scheduleSave();
+        return { success: true, data: { inviteCode: node.inviteCode } };
+    }
+    throw new HttpError(404, `未知路由: ${method} /${parts.join('/')}`);
+  }
+
+  /** 同集群可读；写操作要求调用方是该节点本身或其祖先 */
+  private requireAccess(ctx: RequestContext, node: NodeRecord, write: boolean): void {
+    if (ctx.admin) return;
+    if (!ctx.caller) throw new HttpError(401, '缺少或无效的 token');
+    if (write ? !this.isSelfOrAncestor(ctx.caller.id, node.id) : ctx.caller.clusterId !== node.clusterId) {
+      throw new HttpError(403, '无权访问该节点');
+    }
+  }
+
+  private register(ctx: RequestContext, req: RegisterRequest): any {
+    if (!req?.name || !req?.alias) throw new HttpError(400, '缺少 name / alias');
+
+    // 已有节点重新注册：更新资料，沿用原 token
+    const existing = req.id ? this.nodes.get(req.id) : undefined;
+    if (existing) {
+      if (!ctx.admin && ctx.caller?.id !== existing.id) throw new HttpError(409, `节点 ID 已存在: ${req.id}`);
+      existing.name = req.name;
+      existing.alias = req.alias;
+      if (req.capabilities) existing.capabilities = req.capabilities;
+      this.scheduleSave();
+      return this.registerResponse(existing);
+    }
+
+    const parentId = req.parentId || null;
+    let clusterId: string;
+    if (parentId) {
+      const parent = this.nodes.get(parentId);
+      if (!parent) throw new HttpError(404, `父节点不存在: ${parentId}`);
+      const authorized = ctx.admin
+        || (ctx.caller && this.isSelfOrAncestor(ctx.caller.id, parent.id))
+        || (!!parent.inviteCode && req.inviteCode === parent.inviteCode);
+      if (!authorized) throw new HttpError(403, parent.inviteCode ? '邀请码错误' : '父节点未设置邀请码');
+      clusterId = parent.clusterId;
+    } else {
+      if (this.opts.singleCluster && !ctx.admin) {
+        if (this.clusters.size > 0) throw new HttpError(403, '该 Hub 只服务一个集群，请用 --parent 和邀请码加入');
+        if (!ctx.local) throw new HttpError(403, '根节点只能在 Hub 所在主机上注册');
+      }
+      clusterId = randomUUID();
+    }
+
+    const now = Date.now();
+    const node: NodeRecord = {
+      id: req.id || randomUUID(),
+      name: req.name,
+      alias: req.alias,
+      parentId,
+      clusterId,
+      capabilities: req.capabilities || [],
+      token: `dev_${randomBytes(24).toString('hex')}`,
+      load: 0,
+      activeTasks: 0,
+      connectedAt: 0,
+      lastHeartbeat: 0,
+      createdAt: now,
+    };
+    this.nodes.set(node.id, node);
+    if (!parentId) {
+      this.clusters.set(clusterId, { id: clusterId, name: req.name, rootNodeId: node.id, sharedConfig: {}, createdAt: now });
+    }
+    this.scheduleSave();
+    this.opts.logger.info(`[cluster-hub] ${this.label} 注册节点 ${node.alias} (${node.id})${parentId ? ` ← 父 ${parentId}` : '（根节点）'}`);
+    this.notifyCluster(clusterId, 'child_registered', { nodeId: node.id, parentId });
+    return this.registerResponse(node);
+  }
+
+  private registerResponse(node: NodeRecord): any {
+    return { nodeId: node.id, clusterId: node.clusterId, parentId: node.parentId, depth: this.depthOf(node), token: node.token };
+  }
+
+  /** 注销节点；子节点挂到被注销节点的父节点下（根节点注销时子节点各自成为新集群的根） */
+  private unregister(node: NodeRecord): void {
+    for (const child of this.childrenOf(node.id)) this.moveSubtree(child, node.parentId);
+    this.nodes.delete(node.id);
+    this.peers.get(node.id)?.close(4003, 'unregistered');
+    this.peers.delete(node.id);
+    const cluster = this.clusters.get(node.clusterId);
+    if (cluster?.rootNodeId === node.id) this.clusters.delete(node.clusterId);
+    this.notifyCluster(node.clusterId, 'child_unregistered', { nodeId: node.id });
+    this.scheduleSave();
+    this.opts.logger.info(`[cluster-hub] ${this.label} 注销节点 ${node.alias} (${node.id})`);
+  }
+
+  private reparent(ctx: RequestContext, node: NodeRecord, newParentId: string | null): any {
+    if (newParentId) {
+      const parent = this.nodes.get(newParentId);
+      if (!parent) throw new HttpError(404, `父节点不存在: ${newParentId}`);
+      if (this.isSelfOrAncestor(node.id, parent.id)) throw new HttpError(400, '不能挂到自己的子树下');
+      if (!ctx.admin && ctx.caller && ctx.caller.clusterId !== parent.clusterId && !this.isSelfOrAncestor(ctx.caller.id, parent.id)) {
+        throw new HttpError(403, '无权挂到该父节点');
+      }
+    } else if (this.opts.singleCluster && !ctx.admin) {
+      throw new HttpError(403, '该 Hub 只服务一个集群，不能脱离成为新集群的根');
+    }
+    const oldClusterId = node.clusterId;
+    this.moveSubtree(node, newParentId);
+    this.scheduleSave();
+    this.notifyCluster(oldClusterId, 'reparented', { nodeId: node.id, parentId: newParentId });
+    if (node.clusterId !== oldClusterId) this.notifyCluster(node.clusterId, 'child_arrived', { nodeId: node.id });
+    return { ...this.registerResponse(node), node: this.toHubNode(node) };
+  }
+
+  /** 改挂父节点，整棵子树随之迁入新集群；挂到 null 时成为新集群的根 */
+  private moveSubtree(node: NodeRecord, newParentId: string | null): void {
+    const oldCluster = this.clusters.get(node.clusterId);
+    if (oldCluster?.rootNodeId === node.id) this.clusters.delete(oldCluster.id);
+
+    let clusterId: string;
+    if (newParentId) {
+      clusterId = this.nodes.get(newParentId)!.clusterId;
+    } else {
+      clusterId = randomUUID();
+      this.clusters.set(clusterId, {
+        id: clusterId, name: node.name, rootNodeId: node.id,
+        sharedConfig: oldCluster?.rootNodeId === node.id ? oldCluster.sharedConfig : {},
+        createdAt: Date.now(),
+      });
+    }
+    node.parentId = newParentId;
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      current.clusterId = clusterId;
+      stack.push(...this.childrenOf(current.id));
+    }
+  }
+
+  private setSharedConfig(cluster: ClusterRecord, config: any): Record<string, any> {
+    cluster.sharedConfig = config && typeof config === 'object' ? config : {};
+    this.scheduleSave();
+    for (const node of this.nodes.values()) {
+      if (node.clusterId !== cluster.id) continue;
+      this.sendTo(node.id, {
+        type: 'direct', id: randomUUID(), to: node.id,
+        payload: { event: 'shared_config', config: cluster.sharedConfig },
+        timestamp: Date.now(),
+      });
+    }
+    return cluster.sharedConfig;
+  }
+
+  // ========================================================================
+  // 消息中转
+  // ========================================================================
+
+  /** 节点通道接入（WebSocket / 长轮询 / loopback 共用），token 无效返回 null */
+  attachPeer(token: string, peer: HubPeer): PeerHandlers | null {
+    const node = this.nodeByToken(token);
+    if (!node) return null;
+
+    // 同一节点重复连接：新连接顶替旧连接
+    this.peers.get(node.id)?.close(4000, 'replaced');
+    this.peers.set(node.id, peer);
+    node.connectedAt = Date.now();
+    node.lastHeartbeat = node.connectedAt;
+    this.opts.logger.info(`[cluster-hub] ${this.label} 节点上线 ${node.alias} (${node.id})`);
+
+    const cluster = this.clusters.get(node.clusterId);
+    this.sendTo(node.id, {
+      type: 'direct', id: randomUUID(), to: node.id,
+      payload: { action: 'connected', nodeId: node.id, sharedConfig: cluster?.sharedConfig },
+      timestamp: Date.now(),
+    });
+    this.broadcastSystem(node.clusterId, { action: 'node_online', node: this.toHubNode(node) }, node.id);
+
+    return {
+      onMessage: (data) => {
+        let msg: WSMessage;
+        try {
+          msg = JSON.parse(data);
+        } catch {
+          return;
+        }
+        this.handleMessage(node, msg);
+      },
+      onClose: () => {
+        if (this.peers.get(node.id) !== peer) return;
+        this.peers.delete(node.id);
+        this.opts.logger.info(`[cluster-hub] ${this.label} 节点离线 ${node.alias} (${node.id})`);
+        if (this.nodes.has(node.id)) this.broadcastSystem(node.clusterId, { action: 'node_offline', nodeId: node.id }, node.id);
+      },
+    };
+  }
+
+  /** 长轮询：connect 建立会话，之后按会话 ID 收发、关闭；会话只允许创建它的节点访问 */
+  private async handleLongPoll(ctx: RequestContext, token: string | null): Promise<any> {
+    if (!ctx.caller || !token) throw new HttpError(401, '缺少或无效的 token');
+    const sessionId = ctx.parts[2];
+
+    if (ctx.method === 'POST' && sessionId === 'connect') {
+      const session = new LongPollSession(randomUUID(), ctx.caller.id, () => this.longPolls.delete(session.id));
+      const handlers = this.attachPeer(token, session);
+      if (!handlers) throw new HttpError(401, '缺少或无效的 token');
+      session.handlers = handlers;
+      this.longPolls.set(session.id, session);
+      return { success: true, data: { sessionId: session.id } };
+    }
+
+    const session = sessionId ? this.longPolls.get(sessionId) : undefined;
+    if (!session || session.nodeId !== ctx.caller.id) throw new GoneError(1006, 'session not found');
+
+    switch (ctx.method) {
+      case 'GET':
+        return { success: true, data: { messages: await session.poll() } };
+      case 'POST':
+        for (const message of Array.isArray(ctx.body?.messages) ? ctx.body.messages : []) {
+          if (typeof message === 'string') session.handlers?.onMessage(message);
+        }
+        return { success: true };
+      case 'DELETE':
+        session.close(1000, 'client closed');
+        return { success: true };
+    }
+    throw new HttpError(405, `不支持 ${ctx.method}`);
+  }
+
+  private handleMessage(sender: NodeRecord, msg: WSMessage): void {
+    if (msg.type === 'heartbeat') {
+      sender.lastHeartbeat = Date.now();
+      sender.load = Number(msg.payload?.load) || 0;
+      sender.activeTasks = Number(msg.payload?.activeTasks) || 0;
+      if (msg.payload?.metrics) sender.metrics = msg.payload.metrics;
+      this.sendTo(sender.id, { type: 'heartbeat', id: msg.id, payload: { replyTo: msg.id }, timestamp: Date.now() });
+      return;
+    }
+
+    const forwarded: WSMessage = { ...msg, from: sender.id, timestamp: msg.timestamp || Date.now() };
+
+    if (msg.type === 'broadcast') {
+      for (const node of this.nodes.values()) {
+        if (node.clusterId === sender.clusterId && node.id !== sender.id) this.sendTo(node.id, forwarded);
+      }
+      return;
+    }
+
+    if (!msg.to) return;
+    const target = this.nodes.get(msg.to);
+    if (!target || target.clusterId !== sender.clusterId) {
+      this.opts.logger.warn(`[cluster-hub] ${this.label} 丢弃 ${msg.type} ${msg.id}: 目标 ${msg.to} 不在 ${sender.alias} 的集群`);
+      return;
+    }
+    if (!this.sendTo(target.id, forwarded)) {
+      this.opts.logger.warn(`[cluster-hub] ${this.label} 丢弃 ${msg.type} ${msg.id}: 目标 ${target.alias} 离线`);
+    }
+  }
+
+  private sendTo(nodeId: string, msg: WSMessage): boolean {
+    const peer = this.peers.get(nodeId);
+    if (!peer || !peer.open) return false;
+    peer.send(JSON.stringify(msg));
+    return true;
+  }
+
+  private broadcastSystem(clusterId: string, payload: any, exceptNodeId?: string): void {
+    const msg: WSMessage = { type: 'broadcast', id: randomUUID(), channel: 'system', payload, timestamp: Date.now() };
+    for (const node of this.nodes.values()) {
+      if (node.clusterId === clusterId && node.id !== exceptNodeId) this.sendTo(node.id, msg);
+    }
+  }
+
+  private notifyCluster(clusterId: string, action: string, payload: Record<string, any>): void {
+    this.broadcastSystem(clusterId, { action, ...payload });
+  }
+
+  // ========================================================================
+  // 持久化
+  // ========================================================================
+
+  private scheduleSave(): void {
+    if (!this.opts.dataDir || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+  }
+
+  private save(): void {
+    if (!this.opts.dataDir) return;
+    try {
+      fs.mkdirSync(this.opts.dataDir, { recursive: true });
+      fs.writeFileSync(path.join(this.opts.dataDir, STATE_FILE), JSON.stringify({
+        version: 1,
+        updatedAt: Date.now(),
+        nodes: [...this.nodes.values()],
+        clusters: [...this.clusters.values()],
+      }, null, 2));
+    } catch (err: any) {
+      this.opts.logger.warn(`[cluster-hub] ${this.label} 保存注册表失败: ${err.message}`);
+    }
+  }
+
+  /** 在线状态和负载不恢复，节点重连后由心跳刷新 */
+  private load(): void {
+    if (!this.opts.dataDir) return;
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(path.join(this.opts.dataDir, STATE_FILE), 'utf-8'));
+    } catch {
+      return;
+    }
+    for (const node of Array.isArray(data?.nodes) ? data.nodes : []) {
+      if (!node?.id || !node?.token) continue;
+      this.nodes.set(node.id, { ...node, load: 0, activeTasks: 0, connectedAt: 0, lastHeartbeat: 0, metrics: undefined });
+    }
+    for (const cluster of Array.isArray(data?.clusters) ? data.clusters : []) {
+      if (cluster?.id && this.nodes.has(cluster.rootNodeId)) this.clusters.set(cluster.id, cluster);
+    }
+    this.opts.logger.info(`[cluster-hub] ${this.label} 已恢复 ${this.nodes.size} 个节点、${this.clusters.size} 个集群`);
+  }
+
+  // ========================================================================
+  // 查询辅助
+  // ========================================================================
+
+  private nodeByToken(token: string | null): NodeRecord | null {
+    if (!token) return null;
+    for (const node of this.nodes.values()) {
+      if (node.token === token) return node;
+    }
+    return null;
+  }
+
+  private visibleNodes(ctx: RequestContext): NodeRecord[] {
+    if (ctx.admin) return [...this.nodes.values()];
+    if (!ctx.caller) throw new HttpError(401, '缺少或无效的 token');
+    return [...this.nodes.values()].filter(n => n.clusterId === ctx.caller!.clusterId);
+  }
+
+  private visibleClusters(ctx: RequestContext): ClusterRecord[] {
+    if (ctx.admin) return [...this.clusters.values()];
+    if (!ctx.caller) throw new HttpError(401, '缺少或无效的 token');
+    return [...this.clusters.values()].filter(c => c.id === ctx.caller!.clusterId);
+  }
+
+  private childrenOf(nodeId: string): NodeRecord[] {
+    return [...this.nodes.values()].filter(n => n.parentId === nodeId);
+  }
+
+  private isSelfOrAncestor(ancestorId: string, nodeId: string): boolean {
+    let current = this.nodes.get(nodeId);
+    while (current) {
+      if (current.id === ancestorId) return true;
+      current = current.parentId ? this.nodes.get(current.parentId) : undefined;
+    }
+    return false;
+  }
+
+  private depthOf(node: NodeRecord): number {
+    let depth = 0;
+    let current = node;
+    while (current.parentId && this.nodes.has(current.parentId)) {
+      current = this.nodes.get(current.parentId)!;
+      depth++;
+    }
+    return depth;
+  }
+
+  private toHubNode(node: NodeRecord): HubNode {
+    return {
+      id: node.id,
+      name: node.name,
+      alias: node.alias,
+      parentId: node.parentId,
+      clusterId: node.clusterId,
+      depth: this.depthOf(node),
+      childIds: this.childrenOf(node.id).map(n => n.id),
+      capabilities: node.capabilities,
+      online: this.peers.has(node.id),
+      load: node.load,
+      connectedAt: node.connectedAt,
+      lastHeartbeat: node.lastHeartbeat,
+      activeTasks: node.activeTasks,
+      metrics: node.metrics,
+    };
+  }
+
+  private toHubCluster(cluster: ClusterRecord): HubCluster {
+    return {
+      id: cluster.id,
+      name: cluster.name,
+      rootNodeId: cluster.rootNodeId,
+      nodeCount: [...this.nodes.values()].filter(n => n.clusterId === cluster.id).length,
+      createdAt: cluster.createdAt,
+    };
+  }
+
+  private toTree(node: NodeRecord): HubTreeNode {
+    return {
+      id: node.id,
+      name: node.name,
+      alias: node.alias,
+      online: this.peers.has(node.id),
+      load: node.load,
+      capabilities: node.capabilities,
+      depth: this.depthOf(node),
+      children: this.childrenOf(node.id).map(child => this.toTree(child)),
+    };
+  }
+}
+
+/** 长轮询会话已关闭，客户端据 code 判断是否认证失败 */
+class GoneError extends HttpError {
+  constructor(public code: number, public reason: string) {
+    super(410, reason);
+  }
+}
+
+function errorResponse(err: any): TransportResponse {
+  const body: any = { success: false, error: err.message };
+  if (err instanceof GoneError) {
+    body.code = err.code;
+    body.reason = err.reason;
+  }
+  return { status: err instanceof HttpError ? err.status : 500, text: JSON.stringify(body) };
+}
+
+function isLoopbackAddress(address: string): boolean {
+  const ip = address.replace(/^::ffff:/, '');
+  return ip === '::1' || ip.startsWith('127.');
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) return value;
+  }
+  return undefined;
+}
+
+function wsPeer(ws: WsSocket): HubPeer {
+  return {
+    get open() { return ws.readyState === ws.OPEN; },
+    send: (data) => ws.send(data),
+    close: (code, reason) => ws.close(code, reason),
+    terminate: () => ws.terminate(),
+  };
+}
+
+/**
+ * 长轮询会话：Hub 发往节点的消息先排队，由节点的 poll 请求取走
+ * 同一时刻只挂起一个 poll，新的 poll 会让旧的立即返回空列表
+ */
+class LongPollSession implements HubPeer {
+  handlers: PeerHandlers | null = null;
+  private queue: string[] = [];
+  private waiter: (() => void) | null = null;
+  private closed: { code: number; reason: string } | null = null;
+  private expireTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(readonly id: string, readonly nodeId: string, private onRemoved: () => void) {
+    this.armExpiry();
+  }
+
+  get open(): boolean {
+    return !this.closed;
+  }
+
+  send(data: string): void {
+    if (this.closed) return;
+    this.queue.push(data);
+    this.waiter?.();
+  }
+
+  async poll(): Promise<string[]> {
+    if (this.expireTimer) clearTimeout(this.expireTimer);
+    this.expireTimer = null;
+    this.waiter?.();
+
+    if (this.queue.length === 0 && !this.closed) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          if (this.waiter === done) this.waiter = null;
+          resolve();
+        };
+        const timer = setTimeout(done, LONG_POLL_HOLD_MS);
+        this.waiter = done;
+      });
+    }
+
+    if (this.queue.length === 0 && this.closed) throw new GoneError(this.closed.code, this.closed.reason);
+    if (!this.closed) this.armExpiry();
+    const messages = this.queue;
+    this.queue = [];
+    return messages;
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.closed) return;
+    this.closed = { code, reason };
+    if (this.expireTimer) clearTimeout(this.expireTimer);
+    this.expireTimer = null;
+    this.waiter?.();
+    this.onRemoved();
+    this.handlers?.onClose();
+  }
+
+  terminate(): void {
+    this.close(1006, 'terminated');
+  }
+
+  /** 两次 poll 之间超过 TTL 视为节点断线 */
+  private armExpiry(): void {
+    this.expireTimer = setTimeout(() => this.close(1006, 'poll timeout'), LONG_POLL_SESSION_TTL_MS);
+    this.expireTimer.unref?.();
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string | undefined> {
+  if (req.method === 'GET' || req.method === 'DELETE') return undefined;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, '请求体过大');
+    chunks.push(chunk);
+  }
+  return size === 0 ? undefined : Buffer.concat(chunks).toString('utf-8');
+}
+
+function parseBody(body: string | undefined): any {
+  if (!body) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, '请求体不是合法 JSON');
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * 节点间文件传输 — 经 Hub WebSocket 分块推送 / 拉取
+ *
+ * 流程（push）:
+ *   发送方 offer → 接收方 accept{offset} → 发送方按窗口发 chunk → 接收方逐块 ack
+ *   → 收齐后接收方校验 sha256，改名落盘，回 complete
+ * 拉取（pull）: 请求方发 pull，持有方以同一 transferId 反向 push
+ *
+ * 断点续传: 接收方写入 <目标>.part，旁边 <目标>.part.json 记录 sha256；
+ *           同一文件再次 offer（含断线重连后的重发）时从已有字节处继续；
+ *           同一目标正在接收时拒绝其他传输的 offer。
+ * 白名单:   接收方只写入、持有方只读取 hub-data/files 与 fileAllowDirs 下的路径。
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import type { FileFrame, FileTransfer } from './types.js';
+import type { FileTransferStore } from './store.js';
+
+/** 每块原始字节数 */
+export const FILE_CHUNK_SIZE = 192 * 1024;
+/** 未确认的在途块数上限 */
+export const FILE_WINDOW_CHUNKS = 4;
+/** 超过该时长未收到对端任何帧即判定传输中断 (ms) */
+export const FILE_STALL_TIMEOUT_MS = 60_000;
+
+type PluginLogger = {
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+  error: (...args: any[]) => void;
+};
+
+export interface FileTransferOptions {
+  store: FileTransferStore;
+  logger: PluginLogger;
+  /** hub-data/files，相对路径以此为根，且始终在白名单内 */
+  baseDir: string;
+  /** 发送 file 帧 */
+  send: (to: string, frame: FileFrame) => void;
+  /** 额外白名单目录与大小上限（每次读取，配置修改即时生效） */
+  limits: () => { allowDirs: string[]; maxBytes: number };
+  resolveNodeName?: (nodeId: string) => string | undefined;
+  /** 记录变化（推送给控制台） */
+  onUpdate?: (transfer: FileTransfer) => void;
+}
+
+interface Outgoing {
+  transferId: string;
+  to: string;
+  fd: number;
+  size: number;
+  /** 下一个要发送的偏移 */
+  next: number;
+  /** 对端已确认的偏移 */
+  acked: number;
+}
+
+interface Incoming {
+  transferId: string;
+  from: string;
+  target: string;
+  part: string;
+  size: number;
+  sha256: string;
+  received: number;
+  verifying?: boolean;
+}
+
+/** 流式计算文件 sha256 */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', data => hash.update(data))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+function expandHome(p: string): string {
+  return p.startsWith('~') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function isInside(child: string, root: string): boolean {
+  const rel = path.relative(root, child);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+export class FileTransferManager {
+  private outgoing = new Map<string, Outgoing>();
+  private incoming = new Map<string, Incoming>();
+  private stallTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private waiters = new Map<string, Array<(t: FileTransfer) => void>>();
+
+  constructor(private opts: FileTransferOptions) { }
+
+  // ==========================================================================
+  // 白名单
+  // ==========================================================================
+
+  private allowedRoots(): string[] {
+    const roots = [this.opts.baseDir, ...this.opts.limits().allowDirs.map(expandHome)];
+    return roots.map(r => path.resolve(r));
+  }
+
+  /**
+   * 把对端给出的路径解析为本地绝对路径；相对路径以 hub-data/files 为根。
+   * 不在白名单内时抛错（含符号链接指向白名单外的情况）
+   */
+  resolveAllowed(requested: string, mode: 'read' | 'write'): string {
+    if (!requested) throw new Error('缺少路径');
+    const resolved = path.resolve(this.opts.baseDir, expandHome(requested));
+    const roots = this.allowedRoots();
+    if (!roots.some(r => isInside(resolved, r))) {
+      throw new Error(`路径不在白名单内: ${requested}`);
+    }
+    // 白名单内已存在的部分按真实路径再校验一次，防止符号链接逃逸
+    const existing = mode === 'read' ? resolved : this.nearestExisting(path.dirname(resolved));
+    if (existing && roots.some(r => isInside(existing, r))) {
+      const real = fs.realpathSync(existing);
+      const realRoots = roots.map(r => fs.existsSync(r) ? fs.realpathSync(r) : r);
+      if (!realRoots.some(r => isInside(real, r))) {
+        throw new Error(`路径不在白名单内: ${requested}`);
+      }
+    }
+    return resolved;
+  }
+
+  private nearestExisting(dir: string): string | null {
+    for (let d = dir; ; d = path.dirname(d)) {
+      if (fs.existsSync(d)) return d;
+      if (path.dirname(d) === d) return null;
+    }
+  }
+
+  // ==========================================================================
+  // 发起
+  // ==========================================================================
+
+  /** 把本地文件推送到对端节点 */
+  async push(nodeId: string, localPath: string, remotePath: string): Promise<FileTransfer> {
+    const source = path.resolve(expandHome(localPath));
+    return this.startSend(randomUUID(), nodeId, source, remotePath);
+  }
+
+  /** 请求对端把文件推送过来，保存到本地 localPath（本地发起，不受白名单限制） */
+  pull(nodeId: string, remotePath: string, localPath: string): FileTransfer {
+    const now = Date.now();
+    const transfer = this.opts.store.upsert({
+      transferId: randomUUID(),
+      direction: 'receive',
+      peerNodeId: nodeId,
+      peerNodeName: this.opts.resolveNodeName?.(nodeId),
+      localPath: path.resolve(expandHome(localPath)),
+      remotePath,
+      size: 0,
+      transferred: 0,
+      status: 'pending',
+      pulled: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.opts.send(nodeId, { op: 'pull', transferId: transfer.transferId, path: remotePath, dest: localPath });
+    this.armStall(transfer.transferId);
+    this.opts.logger.info(`[cluster-hub] 拉取文件 ${remotePath} ← ${nodeId}`);
+    return transfer;
+  }
+
+  private async startSend(transferId: string, to: string, source: string, remotePath: string, pulled = false): Promise<FileTransfer> {
+    const stat = fs.statSync(source);
+    if (!stat.isFile()) throw new Error(`不是文件: ${source}`);
+    const { maxBytes } = this.opts.limits();
+    if (stat.size > maxBytes) throw new Error(`文件大小 ${stat.size} 超过上限 ${maxBytes}`);
+
+    const now = Date.now();
+    const transfer = this.opts.store.upsert({
+      transferId,
+      direction: 'send',
+      peerNodeId: to,
+      peerNodeName: this.opts.resolveNodeName?.(to),
+      localPath: source,
+      remotePath,
+      size: stat.size,
+      sha256: await hashFile(source),
+      transferred: 0,
+      status: 'pending',
+      pulled: pulled || undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.outgoing.set(transferId, {
+      transferId, to, fd: fs.openSync(source, 'r'), size: stat.size, next: 0, acked: 0,
+    });
+    this.sendOffer(transfer);
+    this.opts.logger.info(`[cluster-hub] 推送文件 ${source} → ${to}:${remotePath} (${stat.size} bytes)`);
+    return transfer;
+  }
+
+  private sendOffer(transfer: FileTransfer): void {
+    this.opts.send(transfer.peerNodeId, {
+      op: 'offer',
+      transferId: transfer.transferId,
+      name: path.basename(transfer.localPath),
+      path: transfer.remotePath,
+      size: transfer.size,
+      sha256: transfer.sha256,
+    });
+    this.armStall(transfer.transferId);
+  }
+
+  /**
+   * 重连后续传：发送中的重发 offer（接收方按 .part 告知偏移），
+   * 进程重启后丢失内存状态的记录标记失败
+   */
+  resumeAll(): void {
+    for (const transfer of this.opts.store.listOpen()) {
+      if (transfer.direction === 'send' && this.outgoing.has(transfer.transferId)) {
+        const state = this.outgoing.get(transfer.transferId)!;
+        state.next = state.acked;
+        this.sendOffer(transfer);
+      } else if (transfer.direction === 'receive' && (this.incoming.has(transfer.transferId) || transfer.pulled)) {
+        this.armStall(transfer.transferId);
+      } else {
+        this.finish(transfer.transferId, 'failed', '进程重启，传输中断（重新发起即可续传）');
+      }
+    }
+  }
+
+  cancel(transferId: string): FileTransfer | null {
+    const transfer = this.opts.store.get(transferId);
+    if (!transfer || !this.isOpen(transfer)) return transfer;
+    this.opts.send(transfer.peerNodeId, { op: 'error', transferId, error: '对端已取消' });
+    return this.finish(transferId, 'cancelled', '已取消');
+  }
+
+  /** 等待传输结束（completed / failed / cancelled） */
+  wait(transferId: string, timeoutMs: number): Promise<FileTransfer | null> {
+    const transfer = this.opts.store.get(transferId);
+    if (!transfer || !this.isOpen(transfer)) return Promise.resolve(transfer);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        const list = this.waiters.get(transferId) || [];
+        this.waiters.set(transferId, list.filter(w => w !== done));
+        resolve(this.opts.store.get(transferId));
+      }, timeoutMs);
+      const done = (t: FileTransfer) => { clearTimeout(timer); resolve(t); };
+      this.waiters.set(transferId, [...(this.waiters.get(transferId) || []), done]);
+    });
+  }
+
+  /** 停止时释放文件句柄和计时器（.part 保留以便续传） */
+  shutdown(): void {
+    for (const timer of this.stallTimers.values()) clearTimeout(timer);
+    this.stallTimers.clear();
+    for (const state of this.outgoing.values()) this.closeFd(state);
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  // ==========================================================================
+  // 收帧
+  // ==========================================================================
+
+  handleFrame(from: string, frame: FileFrame): void {
+    if (!frame?.transferId || !frame.op) return;
+    // 只认该传输的对端，防止第三方节点篡改他人的传输；offer / pull 可以开启新传输
+    const peer = this.peerOf(frame.transferId);
+    const opens = frame.op === 'offer' || frame.op === 'pull';
+    if (peer !== from && (peer !== undefined || !opens)) {
+      this.opts.logger.warn(`[cluster-hub] 丢弃文件帧 ${frame.op} ${frame.transferId} from ${from}: 不是该传输的对端`);
+      return;
+    }
+    try {
+      switch (frame.op) {
+        case 'offer': this.onOffer(from, frame); break;
+        case 'accept': this.onAccept(frame); break;
+        case 'chunk': this.onChunk(from, frame); break;
+        case 'ack': this.onAck(frame); break;
+        case 'complete': this.finish(frame.transferId, 'completed'); break;
+        case 'reject':
+        case 'error': this.finish(frame.transferId, 'failed', frame.error || '对端中止'); break;
+        case 'pull': this.onPull(from, frame); break;
+      }
+    } catch (err: any) {
+      this.opts.logger.error(`[cluster-hub] 文件帧处理失败 (${frame.op} ${frame.transferId}): ${err.message}`);
+      this.opts.send(from, { op: 'error', transferId: frame.transferId, error: err.message });
+      this.finish(frame.transferId, 'failed', err.message);
+    }
+  }
+
+  /** 传输的对端节点：进行中的发送 / 接收状态优先，其次是持久化记录 */
+  private peerOf(transferId: string): string | undefined {
+    return this.outgoing.get(transferId)?.to
+      ?? this.incoming.get(transferId)?.from
+      ?? this.opts.store.get(transferId)?.peerNodeId;
+  }
+
+  private onPull(from: string, frame: FileFrame): void {
+    let source: string;
+    try {
+      source = this.resolveAllowed(frame.path || '', 'read');
+    } catch (err: any) {
+      this.opts.send(from, { op: 'reject', transferId: frame.transferId, error: err.message });
+      return;
+    }
+    this.startSend(frame.transferId, from, source, frame.dest || frame.path || '', true).catch(err => {
+      this.opts.send(from, { op: 'reject', transferId: frame.transferId, error: err.message });
+      this.finish(frame.transferId, 'failed', err.message);
+    });
+  }
+
+  private onOffer(from: string, frame: FileFrame): void {
+    const { transferId } = frame;
+    const size = Number(frame.size);
+    const sha256 = String(frame.sha256 || '');
+    const reject = (error: string) => {
+      this.opts.send(from, { op: 'reject', transferId, error });
+      this.opts.logger.warn(`[cluster-hub] 拒绝文件 ${frame.path} from ${from}: ${error}`);
+    };
+    if (!Number.isFinite(size) || size < 0 || !/^[0-9a-f]{64}$/.test(sha256)) {
+      reject('offer 参数无效'); return;
+    }
+
+    // 重连后的重发：沿用内存状态
+    const existing = this.incoming.get(transferId);
+    if (existing) {
+      this.opts.send(from, { op: 'accept', transferId, offset: existing.received });
+      this.armStall(transferId);
+      return;
+    }
+
+    // pull 的回应写入本地发起时指定的路径；其余按白名单校验
+    const record = this.opts.store.get(transferId);
+    let target: string;
+    if (record?.pulled && record.direction === 'receive' && record.peerNodeId === from) {
+      target = record.localPath;
+    } else {
+      try {
+        target = this.resolveAllowed(frame.path || '', 'write');
+      } catch (err: any) {
+        reject(err.message); return;
+      }
+    }
+    const { maxBytes } = this.opts.limits();
+    if (size > maxBytes) { reject(`文件大小 ${size} 超过上限 ${maxBytes}`); return; }
+    // .part 按目标路径命名：同一目标已有进行中的接收时拒绝，避免两路分块写进同一个文件
+    const owner = [...this.incoming.values()].find(s => s.target === target);
+    if (owner) { reject(`目标文件正在接收中 (${owner.transferId})`); return; }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const part = `${target}.part`;
+    const offset = this.resumeOffset(part, sha256, size);
+    if (offset === 0) {
+      fs.writeFileSync(part, Buffer.alloc(0));
+      fs.writeFileSync(`${part}.json`, JSON.stringify({ sha256, size }));
+    }
+
+    const now = Date.now();
+    this.opts.store.upsert({
+      transferId,
+      direction: 'receive',
+      peerNodeId: from,
+      peerNodeName: this.opts.resolveNodeName?.(from),
+      localPath: target,
+      remotePath: record?.remotePath || frame.name || '',
+      size,
+      sha256,
+      transferred: offset,
+      status: 'transferring',
+      pulled: record?.pulled,
+      resumedFrom: offset > 0 ? offset : undefined,
+      createdAt: record?.createdAt || now,
+      updatedAt: now,
+    });
+    this.incoming.set(transferId, { transferId, from, target, part, size, sha256, received: offset });
+    this.opts.send(from, { op: 'accept', transferId, offset });
+    this.armStall(transferId);
+    this.opts.logger.info(`[cluster-hub] 接收文件 ${target} from ${from}${offset > 0 ? `，从 ${offset} 续传` : ''}`);
+    this.maybeComplete(this.incoming.get(transferId)!);
+  }
+
+  /** 已有 .part 且 sha256 一致时返回其大小，否则 0 */
+  private resumeOffset(part: string, sha256: string, size: number): number {
+    try {
+      const meta = JSON.parse(fs.readFileSync(`${part}.json`, 'utf-8'));
+      if (meta.sha256 !== sha256 || meta.size !== size) return 0;
+      const partSize = fs.statSync(part).size;
+      return partSize <= size ? partSize : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private onAccept(frame: FileFrame): void {
+    const state = this.outgoing.get(frame.transferId);
+    if (!state) return;
+    const offset = Math.min(Math.max(0, Number(frame.offset) || 0), state.size);
+    state.next = offset;
+    state.acked = offset;
+    const update: Partial<FileTransfer> = { status: 'transferring', transferred: offset };
+    if (offset > 0) update.resumedFrom = offset;
+    this.emitUpdate(this.opts.store.update(frame.transferId, update));
+    this.armStall(frame.transferId);
+    this.pump(state);
+  }
+
+  private onAck(frame: FileFrame): void {
+    const state = this.outgoing.get(frame.transferId);
+    if (!state) return;
+    const offset = Number(frame.offset) || 0;
+    if (offset > state.acked) {
+      state.acked = offset;
+      this.emitUpdate(this.opts.store.update(frame.transferId, { transferred: offset }));
+    }
+    this.armStall(frame.transferId);
+    this.pump(state);
+  }
+
+  /** 在窗口内继续发送分块 */
+  private pump(state: Outgoing): void {
+    while (state.next < state.size && state.next - state.acked < FILE_WINDOW_CHUNKS * FILE_CHUNK_SIZE) {
+      const length = Math.min(FILE_CHUNK_SIZE, state.size - state.next);
+      const buffer = Buffer.alloc(length);
+      fs.readSync(state.fd, buffer, 0, length, state.next);
+      this.opts.send(state.to, {
+        op: 'chunk', transferId: state.transferId, offset: state.next, data: buffer.toString('base64'),
+      });
+      state.next += length;
+    }
+  }
+
+  private onChunk(from: string, frame: FileFrame): void {
+    const state = this.incoming.get(frame.transferId);
+    // 偏移不连续（重连期间丢帧）时忽略，等发送方按 accept 的偏移重发
+    if (!state || state.from !== from || state.verifying || frame.offset !== state.received) return;
+    const data = Buffer.from(frame.data || '', 'base64');
+    if (state.received + data.length > state.size) {
+      throw new Error('数据超出声明的文件大小');
+    }
+    fs.appendFileSync(state.part, data);
+    state.received += data.length;
+    this.opts.send(from, { op: 'ack', transferId: state.transferId, offset: state.received });
+    this.emitUpdate(this.opts.store.update(state.transferId, { transferred: state.received }));
+    this.armStall(state.transferId);
+    this.maybeComplete(state);
+  }
+
+  /** 收齐后校验 sha256 并转正 */
+  private maybeComplete(state: Incoming): void {
+    if (state.received < state.size || state.verifying) return;
+    state.verifying = true;
+    hashFile(state.part).then(actual => {
+      if (actual !== state.sha256) {
+        fs.rmSync(state.part, { force: true });
+        fs.rmSync(`${state.part}.json`, { force: true });
+        this.opts.send(state.from, { op: 'error', transferId: state.transferId, error: 'sha256 校验失败' });
+        this.finish(state.transferId, 'failed', 'sha256 校验失败');
+        return;
+      }
+      fs.renameSync(state.part, state.target);
+      fs.rmSync(`${state.part}.json`, { force: true });
+      this.opts.send(state.from, { op: 'complete', transferId: state.transferId, sha256: actual });
+      this.finish(state.transferId, 'completed');
+    }).catch(err => {
+      this.opts.send(state.from, { op: 'error', transferId: state.transferId, error: err.message });
+      this.finish(state.transferId, 'failed', err.message);
+    });
+  }
+
+  // ==========================================================================
+  // 收尾
+  // ==========================================================================
+
+  private isOpen(transfer: FileTransfer): boolean {
+    return transfer.status === 'pending' || transfer.status === 'transferring';
+  }
+
+  private finish(transferId: string, status: FileTransfer['status'], error?: string): FileTransfer | null {
+    const timer = this.stallTimers.get(transferId);
+    if (timer) clearTimeout(timer);
+    this.stallTimers.delete(transferId);
+    const out = this.outgoing.get(transferId);
+    if (out) this.closeFd(out);
+    this.outgoing.delete(transferId);
+    this.incoming.delete(transferId);
+
+    const transfer = this.opts.store.get(transferId);
+    if (!transfer || !this.isOpen(transfer)) return transfer;
+    const update: Partial<FileTransfer> = { status, completedAt: Date.now() };
+    if (status === 'completed') update.transferred = transfer.size;
+    if (error) update.error = error;
+    const updated = this.opts.store.update(transferId, update)!;
+    this.opts.logger.info(`[cluster-hub] 文件传输 ${transferId} ${status}${error ? `: ${error}` : ''}`);
+    this.emitUpdate(updated);
+
+    const waiters = this.waiters.get(transferId) || [];
+    this.waiters.delete(transferId);
+    for (const done of waiters) done(updated);
+    return updated;
+  }
+
+  /** 对端长时间无响应：中止（接收方保留 .part，重新发起即可续传） */
+  private armStall(transferId: string): void {
+    const prev = this.stallTimers.get(transferId);
+    if (prev) clearTimeout(prev);
+    this.stallTimers.set(transferId, setTimeout(() => {
+      this.stallTimers.delete(transferId);
+      this.finish(transferId, 'failed', `对端 ${FILE_STALL_TIMEOUT_MS / 1000}s 无响应`);
+    }, FILE_STALL_TIMEOUT_MS));
+  }
+
+  private closeFd(state: Outgoing): void {
+    try { fs.closeSync(state.fd); } catch { /* 已关闭 */ }
+  }
+
+  private emitUpdate(transfer: FileTransfer | null): void {
+    if (transfer) this.opts.onUpdate?.(transfer);
+  }
+}
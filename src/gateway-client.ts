@@ -0,0 +1,438 @@
+/**
+ * Gateway 长连接 — 复用一条本地 WebSocket 发 RPC，并接收 Gateway 推送的事件
+ *
+ * connect 握手返回的 hello 里声明了 Gateway 会推送哪些事件；声明了 chat 事件时，
+ * 调用方可以订阅 session 的消息变化，不必定时轮询 chat.history。
+ * 请求按 id 关联响应，同时在途的请求数有上限（超出的排队）；连接断开时在途请求
+ * 重新握手后重发一次。有订阅者时断线自动重连；没有订阅、也没有进行中的请求时空闲一段时间后关闭。
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+/** 重连退避：首次间隔 / 上限 (ms) */
+export const GATEWAY_RECONNECT_MIN_MS = 1_000;
+export const GATEWAY_RECONNECT_MAX_MS = 30_000;
+/** 无订阅、无进行中请求超过该时长后关闭连接 (ms) */
+export const GATEWAY_IDLE_CLOSE_MS = 60_000;
+/** 同时在途的请求数上限（agent.wait 等长轮询也占名额） */
+export const GATEWAY_MAX_IN_FLIGHT = 32;
+/** connect 握手超时 (ms) */
+const CONNECT_TIMEOUT_MS = 10_000;
+
+export interface GatewayEndpoint {
+  url: string;
+  token?: string;
+}
+
+/** Gateway 推送的事件帧 */
+export interface GatewayEventFrame {
+  event: string;
+  payload: any;
+  seq?: number;
+}
+
+type PluginLogger = {
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+};
+
+export interface GatewayConnectionOptions {
+  /** 每次建连时读取，配置变更后重连即生效 */
+  endpoint: () => GatewayEndpoint;
+  logger: PluginLogger;
+  /** 默认 GATEWAY_MAX_IN_FLIGHT */
+  maxInFlight?: number;
+}
+
+/** 连接与请求统计（随 hub.status 返回） */
+export interface GatewayConnectionStats {
+  connected: boolean;
+  connectedAt?: number;
+  /** 握手成功次数（含重连） */
+  connects: number;
+  disconnects: number;
+  requests: number;
+  failures: number;
+  timeouts: number;
+  /** 断线后重发的请求数 */
+  retries: number;
+  inFlight: number;
+  queued: number;
+  peakInFlight: number;
+  maxInFlight: number;
+  /** 成功请求的平均耗时 */
+  avgLatencyMs: number;
+  lastError?: string;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (payload: any) => void;
+  reject: (err: Error) => void;
+  /** 断线时调用：能重发则重发，否则以错误结束 */
+  onDisconnect: (reason: string) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface SlotWaiter {
+  resolve: () => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Gateway 会给 session key 补上 agent:<id>: 前缀，比较时忽略 */
+export function sameSession(a: string, b: string): boolean {
+  const strip = (key: string) => key.replace(/^agent:[^:]+:/, '');
+  return a === b || strip(a) === strip(b);
+}
+
+/**
+ * 事件：connected（握手完成，含重连）、disconnected（握手后断开）、event（任意推送事件）
+ */
+export class GatewayConnection extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private ready = false;
+  private connecting: Promise<void> | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private sessionListeners = new Map<string, Set<(frame: GatewayEventFrame) => void>>();
+  private events = new Set<string>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = GATEWAY_RECONNECT_MIN_MS;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private inFlight = 0;
+  private waiters: SlotWaiter[] = [];
+  private metrics = {
+    connectedAt: undefined as number | undefined,
+    connects: 0,
+    disconnects: 0,
+    requests: 0,
+    failures: 0,
+    timeouts: 0,
+    retries: 0,
+    peakInFlight: 0,
+    latencyTotalMs: 0,
+    succeeded: 0,
+    lastError: undefined as string | undefined,
+  };
+
+  constructor(private opts: GatewayConnectionOptions) {
+    super();
+    this.setMaxListeners(0);
+  }
+
+  private get maxInFlight(): number {
+    return this.opts.maxInFlight || GATEWAY_MAX_IN_FLIGHT;
+  }
+
+  /** 握手已完成且连接可用 */
+  get connected(): boolean {
+    return this.ready;
+  }
+
+  stats(): GatewayConnectionStats {
+    const m = this.metrics;
+    return {
+      connected: this.ready,
+      connectedAt: this.ready ? m.connectedAt : undefined,
+      connects: m.connects,
+      disconnects: m.disconnects,
+      requests: m.requests,
+      failures: m.failures,
+      timeouts: m.timeouts,
+      retries: m.retries,
+      inFlight: this.inFlight,
+      queued: this.waiters.length,
+      peakInFlight: m.peakInFlight,
+      maxInFlight: this.maxInFlight,
+      avgLatencyMs: m.succeeded > 0 ? Math.round(m.latencyTotalMs / m.succeeded) : 0,
+      lastError: m.lastError,
+    };
+  }
+
+  /** hello 中是否声明了该事件（未连接时为 false） */
+  supportsEvent(event: string): boolean {
+    return this.ready && this.events.has(event);
+  }
+
+  /** 建立连接并完成 connect 握手；已连接时直接返回，并发调用共用同一次握手 */
+  connect(): Promise<void> {
+    if (this.ready) return Promise.resolve();
+    if (this.connecting) return this.connecting;
+    this.closed = false;
+
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const { url, token } = this.opts.endpoint();
+      const connectId = randomUUID();
+      const ws = new WebSocket(url);
+      let done = false;
+
+      const fail = (err: Error) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        try { ws.close(); } catch { }
+        reject(err);
+      };
+      const timer = setTimeout(() => fail(new Error(`Gateway 握手超时 (${CONNECT_TIMEOUT_MS}ms)`)), CONNECT_TIMEOUT_MS);
+
+      ws.onopen = () => {
+        ws.send(JSON.stringify({
+          type: 'req', id: connectId, method: 'connect',
+          params: {
+            minProtocol: 3, maxProtocol: 3,
+            client: { id: 'cli', version: '1.0.0', platform: 'node', mode: 'cli' },
+            auth: { token },
+          },
+        }));
+      };
+
+      ws.onmessage = (event: any) => {
+        let msg: any;
+        try {
+          msg = JSON.parse(typeof event.data === 'string' ? event.data : event.data.toString());
+        } catch {
+          return;
+        }
+        if (done) {
+          if (this.ws === ws) this.handleFrame(msg);
+          return;
+        }
+        if (msg.type !== 'res' || msg.id !== connectId) return;
+        if (!msg.ok) {
+          fail(new Error(`Gateway connect 失败: ${JSON.stringify(msg.payload)}`));
+          return;
+        }
+        done = true;
+        clearTimeout(timer);
+        const events = msg.payload?.features?.events;
+        this.events = new Set(Array.isArray(events) ? events : []);
+        this.ws = ws;
+        this.ready = true;
+        this.reconnectDelay = GATEWAY_RECONNECT_MIN_MS;
+        this.metrics.connects++;
+        this.metrics.connectedAt = Date.now();
+        resolve();
+        this.emit('connected');
+        this.touch();
+      };
+
+      ws.onerror = (err: any) => fail(new Error(`WebSocket 错误: ${err.message || err}`));
+      ws.onclose = () => {
+        if (!done) fail(new Error('WebSocket 连接关闭'));
+        else if (this.ws === ws) this.handleClose();
+      };
+    }).finally(() => { this.connecting = null; });
+
+    return this.connecting;
+  }
+
+  /**
+   * 在长连接上发一个 RPC 请求，未连接时先建连（握手）
+   * timeoutMs 从调用时算起，包含排队和握手时间
+   */
+  async request(method: string, params: any, timeoutMs = 30_000): Promise<any> {
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutMs;
+    this.metrics.requests++;
+    this.clearIdle();
+
+    let acquired = false;
+    try {
+      await this.acquireSlot(method, deadline);
+      acquired = true;
+      await this.connect();
+      const payload = await this.send(method, params, deadline, true);
+      this.metrics.succeeded++;
+      this.metrics.latencyTotalMs += Date.now() - startedAt;
+      return payload;
+    } catch (err: any) {
+      this.metrics.failures++;
+      this.metrics.lastError = `${method}: ${err.message}`;
+      throw err;
+    } finally {
+      if (acquired) this.releaseSlot();
+      this.touch();
+    }
+  }
+
+  private send(method: string, params: any, deadline: number, retryOnDisconnect: boolean): Promise<any> {
+    const ws = this.ws;
+    if (!ws) return Promise.reject(new Error(`Gateway 未连接: ${method}`));
+    const id = randomUUID();
+    const timeoutMs = Math.max(0, deadline - Date.now());
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.metrics.timeouts++;
+        reject(new Error(`Gateway RPC 超时 (${timeoutMs}ms): ${method}`));
+      }, timeoutMs);
+
+      // 请求可能已被 Gateway 处理但响应丢失；会产生副作用的方法（agent 等）都带幂等键，重发一次是安全的
+      const onDisconnect = (reason: string) => {
+        clearTimeout(timer);
+        if (!retryOnDisconnect || this.closed || Date.now() >= deadline) {
+          reject(new Error(`${reason}: ${method}`));
+          return;
+        }
+        this.metrics.retries++;
+        this.connect()
+          .then(() => this.send(method, params, deadline, false))
+          .then(resolve, reject);
+      };
+
+      this.pending.set(id, { method, resolve, reject, onDisconnect, timer });
+      try {
+        ws.send(JSON.stringify({ type: 'req', id, method, params }));
+      } catch (err: any) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new Error(`发送失败: ${err.message}`));
+      }
+    });
+  }
+
+  /** 占用一个在途名额；已满时排队到 deadline */
+  private acquireSlot(method: string, deadline: number): Promise<void> {
+    if (this.inFlight < this.maxInFlight) {
+      this.inFlight++;
+      this.metrics.peakInFlight = Math.max(this.metrics.peakInFlight, this.inFlight);
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: SlotWaiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          this.metrics.timeouts++;
+          reject(new Error(`Gateway RPC 排队超时（在途 ${this.inFlight}/${this.maxInFlight}）: ${method}`));
+        }, Math.max(0, deadline - Date.now())),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** 释放名额；有排队的请求时名额直接转给队首 */
+  private releaseSlot(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      clearTimeout(next.timer);
+      next.resolve();
+    } else {
+      this.inFlight--;
+    }
+  }
+
+  /** 订阅某个 session 的事件（chat / agent 等 payload 带 sessionKey 的事件），返回取消订阅函数 */
+  subscribeSession(sessionKey: string, listener: (frame: GatewayEventFrame) => void): () => void {
+    let listeners = this.sessionListeners.get(sessionKey);
+    if (!listeners) {
+      listeners = new Set();
+      this.sessionListeners.set(sessionKey, listeners);
+    }
+    listeners.add(listener);
+    this.clearIdle();
+
+    return () => {
+      const set = this.sessionListeners.get(sessionKey);
+      if (!set) return;
+      set.delete(listener);
+      if (set.size === 0) this.sessionListeners.delete(sessionKey);
+      this.touch();
+    };
+  }
+
+  /** 关闭连接并停止重连（进行中的请求以错误结束） */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.clearIdle();
+    const ws = this.ws;
+    this.ws = null;
+    this.ready = false;
+    this.rejectPending('Gateway 连接已关闭');
+    try { ws?.close(); } catch { }
+  }
+
+  private handleFrame(msg: any): void {
+    if (msg.type === 'res') {
+      const req = this.pending.get(msg.id);
+      if (!req) return;
+      this.pending.delete(msg.id);
+      clearTimeout(req.timer);
+      if (msg.ok) req.resolve(msg.payload);
+      else req.reject(new Error(msg.payload?.message || msg.payload?.error || `RPC 失败: ${req.method}`));
+      return;
+    }
+
+    if (msg.type !== 'event' || typeof msg.event !== 'string') return;
+    const frame: GatewayEventFrame = { event: msg.event, payload: msg.payload, seq: msg.seq };
+    this.emit('event', frame);
+
+    const sessionKey = msg.payload?.sessionKey;
+    if (typeof sessionKey !== 'string') return;
+    for (const [key, listeners] of this.sessionListeners) {
+      if (!sameSession(key, sessionKey)) continue;
+      for (const listener of listeners) {
+        try { listener(frame); } catch { /* 订阅方自行处理错误 */ }
+      }
+    }
+  }
+
+  private handleClose(): void {
+    this.ws = null;
+    this.ready = false;
+    this.clearIdle();
+    this.metrics.disconnects++;
+    // 先取出在途请求：重发会立即触发重连，不能和新请求混在一起
+    const inflight = [...this.pending.values()];
+    this.pending.clear();
+    for (const req of inflight) req.onDisconnect('Gateway 连接断开');
+    this.emit('disconnected');
+    if (!this.closed && this.sessionListeners.size > 0) {
+      this.opts.logger.warn(`[cluster-hub] Gateway 长连接断开，${this.reconnectDelay / 1000}s 后重连`);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.closed) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(delay * 2, GATEWAY_RECONNECT_MAX_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closed || this.ready || this.sessionListeners.size === 0) return;
+      this.connect().catch(() => this.scheduleReconnect());
+    }, delay);
+    this.reconnectTimer.unref?.();
+  }
+
+  private rejectPending(reason: string): void {
+    for (const req of this.pending.values()) {
+      clearTimeout(req.timer);
+      req.reject(new Error(`${reason}: ${req.method}`));
+    }
+    this.pending.clear();
+  }
+
+  /** 空闲（无订阅、无请求）时开始计时，到期关闭连接；下次请求或订阅时再建连 */
+  private touch(): void {
+    this.clearIdle();
+    if (!this.ready || this.inFlight > 0 || this.sessionListeners.size > 0) return;
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      const ws = this.ws;
+      this.ws = null;
+      this.ready = false;
+      try { ws?.close(); } catch { }
+    }, GATEWAY_IDLE_CLOSE_MS);
+    this.idleTimer.unref?.();
+  }
+
+  private clearIdle(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+}
@@ -1,5 +1,5 @@
 /**
- * Hub WebSocket + HTTP 客户端
+ * Hub 客户端（REST + 消息通道，底层连接由 transport.ts 提供）
  */
 
 import { randomUUID } from 'crypto';
@@ -14,7 +14,14 @@ import type {
   ResultPayload,
   PendingTask,
   InteractiveMessage,
+  ConnectionState,
+  ConnectionStateInfo,
+  HeartbeatStats,
+  NodeMetrics,
+  HubTransportKind,
 } from './types.js';
+import type { OutboxStore } from './store.js';
+import { createHubTransport, type HubTransport, type HubChannel } from './transport.js';
 
 type PluginLogger = {
   debug?: (msg: string) => void;
@@ -24,7 +31,10 @@ type PluginLogger = {
 };
 
 export class HubClient {
-  private ws: any = null; // WebSocket instance
+  private channel: HubChannel | null = null;
+  private transport: HubTransport;
+  /** 每次 connect / disconnect 递增，用于识别 open 期间已过期的连接尝试 */
+  private connectSeq = 0;
   private config: HubPluginConfig;
   private logger: PluginLogger;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
@@ -32,6 +42,25 @@ export class HubClient {
   private connected = false;
   private intentionallyClosed = false;
 
+  // 连接状态机 + 指数退避
+  private state: ConnectionState = 'closed';
+  private stateSince = Date.now();
+  private reconnectAttempts = 0;
+  private nextReconnectAt: number | null = null;
+  private lastError: string | null = null;
+  // 心跳往返追踪（heartbeat id → 发送时间）
+  private pendingPings: Map<string, number> = new Map();
+  private rttSamples: number[] = [];
+  private readonly RTT_WINDOW = 20;
+  private hubAcksHeartbeat = false;
+  private lastAckAt: number | null = null;
+  /** 最近一次从 Hub 通道收到任意帧的时间（连接存活判定） */
+  private lastInboundAt: number | null = null;
+  private deadConnections = 0;
+
+  /** Hub 以这些 close code 关闭连接时视为认证失败 */
+  private static readonly AUTH_CLOSE_CODES = new Set([1008, 4001, 4003]);
+
   // 缓存
   private nodesCache: HubNode[] = [];
   private nodesCacheTime = 0;
@@ -46,12 +75,22 @@ export class HubClient {
   // 指令交互消息（nodeId → messages）
   private nodeMessages: Map<string, InteractiveMessage[]> = new Map();
 
+  // 离线发件箱（断线期间的消息暂存，重连后按序重放）
+  private outbox: OutboxStore | null = null;
+  /** 不进入发件箱的消息类型（时效性强，重放无意义） */
+  private static readonly NON_QUEUEABLE = new Set(['heartbeat', 'subscribe']);
+
   // 事件回调
   public onTaskReceived?: (task: WSMessage) => void;
   public onNodeOnline?: (nodeId: string) => void;
   public onNodeOffline?: (nodeId: string) => void;
   public onConnected?: () => void;
   public onDisconnected?: () => void;
+  public onStateChange?: (info: ConnectionStateInfo) => void;
+  /** 心跳负载采集（由插件入口提供 TaskQueue 等运行时数据） */
+  public heartbeatProvider?: () => { activeTasks: number; metrics: NodeMetrics };
+  /** 旁路发送（局域网直连）：返回 true 表示已送出，不再经 Hub */
+  public directRoute?: (msg: WSMessage) => boolean;
 
   // 通用事件监听
   private eventListeners: Map<string, Array<(msg: WSMessage) => void>> = new Map();
@@ -79,6 +118,7 @@ export class HubClient {
   constructor(config: HubPluginConfig, logger: PluginLogger) {
     this.config = config;
     this.logger = logger;
+    this.transport = createHubTransport(this.transportKind(), () => this.config.hubUrl);
   }
 
   // ========================================================================
@@ -89,8 +129,16 @@ export class HubClient {
     return { ...this.config };
   }
 
+  /** 切换 transport 在下次连接时生效 */
   updateConfig(patch: Partial<HubPluginConfig>): void {
     Object.assign(this.config, patch);
+    if (this.transportKind() !== this.transport.kind) {
+      this.transport = createHubTransport(this.transportKind(), () => this.config.hubUrl);
+    }
+  }
+
+  private transportKind(): HubTransportKind {
+    return this.config.transport || 'websocket';
   }
 
   isRegistered(): boolean {
@@ -101,105 +149,74 @@ export class HubClient {
     return this.connected;
   }
 
+  getConnectionState(): ConnectionStateInfo {
+    return {
+      state: this.state,
+      reconnectAttempts: this.reconnectAttempts,
+      nextReconnectAt: this.nextReconnectAt,
+      lastError: this.lastError,
+      since: this.stateSince,
+    };
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateSince = Date.now();
+    if (state !== 'backoff') this.nextReconnectAt = null;
+    this.logger.debug?.(`[cluster-hub] 连接状态 → ${state}`);
+    try { this.onStateChange?.(this.getConnectionState()); } catch { /* ignore */ }
+  }
+
+  setOutbox(outbox: OutboxStore): void {
+    this.outbox = outbox;
+  }
+
   // ========================================================================
   // HTTP API
   // ========================================================================
 
   async httpGet(path: string): Promise<any> {
-    const url = `${this.config.hubUrl}${path}`;
-    const headers: Record<string, string> = {};
-    if (this.config.token) {
-      headers['Authorization'] = `Bearer ${this.config.token}`;
-    }
-    if (this.config.adminKey) {
-      headers['X-Admin-Key'] = this.config.adminKey;
-    }
-    const res = await fetch(url, { headers });
-    if (!res.ok) {
-      const body = await res.text();
-      throw new Error(`Hub HTTP ${res.status}: ${body}`);
-    }
-    return res.json();
+    return this.httpRequest('GET', path);
   }
 
   async httpPost(path: string, body: any): Promise<any> {
-    const url = `${this.config.hubUrl}${path}`;
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (this.config.adminKey) {
-      headers['X-Admin-Key'] = this.config.adminKey;
-    }
-    if (this.config.token) {
-      headers['Authorization'] = `Bearer ${this.config.token}`;
-    }
-    const res = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    });
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Hub HTTP ${res.status}: ${text}`);
-    }
-    return res.json();
+    return this.httpRequest('POST', path, body);
   }
 
   async httpPatch(path: string, body: any): Promise<any> {
-    const url = `${this.config.hubUrl}${path}`;
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (this.config.token) {
-      headers['Authorization'] = `Bearer ${this.config.token}`;
-    }
-    if (this.config.adminKey) {
-      headers['X-Admin-Key'] = this.config.adminKey;
-    }
-    const res = await fetch(url, {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify(body),
-    });
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Hub HTTP ${res.status}: ${text}`);
-    }
-    return res.json();
+    return this.httpRequest('PATCH', path, body);
   }
 
   async httpPut(path: string, body: any): Promise<any> {
-    const url = `${this.config.hubUrl}${path}`;
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (this.config.token) {
-      headers['Authorization'] = `Bearer ${this.config.token}`;
-    }
-    if (this.config.adminKey) {
-      headers['X-Admin-Key'] = this.config.adminKey;
-    }
-    const res = await fetch(url, {
-      method: 'PUT',
-      headers,
-      body: JSON.stringify(body),
-    });
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Hub HTTP ${res.status}: ${text}`);
-    }
-    return res.json();
+    return this.httpRequest('PUT', path, body);
   }
 
   private async httpDelete(path: string): Promise<any> {
-    const url = `${this.config.hubUrl}${path}`;
+    return this.httpRequest('DELETE', path);
+  }
+
+  private async httpRequest(method: string, path: string, body?: any): Promise<any> {
     const headers: Record<string, string> = {};
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
     if (this.config.token) {
       headers['Authorization'] = `Bearer ${this.config.token}`;
     }
     if (this.config.adminKey) {
       headers['X-Admin-Key'] = this.config.adminKey;
     }
-    const res = await fetch(url, { method: 'DELETE', headers });
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Hub HTTP ${res.status}: ${text}`);
+    const res = await this.transport.request({
+      method,
+      path,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (res.status < 200 || res.status >= 300) {
+      throw new Error(`Hub HTTP ${res.status}: ${res.text}`);
     }
-    return res.json();
+    return JSON.parse(res.text);
   }
 
   // ========================================================================
@@ -324,93 +341,183 @@ export class HubClient {
   }
 
   // ========================================================================
-  // WebSocket 连接
+  // 消息通道
   // ========================================================================
 
   async connect(): Promise<void> {
     if (!this.config.token) {
-      this.logger.warn('[cluster-hub] 无 Token，无法连接 WebSocket');
+      this.logger.warn('[cluster-hub] 无 Token，无法连接 Hub');
       return;
     }
     if (this.connected) {
       this.logger.debug?.('[cluster-hub] 已连接，跳过');
       return;
     }
+    if (this.state === 'connecting') {
+      this.logger.debug?.('[cluster-hub] 正在连接，跳过');
+      return;
+    }
 
     this.intentionallyClosed = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.setState('connecting');
 
-    const wsUrl = this.config.hubUrl
-      .replace(/^https:/, 'wss:')
-      .replace(/^http:/, 'ws:')
-      + `/ws?token=${encodeURIComponent(this.config.token)}`;
-
-    this.logger.info(`[cluster-hub] 连接 WebSocket: ${this.config.hubUrl}`);
+    const transport = this.transport;
+    const seq = ++this.connectSeq;
+    this.logger.info(`[cluster-hub] 连接 Hub (${transport.kind}): ${this.config.hubUrl}`);
 
+    let channel: HubChannel | null = null;
+    let opened = false;
     try {
-      // 使用原生 WebSocket（Node.js 22+ 内置）
-      const WebSocketImpl = typeof WebSocket !== 'undefined'
-        ? WebSocket
-        : (await import('ws')).default;
-
-      this.ws = new WebSocketImpl(wsUrl);
-
-      this.ws.onopen = () => {
-        this.connected = true;
-        this.logger.info('[cluster-hub] WebSocket 已连接');
-        this.startHeartbeat();
-        this.onConnected?.();
-      };
-
-      this.ws.onmessage = (event: any) => {
-        try {
-          const data = typeof event.data === 'string' ? event.data : event.data.toString();
-          const msg: WSMessage = JSON.parse(data);
-          this.handleMessage(msg);
-        } catch (err: any) {
-          this.logger.error(`[cluster-hub] 解析消息失败: ${err.message}`);
-        }
-      };
+      channel = await transport.open(this.config.token, {
+        onOpen: () => {
+          if (this.channel !== channel) { try { channel?.close(); } catch { } return; }
+          opened = true;
+          this.connected = true;
+          this.lastInboundAt = Date.now();
+          this.lastError = null;
+          this.setState('open');
+          this.logger.info(`[cluster-hub] Hub 已连接 (${transport.kind})`);
+          this.startHeartbeat();
+          this.flushOutbox();
+          this.onConnected?.();
+        },
 
-      this.ws.onclose = () => {
-        this.connected = false;
-        this.stopHeartbeat();
-        this.logger.info('[cluster-hub] WebSocket 断开');
-        this.onDisconnected?.();
+        onMessage: (data) => {
+          if (this.channel === channel) this.lastInboundAt = Date.now();
+          try {
+            const msg: WSMessage = JSON.parse(data);
+            this.handleMessage(msg);
+          } catch (err: any) {
+            this.logger.error(`[cluster-hub] 解析消息失败: ${err.message}`);
+          }
+        },
 
-        if (!this.intentionallyClosed) {
+        onClose: (code, reason) => {
+          // 已被新连接替换的旧通道，忽略
+          if (this.channel !== channel) return;
+          this.channel = null;
+          const wasConnected = this.connected;
+          this.connected = false;
+          this.stopHeartbeat();
+          this.logger.info(`[cluster-hub] Hub 连接断开${code ? ` (code=${code})` : ''}`);
+          if (wasConnected) this.onDisconnected?.();
+
+          if (this.intentionallyClosed) {
+            this.setState('closed');
+            return;
+          }
+          if (code && HubClient.AUTH_CLOSE_CODES.has(code)) {
+            this.handleAuthFailed(`Hub 关闭连接 code=${code}${reason ? ` ${reason}` : ''}`);
+            return;
+          }
+          if (!opened) {
+            // 握手阶段失败：通道拿不到 HTTP 状态码，用 REST 探测 token 是否被拒
+            this.probeAuth().then(status => {
+              if (this.intentionallyClosed || this.channel) return;
+              if (status === 401 || status === 403) {
+                this.handleAuthFailed(`Hub HTTP ${status}`);
+              } else {
+                this.scheduleReconnect();
+              }
+            });
+            return;
+          }
           this.scheduleReconnect();
-        }
-      };
+        },
 
-      this.ws.onerror = (err: any) => {
-        this.logger.error(`[cluster-hub] WebSocket 错误: ${err.message || err}`);
-      };
+        onError: (err) => {
+          this.lastError = err.message;
+          this.logger.error(`[cluster-hub] Hub 连接错误: ${err.message}`);
+        },
+
+        // 通道已关闭：没送达的消息按原顺序进发件箱，重连后重放
+        onUndelivered: (data) => {
+          this.logger.warn(`[cluster-hub] ${data.length} 条消息未送达 Hub，重新排队`);
+          for (const raw of data) {
+            try {
+              this.sendWS(JSON.parse(raw));
+            } catch { /* 无法解析的原始数据直接丢弃 */ }
+          }
+        },
+      });
+      // open 期间被 disconnect() 或新一轮 connect 取代
+      if (seq !== this.connectSeq) {
+        channel.close();
+        return;
+      }
+      this.channel = channel;
     } catch (err: any) {
+      this.lastError = err.message;
       this.logger.error(`[cluster-hub] 连接失败: ${err.message}`);
       this.scheduleReconnect();
     }
   }
 
+  /** 用当前 token 请求 Hub，返回 HTTP 状态码（网络不可达时返回 null） */
+  private async probeAuth(): Promise<number | null> {
+    if (!this.config.nodeId || !this.config.token) return null;
+    try {
+      const res = await this.transport.request({
+        method: 'GET',
+        path: `/api/nodes/${this.config.nodeId}`,
+        headers: { Authorization: `Bearer ${this.config.token}` },
+      });
+      return res.status;
+    } catch {
+      return null;
+    }
+  }
+
+  private handleAuthFailed(reason: string): void {
+    this.lastError = reason;
+    this.logger.error(`[cluster-hub] Hub 认证失败，停止重连: ${reason}。请重新注册或更新 token 后执行 openclaw hub connect`);
+    this.setState('auth_failed');
+  }
+
   disconnect(): void {
     this.intentionallyClosed = true;
+    this.connectSeq++;
     this.stopHeartbeat();
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if (this.channel) {
+      const channel = this.channel;
+      this.channel = null;
+      channel.close();
     }
+    const wasConnected = this.connected;
     this.connected = false;
+    this.reconnectAttempts = 0;
+    if (wasConnected) this.onDisconnected?.();
+    this.setState('closed');
   }
 
+  /**
+   * 指数退避 + 全抖动（full jitter）：
+   * delay = random(0, min(reconnectMaxDelayMs, reconnectIntervalMs × factor^attempts))
+   * 避免 Hub 重启后所有节点同时重连
+   */
   private scheduleReconnect(): void {
     if (this.intentionallyClosed) return;
     if (this.reconnectTimer) return;
 
-    const ms = this.config.reconnectIntervalMs;
-    this.logger.info(`[cluster-hub] ${ms}ms 后重连...`);
+    const base = Math.max(100, this.config.reconnectIntervalMs);
+    const factor = Math.max(1, this.config.reconnectBackoffFactor || 2);
+    const cap = Math.min(
+      this.config.reconnectMaxDelayMs || base,
+      base * Math.pow(factor, this.reconnectAttempts),
+    );
+    const ms = Math.round(Math.random() * cap);
+    this.reconnectAttempts++;
+    this.nextReconnectAt = Date.now() + ms;
+    this.setState('backoff');
+    this.logger.info(`[cluster-hub] ${ms}ms 后重连 (第 ${this.reconnectAttempts} 次)...`);
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
       this.connect();
@@ -424,6 +531,13 @@ export class HubClient {
   private startHeartbeat(): void {
     this.stopHeartbeat();
     this.heartbeatTimer = setInterval(() => {
+      if (this.isConnectionDead()) {
+        const silentMs = Date.now() - (this.lastInboundAt ?? 0);
+        this.forceReconnect(`${Math.round(silentMs / 1000)}s 未收到 Hub 任何消息`);
+        return;
+      }
+      // 连接稳定保持一个心跳周期后才清零退避计数，握手后立即断开的 Hub 不会被高频重连
+      this.reconnectAttempts = 0;
       this.sendHeartbeat();
     }, this.config.heartbeatIntervalMs);
   }
@@ -433,16 +547,51 @@ export class HubClient {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+    this.pendingPings.clear();
+  }
+
+  /** 任何入站帧（心跳回应、推送、任务消息）都算存活；连续 heartbeatMaxMissed 个心跳周期没有入站帧即判定失效 */
+  private isConnectionDead(): boolean {
+    const maxMissed = Math.max(1, this.config.heartbeatMaxMissed || 3);
+    if (this.lastInboundAt === null) return false;
+    return Date.now() - this.lastInboundAt >= maxMissed * this.config.heartbeatIntervalMs;
+  }
+
+  /** 半开连接：不等 close 事件，直接丢弃通道并进入退避重连 */
+  private forceReconnect(reason: string): void {
+    const channel = this.channel;
+    if (!channel) return;
+    this.logger.warn(`[cluster-hub] 连接已失效 (${reason})，强制重连`);
+    this.deadConnections++;
+    this.lastError = reason;
+    this.channel = null;
+    this.connected = false;
+    this.stopHeartbeat();
+    try { channel.terminate(); } catch { /* ignore */ }
+    this.onDisconnected?.();
+    this.scheduleReconnect();
   }
 
   private sendHeartbeat(): void {
+    const id = randomUUID();
+    const sentAt = Date.now();
+    this.pendingPings.set(id, sentAt);
+
+    let payload: any = { load: 0, activeTasks: this.pendingTasks.size };
+    if (this.heartbeatProvider) {
+      try {
+        const { activeTasks, metrics } = this.heartbeatProvider();
+        payload = { load: metrics.cpuLoad, activeTasks, metrics };
+      } catch (err: any) {
+        this.logger.warn(`[cluster-hub] 采集心跳指标失败: ${err.message}`);
+      }
+    }
+
     this.sendWS({
       type: 'heartbeat',
-      id: randomUUID(),
-      payload: {
-        load: 0, // TODO: 获取实际负载
-        activeTasks: this.pendingTasks.size,
-      },
+      id,
+      timestamp: sentAt,
+      payload,
     });
   }
 
@@ -450,18 +599,65 @@ export class HubClient {
   // 消息收发
   // ========================================================================
 
-  sendWS(msg: WSMessage): void {
-    if (!this.ws || !this.connected) {
-      this.logger.warn('[cluster-hub] WebSocket 未连接，无法发送');
-      return;
+  /**
+   * 发送消息（与目标有局域网直连时优先直连）。未连接或发送失败时进入离线发件箱，返回 false
+   * @param opts.ttlMs 发件箱中的存活时间，默认 outboxTtlMs
+   * @param opts.queue 为 false 时断线直接丢弃（进度等时效性消息，避免挤占发件箱）
+   */
+  sendWS(msg: WSMessage, opts?: { ttlMs?: number; queue?: boolean }): boolean {
+    if (msg.to && this.directRoute?.(msg)) return true;
+    if (!this.channel || !this.connected) {
+      if (opts?.queue !== false) this.enqueueOutbox(msg, opts?.ttlMs);
+      return false;
     }
     try {
-      this.ws.send(JSON.stringify(msg));
+      this.channel.send(JSON.stringify(msg));
+      return true;
     } catch (err: any) {
       this.logger.error(`[cluster-hub] 发送失败: ${err.message}`);
+      if (opts?.queue !== false) this.enqueueOutbox(msg, opts?.ttlMs);
+      return false;
+    }
+  }
+
+  private enqueueOutbox(msg: WSMessage, ttlMs?: number): void {
+    if (!this.outbox || HubClient.NON_QUEUEABLE.has(msg.type)) {
+      this.logger.warn('[cluster-hub] Hub 未连接，无法发送');
+      return;
+    }
+    const { dropped } = this.outbox.enqueue(msg, ttlMs ?? this.config.outboxTtlMs);
+    this.logger.info(`[cluster-hub] Hub 未连接，消息进入发件箱: ${msg.type} ${msg.id} (待发 ${this.outbox.size})`);
+    if (dropped.length > 0) {
+      this.logger.warn(`[cluster-hub] 发件箱已满，丢弃最旧的 ${dropped.length} 条消息`);
+    }
+  }
+
+  /** 连接建立后按入队顺序重放发件箱，中途失败的剩余条目放回队首 */
+  private flushOutbox(): void {
+    if (!this.outbox) return;
+    const entries = this.outbox.drain();
+    if (entries.length === 0) return;
+    this.logger.info(`[cluster-hub] 重放发件箱 ${entries.length} 条消息`);
+    for (let i = 0; i < entries.length; i++) {
+      if (!this.channel || !this.connected) {
+        this.outbox.requeue(entries.slice(i));
+        return;
+      }
+      try {
+        this.channel.send(JSON.stringify(entries[i].message));
+      } catch (err: any) {
+        this.logger.error(`[cluster-hub] 发件箱重放失败: ${err.message}`);
+        this.outbox.requeue(entries.slice(i));
+        return;
+      }
     }
   }
 
+  /** 旁路（局域网直连）收到的消息，与 Hub 转来的消息走同样的处理 */
+  deliverLocal(msg: WSMessage): void {
+    this.handleMessage(msg);
+  }
+
   private handleMessage(msg: WSMessage): void {
     switch (msg.type) {
       case 'task':
@@ -479,6 +675,15 @@ export class HubClient {
       case 'task_cancel':
         this.emit('task_cancel', msg);
         break;
+      case 'task_sync':
+        this.emit('task_sync', msg);
+        break;
+      case 'task_artifact':
+        this.emit('task_artifact', msg);
+        break;
+      case 'file':
+        this.emit('file', msg);
+        break;
       case 'chat':
         this.emit('chat', msg);
         break;
@@ -489,13 +694,46 @@ export class HubClient {
         this.handleBroadcast(msg);
         break;
       case 'heartbeat':
-        // 心跳确认，忽略
+        this.handleHeartbeatAck(msg);
         break;
       default:
         this.logger.debug?.(`[cluster-hub] 未知消息类型: ${msg.type}`);
     }
   }
 
+  /** 心跳回应：按 id（或 payload.replyTo）匹配发送时间，计算往返时延 */
+  private handleHeartbeatAck(msg: WSMessage): void {
+    const ackId = msg.payload?.replyTo || msg.payload?.ackId || msg.id;
+    const sentAt = this.pendingPings.get(ackId);
+    if (sentAt === undefined) return;
+
+    const now = Date.now();
+    const rtt = now - sentAt;
+    // 收到回应说明更早的心跳只是丢失/延迟，一并清除
+    for (const [id, ts] of this.pendingPings) {
+      if (ts <= sentAt) this.pendingPings.delete(id);
+    }
+    this.hubAcksHeartbeat = true;
+    this.lastAckAt = now;
+    this.rttSamples.push(rtt);
+    if (this.rttSamples.length > this.RTT_WINDOW) this.rttSamples.shift();
+  }
+
+  getHeartbeatStats(): HeartbeatStats {
+    const samples = this.rttSamples;
+    return {
+      acknowledged: this.hubAcksHeartbeat,
+      lastRttMs: samples.length > 0 ? samples[samples.length - 1] : null,
+      avgRttMs: samples.length > 0 ? Math.round(samples.reduce((a, b) => a + b, 0) / samples.length) : null,
+      minRttMs: samples.length > 0 ? Math.min(...samples) : null,
+      maxRttMs: samples.length > 0 ? Math.max(...samples) : null,
+      lastAckAt: this.lastAckAt,
+      lastMessageAt: this.lastInboundAt,
+      missed: this.pendingPings.size,
+      deadConnections: this.deadConnections,
+    };
+  }
+
   private handleIncomingTask(msg: WSMessage): void {
     this.logger.info(`[cluster-hub] 收到任务: ${msg.id} from ${msg.from}`);
     this.onTaskReceived?.(msg);
@@ -551,6 +789,8 @@ export class HubClient {
       if (msg.payload?.config && this.onSharedConfig) {
         this.onSharedConfig(msg.payload.config);
       }
+    } else {
+      this.emit('direct', msg);
     }
   }
 
@@ -739,6 +979,10 @@ export class HubClient {
     parentId: string | null;
     pendingTasks: number;
     cachedNodes: number;
+    outbox: number;
+    transport: HubTransportKind;
+    connection: ConnectionStateInfo;
+    heartbeat: HeartbeatStats;
   } {
     return {
       registered: this.isRegistered(),
@@ -748,6 +992,10 @@ export class HubClient {
       parentId: this.config.parentId ?? null,
       pendingTasks: this.pendingTasks.size,
       cachedNodes: this.nodesCache.length,
+      outbox: this.outbox?.size ?? 0,
+      transport: this.transport.kind,
+      connection: this.getConnectionState(),
+      heartbeat: this.getHeartbeatStats(),
     };
   }
 }
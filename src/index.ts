@@ -16,11 +16,24 @@ import { randomUUID } from 'crypto';
 import path from 'path';
 import fs from 'fs';
 import { HubClient } from './hub-client.js';
-import { TaskStore, ReceivedTaskStore, ChatStore, NodeEventStore } from './store.js';
+import { TaskStore, ReceivedTaskStore, ChatStore, NodeEventStore, OutboxStore, TaskQueueStore, FileTransferStore, WorkflowStore, ScheduleStore, isFinalTaskStatus } from './store.js';
 import { setCredentials, setOwner, registerFeishuTools, hasCredentials } from './feishu-tools.js';
+import { collectSystemMetrics } from './metrics.js';
+import { isTargetSelector, selectNode, describeSelector, selectMapNodes, describeMapSelector } from './routing.js';
+import { ArtifactStore, packFiles, listFiles, isTextMime } from './artifacts.js';
+import { FileTransferManager } from './file-transfer.js';
+import { WorkflowRunner } from './workflow.js';
+import { Scheduler, parseAt, type ScheduleInput } from './scheduler.js';
+import { GatewayConnection, type GatewayEndpoint } from './gateway-client.js';
+import { DevHub, DEV_HUB_DEFAULT_PORT } from './dev-hub.js';
+import { LanPeering } from './lan.js';
 import type {
   HubPluginConfig, DEFAULT_CONFIG, ResultPayload, WSMessage,
   QueuedTask, ChatConfig, StoredTask, StoredChatMessage, StoredNodeEvent,
+  ConnectionStateInfo, HeartbeatStats, HubNode, NodeMetrics, TargetSelector, SendTaskOptions, TaskPayload, TaskPriority,
+  RetryPolicy, RetryTrigger, TaskSyncEntry, TaskSyncPayload, TaskProgress,
+  TaskArtifact, ArtifactChunkPayload, StoredArtifact, FileTransfer, WorkflowRun,
+  MapSelector, MapResult, Schedule, OutboxEntry,
 } from './types.js';
 
 // ============================================================================
@@ -33,13 +46,37 @@ let taskStore: TaskStore;
 let receivedTaskStore: ReceivedTaskStore;
 let chatStore: ChatStore;
 let nodeEventStore: NodeEventStore;
+let outboxStore: OutboxStore;
+/** 父节点：子节点交回的输出产物 */
+let artifactStore: ArtifactStore;
+/** 子节点：父节点下发的输入附件 */
+let inputStore: ArtifactStore;
+let fileTransferStore: FileTransferStore;
+let fileTransfers: FileTransferManager;
+let workflowStore: WorkflowStore;
+let workflowRunner: WorkflowRunner;
+let scheduleStore: ScheduleStore;
+let scheduler: Scheduler;
+let taskQueueStore: TaskQueueStore;
 let taskQueue: TaskQueue;
+/** Gateway 长连接（RPC 复用 + 事件订阅），首次使用时创建 */
+let gatewayConn: GatewayConnection | null = null;
+/** 后台服务运行中（Gateway 进程内）才复用长连接；CLI 进程每次调用单独建连、用完即关 */
+let gatewayPooled = false;
+/** 局域网直连（lanEnabled 时在后台服务中启动） */
+let lan: LanPeering | null = null;
+/** 内置 Hub（hubServerEnabled 时在后台服务中启动） */
+let hubServer: DevHub | null = null;
 
 /** 捕获的 Gateway broadcast 引用 — 用于推送事件给控制台 */
 let gatewayBroadcast: ((event: string, payload: unknown, opts?: { dropIfSlow?: boolean }) => void) | null = null;
 
+/** OpenClaw 配置目录（openclaw.json 所在） */
+const OPENCLAW_DIR = path.join(process.env.HOME || '/tmp', '.openclaw');
 /** 数据目录 */
-const DATA_DIR = path.join(process.env.HOME || '/tmp', '.openclaw', 'hub-data');
+const DATA_DIR = path.join(OPENCLAW_DIR, 'hub-data');
+/** agent 写入待交付文件的目录，任务结束后打包为产物 */
+const TASK_OUTPUT_DIR = path.join(DATA_DIR, 'task-output');
 
 // ============================================================================
 // 广播辅助
@@ -57,11 +94,28 @@ function broadcast(event: string, payload: unknown): void {
 // Gateway RPC 调用（本地 WebSocket）
 // ============================================================================
 
-async function gatewayRpc(method: string, params: any, timeoutMs = 30_000): Promise<any> {
+function gatewayEndpoint(): GatewayEndpoint {
   const config = pluginApi.runtime.config.loadConfig();
   const port = config?.gateway?.port || 18789;
-  const token = config?.gateway?.auth?.token;
-  const wsUrl = `ws://127.0.0.1:${port}`;
+  return { url: `ws://127.0.0.1:${port}`, token: config?.gateway?.auth?.token };
+}
+
+function getGatewayConnection(): GatewayConnection {
+  if (!gatewayConn) gatewayConn = new GatewayConnection({ endpoint: gatewayEndpoint, logger: pluginApi.logger });
+  return gatewayConn;
+}
+
+/** 请求发出前就失败（Gateway 未运行 / 握手被拒），调用方可以改在本进程处理 */
+class GatewayUnreachableError extends Error { }
+
+async function gatewayRpc(method: string, params: any, timeoutMs = 30_000): Promise<any> {
+  if (gatewayPooled) return getGatewayConnection().request(method, params, timeoutMs);
+  return gatewayRpcOnce(method, params, timeoutMs);
+}
+
+/** 单次调用：新建 WebSocket → connect 握手 → 一个请求 → 关闭 */
+async function gatewayRpcOnce(method: string, params: any, timeoutMs: number): Promise<any> {
+  const { url: wsUrl, token } = gatewayEndpoint();
   const connectId = randomUUID();
   const requestId = randomUUID();
 
@@ -82,7 +136,7 @@ async function gatewayRpc(method: string, params: any, timeoutMs = 30_000): Prom
       if (settled) return;
       settled = true;
       clearTimeout(timer);
-      if (err) reject(err);
+      if (err) reject(connected ? err : new GatewayUnreachableError(err.message));
       else resolve(result);
       try { ws.close(); } catch { }
     };
@@ -123,6 +177,120 @@ async function gatewayRpc(method: string, params: any, timeoutMs = 30_000): Prom
   });
 }
 
+// ============================================================================
+// Session 消息跟踪（事件订阅，不支持时退回轮询）
+// ============================================================================
+
+/** 事件触发拉取的最小间隔：流式输出时事件很密，合并成一次 chat.history */
+const SESSION_PULL_THROTTLE_MS = 1_000;
+/** 每次拉取的历史条数：需覆盖两次拉取（或断线期间）之间的全部新消息 */
+const SESSION_HISTORY_LIMIT = 200;
+/** Gateway 不支持事件订阅的提示只打一次 */
+let sessionEventsUnsupportedLogged = false;
+
+interface SessionWatch {
+  stop: () => void;
+  /** 已交给回调的最新消息 timestamp */
+  lastTs: () => number;
+}
+
+/**
+ * 跟踪 session 新增消息（按 timestamp 增量），新消息交给 onMessages
+ * Gateway 在握手中声明支持 chat 事件时订阅该 session 的事件，有变化才拉取；
+ * 不支持订阅、握手完成前或长连接断开期间，按 pollMs 轮询 chat.history
+ */
+function watchSession(
+  sessionKey: string,
+  sinceTs: number,
+  pollMs: number,
+  onMessages: (messages: any[]) => void,
+): SessionWatch {
+  const conn = getGatewayConnection();
+  let lastTs = sinceTs;
+  let stopped = false;
+  let pulling = false;
+  let pullAgain = false;
+  let lastPullAt = 0;
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const pull = async () => {
+    if (stopped) return;
+    if (pulling) { pullAgain = true; return; }
+    pulling = true;
+    try {
+      do {
+        pullAgain = false;
+        lastPullAt = Date.now();
+        const h = await gatewayRpc('chat.history', { sessionKey, limit: SESSION_HISTORY_LIMIT }, 10_000);
+        const fresh = (h?.messages || []).filter((m: any) => m.timestamp && m.timestamp > lastTs);
+        if (fresh.length > 0 && !stopped) {
+          lastTs = fresh[fresh.length - 1].timestamp;
+          onMessages(fresh);
+        }
+      } while (pullAgain && !stopped);
+    } catch { /* 下次事件或轮询再试 */ }
+    pulling = false;
+  };
+
+  const schedulePull = () => {
+    if (throttleTimer || stopped) return;
+    const delay = Math.max(0, lastPullAt + SESSION_PULL_THROTTLE_MS - Date.now());
+    throttleTimer = setTimeout(() => { throttleTimer = null; pull(); }, delay);
+  };
+  const startPolling = () => {
+    if (!pollTimer && !stopped) pollTimer = setInterval(pull, pollMs);
+  };
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+  // 重连后补拉断线期间的消息，之后回到事件驱动
+  const onConnected = () => {
+    if (!conn.supportsEvent('chat')) return;
+    stopPolling();
+    schedulePull();
+  };
+  const detach = () => {
+    unsubscribe?.();
+    unsubscribe = null;
+    conn.off('connected', onConnected);
+    conn.off('disconnected', startPolling);
+  };
+
+  startPolling();
+  unsubscribe = conn.subscribeSession(sessionKey, schedulePull);
+  conn.on('connected', onConnected);
+  conn.on('disconnected', startPolling);
+  conn.connect().then(() => {
+    if (stopped) return;
+    if (conn.supportsEvent('chat')) {
+      onConnected();
+      return;
+    }
+    if (!sessionEventsUnsupportedLogged) {
+      sessionEventsUnsupportedLogged = true;
+      pluginApi.logger.info('[cluster-hub] Gateway 未声明 chat 事件，session 消息改用轮询');
+    }
+    detach();
+  }, (err: Error) => {
+    pluginApi.logger.warn(`[cluster-hub] Gateway 长连接建立失败，session 消息改用轮询: ${err.message}`);
+    detach();
+  });
+
+  return {
+    stop: () => {
+      stopped = true;
+      stopPolling();
+      if (throttleTimer) clearTimeout(throttleTimer);
+      throttleTimer = null;
+      detach();
+    },
+    lastTs: () => lastTs,
+  };
+}
+
 // ============================================================================
 // 本地任务执行（异步 fire-and-forget 模式）
 // ============================================================================
@@ -145,14 +313,31 @@ async function dispatchTaskToAgent(instruction: string): Promise<{ runId: string
   return { runId: agentResult?.runId || idempotencyKey, sessionKey };
 }
 
-/** 后台等待 agent 完成，收集结果，清理 session（空闲超时） */
-async function waitAndCollectResult(runId: string, sessionKey: string, timeoutMs?: number): Promise<ResultPayload> {
+/** 进度轮询间隔：Gateway 不支持事件订阅时，执行中每隔该时长拉取一次新增消息 */
+const TASK_PROGRESS_INTERVAL_MS = 3_000;
+
+/**
+ * 后台等待 agent 完成，收集结果，清理 session（空闲超时）
+ * 传入 onProgress 时经 watchSession 跟踪新增消息并交给回调
+ */
+async function waitAndCollectResult(
+  runId: string,
+  sessionKey: string,
+  timeoutMs?: number,
+  onProgress?: (messages: any[]) => void,
+): Promise<ResultPayload> {
   const idleTimeout = timeoutMs || client.getConfig().taskTimeoutMs || 300_000;
+  let lastActivity = Date.now();
+  const progressWatch = onProgress
+    ? watchSession(sessionKey, 0, TASK_PROGRESS_INTERVAL_MS, (fresh) => {
+      lastActivity = Date.now();
+      onProgress(fresh);
+    })
+    : null;
 
   try {
     // 等待 agent 完成：30s 轮询 + 空闲超时（用 timestamp 追踪活跃度）
     const POLL_MS = 30_000;
-    let lastActivity = Date.now();
     let lastTs = 0; // 最新消息的 timestamp
     while (true) {
       const waitResult = await gatewayRpc('agent.wait', { runId, timeoutMs: POLL_MS }, POLL_MS + 5_000);
@@ -192,19 +377,41 @@ async function waitAndCollectResult(runId: string, sessionKey: string, timeoutMs
   } catch (err: any) {
     gatewayRpc('sessions.delete', { key: sessionKey }, 5_000).catch(() => { });
     return { success: false, error: err.message };
+  } finally {
+    progressWatch?.stop();
+  }
+}
+
+/** 中止 agent 运行（取消任务）；中止后 agent.wait 返回，由等待方收尾 */
+async function abortAgentRun(sessionKey: string, runId?: string): Promise<void> {
+  try {
+    await gatewayRpc('chat.abort', { sessionKey, runId }, 10_000);
+  } catch (err: any) {
+    pluginApi.logger.warn(`[cluster-hub] 中止 agent 失败 (${sessionKey}): ${err.message}`);
   }
 }
 
 /** 同步模式（兼容 sendTaskAndTrack 等需要 Promise<ResultPayload> 的调用方） */
-async function executeTaskLocally(instruction: string, timeoutMs?: number): Promise<ResultPayload> {
+async function executeTaskLocally(
+  instruction: string,
+  timeoutMs?: number,
+  onProgress?: (messages: any[]) => void,
+): Promise<ResultPayload> {
   const { runId, sessionKey } = await dispatchTaskToAgent(instruction);
-  return waitAndCollectResult(runId, sessionKey, timeoutMs);
+  return waitAndCollectResult(runId, sessionKey, timeoutMs, onProgress);
 }
 
 // ============================================================================
 // TaskQueue — 子节点任务队列（收到父节点下发的任务）
 // ============================================================================
 
+const PRIORITY_WEIGHT: Record<TaskPriority, number> = { high: 2, normal: 1, low: 0 };
+
+/** 参数中的优先级，非法值返回 undefined */
+function parsePriority(v: unknown): TaskPriority | undefined {
+  return v === 'high' || v === 'normal' || v === 'low' ? v : undefined;
+}
+
 class TaskQueue {
   private maxConcurrent = 3;
   private queue: QueuedTask[] = [];
@@ -214,6 +421,8 @@ class TaskQueue {
   private inflight: Map<string, QueuedTask> = new Map();
   private completed: QueuedTask[] = [];
 
+  constructor(private store: TaskQueueStore) { }
+
   setMaxConcurrent(n: number) {
     this.maxConcurrent = Math.max(1, Math.min(n, 10));
   }
@@ -223,7 +432,7 @@ class TaskQueue {
     return this.dispatching.size;
   }
 
-  enqueue(taskId: string, fromNodeId: string, instruction: string, priority: 'high' | 'normal' | 'low' = 'normal'): void {
+  enqueue(taskId: string, fromNodeId: string, instruction: string, priority: TaskPriority = 'normal'): void {
     const task: QueuedTask = {
       taskId, fromNodeId, instruction, priority,
       receivedAt: Date.now(),
@@ -234,20 +443,101 @@ class TaskQueue {
       this.startTask(task);
     } else {
       this.queue.push(task);
-      pluginApi.logger.info(`[cluster-hub] 任务入队 ${taskId}, 位置=${this.queue.length}`);
+      this.sortQueue();
+      this.persist();
+      task.position = this.queue.indexOf(task) + 1;
+      pluginApi.logger.info(`[cluster-hub] 任务入队 ${taskId} (${priority}), 位置=${task.position}/${this.queue.length}`);
       client.sendWS({
         type: 'task_ack' as any,
         id: taskId,
         to: fromNodeId,
-        payload: { status: 'queued', position: this.queue.length },
+        payload: { status: 'queued', position: task.position, priority },
+      });
+      // 插队后排在后面的任务位置变化，同步给各自的父节点
+      this.reportPositions();
+    }
+  }
+
+  /**
+   * 有效优先级 = 基础权重 + 等待时长 / taskPriorityAgingMs
+   * 每等待一个 aging 周期提升一级，低优先级任务最终会超过新来的高优先级任务
+   */
+  private score(task: QueuedTask, now: number): number {
+    const agingMs = Math.max(1000, client.getConfig().taskPriorityAgingMs || 60_000);
+    return PRIORITY_WEIGHT[task.priority] + (now - task.receivedAt) / agingMs;
+  }
+
+  /** 按有效优先级降序排列，同分先到先得 */
+  private sortQueue(): void {
+    const now = Date.now();
+    this.queue.sort((a, b) => (this.score(b, now) - this.score(a, now)) || (a.receivedAt - b.receivedAt));
+  }
+
+  /** 向父节点上报排队位置变化（只发变化了的） */
+  private reportPositions(): void {
+    this.queue.forEach((task, i) => {
+      const position = i + 1;
+      if (task.position === position) return;
+      task.position = position;
+      client.sendWS({
+        type: 'task_status' as any,
+        id: task.taskId,
+        to: task.fromNodeId,
+        payload: { status: 'queued', position },
       });
+    });
+  }
+
+  /** 排队 + 执行中的任务写入快照，重启后由 restore() 恢复 */
+  private persist(): void {
+    this.store.replace([...this.queue, ...this.dispatching.values(), ...this.inflight.values()]);
+  }
+
+  /**
+   * 重启后恢复队列：排队中的任务重新入队；已派发给 agent 的任务按 runId/sessionKey
+   * 重新等待结果；派发未确认的任务重新排队执行。恢复后向父节点上报最新状态
+   */
+  restore(): void {
+    const snapshot = this.store.snapshot();
+    let queued = 0;
+    let reattached = 0;
+    for (const task of snapshot) {
+      const received = receivedTaskStore.get(task.taskId);
+      if (received && received.status !== 'queued' && received.status !== 'running') continue;
+
+      if (task.status === 'running' && task.runId && task.sessionKey) {
+        this.inflight.set(task.taskId, task);
+        client.sendWS({
+          type: 'task_status' as any,
+          id: task.taskId,
+          to: task.fromNodeId,
+          payload: { status: 'running' },
+        });
+        this.awaitCompletion(task, task.runId, task.sessionKey);
+        reattached++;
+      } else {
+        task.status = 'queued';
+        task.position = undefined;
+        this.queue.push(task);
+        queued++;
+      }
     }
+    if (queued + reattached === 0) return;
+
+    pluginApi.logger.info(`[cluster-hub] 恢复任务队列: ${queued} 个排队, ${reattached} 个执行中`);
+    this.sortQueue();
+    this.dequeue();
+    // dequeue 只在启动了任务时上报位置，这里确保剩余排队任务都上报一次
+    this.reportPositions();
+    this.persist();
   }
 
   private async startTask(task: QueuedTask): Promise<void> {
     task.status = 'running';
     task.startedAt = Date.now();
+    task.position = undefined;
     this.dispatching.set(task.taskId, task);
+    this.persist();
 
     // 持久化标记 running
     receivedTaskStore.markRunning(task.taskId);
@@ -261,41 +551,100 @@ class TaskQueue {
 
     pluginApi.logger.info(`[cluster-hub] 派发任务 ${task.taskId} (dispatching=${this.dispatching.size}, inflight=${this.inflight.size})`);
 
+    let dispatched: { runId: string; sessionKey: string };
     try {
       // 1. 派发到 Gateway — 立即返回
-      const { runId, sessionKey } = await dispatchTaskToAgent(task.instruction);
-      task.sessionKey = sessionKey;
-
-      // 2. 派发成功 → 移入 inflight，释放并发槽
+      dispatched = await dispatchTaskToAgent(task.instruction);
+    } catch (err: any) {
+      // 派发阶段就失败了，需要从 dispatching 中移除
       this.dispatching.delete(task.taskId);
-      this.inflight.set(task.taskId, task);
-      this.dequeue(); // 立即处理下一个排队任务
+      task.status = 'failed';
+      task.error = err.message;
+      this.finish(task);
+      return;
+    }
+
+    // 派发期间收到取消请求：立即中止，等待 agent 退出后确认
+    if (task.cancelReason) abortAgentRun(dispatched.sessionKey, dispatched.runId);
+
+    // 2. 派发成功 → 移入 inflight，释放并发槽
+    task.runId = dispatched.runId;
+    task.sessionKey = dispatched.sessionKey;
+    this.dispatching.delete(task.taskId);
+    this.inflight.set(task.taskId, task);
+    this.persist();
+    this.dequeue(); // 立即处理下一个排队任务
 
-      // 3. 后台等待完成 + 回调（不占用并发槽）
-      const result = await waitAndCollectResult(runId, sessionKey);
+    // 3. 后台等待完成 + 回调（不占用并发槽）
+    await this.awaitCompletion(task, dispatched.runId, dispatched.sessionKey);
+  }
+
+  /** 等待已派发的 agent 运行结束并回传结果，执行期间向父节点推送进度帧 */
+  private async awaitCompletion(task: QueuedTask, runId: string, sessionKey: string): Promise<void> {
+    let seq = 0;
+    const onProgress = (messages: any[]) => {
+      const progress = summarizeProgress(messages, ++seq);
+      if (!progress) { seq--; return; }
+      client.sendWS({
+        type: 'task_status' as any,
+        id: task.taskId,
+        to: task.fromNodeId,
+        payload: { status: 'running', progress },
+      }, { queue: false });
+    };
+    try {
+      const result = await waitAndCollectResult(runId, sessionKey, undefined, onProgress);
       task.status = result.success ? 'completed' : 'failed';
       task.result = result.result;
       task.error = result.error;
     } catch (err: any) {
       task.status = 'failed';
       task.error = err.message;
-      // 如果派发阶段就失败了，需要从 dispatching 中移除
-      this.dispatching.delete(task.taskId);
     }
+    this.finish(task);
+  }
 
+  private finish(task: QueuedTask): void {
     task.completedAt = Date.now();
     this.inflight.delete(task.taskId);
+    this.persist();
     this.completed.unshift(task);
     if (this.completed.length > 50) this.completed.pop();
 
-    // 持久化结果
-    receivedTaskStore.recordResult(task.taskId, task.status === 'completed', task.result, task.error);
+    if (task.cancelReason) {
+      // 取消导致的结束：不回传结果，确认取消
+      task.status = 'cancelled';
+      task.error = task.cancelReason;
+      receivedTaskStore.markCancelled(task.taskId, task.cancelReason);
+      this.confirmCancelled(task);
+      cleanupTaskFiles(task.taskId);
+    } else {
+      const payload: ResultPayload = {
+        success: task.status === 'completed',
+        result: task.result,
+        error: task.error,
+      };
+      let undelivered = false;
+      if (payload.success) {
+        // 输出目录中的文件作为产物回传，大文件分块先行
+        const packed = packOutputArtifacts(task.taskId, chunk => {
+          if (!sendArtifactChunk(task.taskId, task.fromNodeId, chunk)) undelivered = true;
+        });
+        if (packed.artifacts.length > 0) payload.artifacts = packed.artifacts;
+        if (packed.error) payload.result = `${payload.result || ''}\n\n⚠️ ${packed.error}`;
+      }
 
-    client.sendResult(task.taskId, task.fromNodeId, {
-      success: task.status === 'completed',
-      result: task.result,
-      error: task.error,
-    });
+      // 持久化结果
+      receivedTaskStore.recordResult(task.taskId, payload.success, payload.result, payload.error);
+      if (undelivered) {
+        // 分块未送达：保留输出目录，父节点对账时连同结果重发
+        pluginApi.logger.warn(`[cluster-hub] 任务 ${task.taskId} 产物分块未送达，等待对账时重发`);
+        inputStore.remove(task.taskId);
+      } else {
+        client.sendResult(task.taskId, task.fromNodeId, payload);
+        cleanupTaskFiles(task.taskId);
+      }
+    }
 
     pluginApi.logger.info(`[cluster-hub] 任务 ${task.taskId} ${task.status}, 耗时 ${Date.now() - (task.startedAt || 0)}ms`);
     // 任务完成后再次 dequeue，以防 dispatch 阶段有失败导致槽位提前释放
@@ -303,33 +652,67 @@ class TaskQueue {
   }
 
   private dequeue(): void {
+    if (this.queue.length === 0) return;
+    this.sortQueue();
+    let started = false;
     while (this.queue.length > 0 && this.activeSlots < this.maxConcurrent) {
       const next = this.queue.shift()!;
       this.startTask(next);
+      started = true;
     }
+    if (started) this.reportPositions();
+  }
+
+  /** 队列中任务的实时状态（对账用），不在队列中返回 null */
+  describe(taskId: string): { status: 'queued' | 'running'; position?: number } | null {
+    const qIdx = this.queue.findIndex(t => t.taskId === taskId);
+    if (qIdx >= 0) return { status: 'queued', position: qIdx + 1 };
+    if (this.dispatching.has(taskId) || this.inflight.has(taskId)) return { status: 'running' };
+    return null;
   }
 
-  cancel(taskId: string): boolean {
+  /**
+   * 取消任务：排队中的直接移出并确认；执行中的中止 agent 运行，
+   * 由 finish() 在 agent 退出后确认（不再回传结果）
+   */
+  cancel(taskId: string, reason = '任务已被取消'): boolean {
     const qIdx = this.queue.findIndex(t => t.taskId === taskId);
     if (qIdx >= 0) {
       const task = this.queue.splice(qIdx, 1)[0];
       task.status = 'cancelled';
+      task.cancelReason = reason;
       task.completedAt = Date.now();
-      receivedTaskStore.markCancelled(taskId);
-      client.sendResult(task.taskId, task.fromNodeId, {
-        success: false, error: '任务已被取消',
-      });
+      receivedTaskStore.markCancelled(taskId, reason);
+      this.confirmCancelled(task);
+      cleanupTaskFiles(taskId);
+      this.persist();
+      this.reportPositions();
       return true;
     }
     // 检查 dispatching 和 inflight 中的任务
     const running = this.dispatching.get(taskId) || this.inflight.get(taskId);
-    if (running && running.sessionKey) {
-      gatewayRpc('sessions.delete', { key: running.sessionKey }, 5_000).catch(() => { });
+    if (running) {
+      if (running.cancelReason) return true;
+      running.cancelReason = reason;
+      this.persist();
+      pluginApi.logger.info(`[cluster-hub] 取消执行中的任务 ${taskId}: ${reason}`);
+      // 派发中（尚无 sessionKey）的任务在派发完成后立即中止，见 startTask
+      if (running.sessionKey) abortAgentRun(running.sessionKey, running.runId);
       return true;
     }
     return false;
   }
 
+  /** 向父节点确认任务已取消 */
+  private confirmCancelled(task: QueuedTask): void {
+    client.sendWS({
+      type: 'task_status' as any,
+      id: task.taskId,
+      to: task.fromNodeId,
+      payload: { status: 'cancelled', reason: task.cancelReason },
+    });
+  }
+
   getStatus() {
     return {
       maxConcurrent: this.maxConcurrent,
@@ -339,13 +722,43 @@ class TaskQueue {
       running: this.dispatching.size + this.inflight.size,
       completed: this.completed.filter(t => t.status === 'completed').length,
       failed: this.completed.filter(t => t.status === 'failed').length,
-      queuedTasks: this.queue.map(t => ({ taskId: t.taskId, instruction: t.instruction.substring(0, 100), receivedAt: t.receivedAt })),
+      queuedTasks: this.queue.map((t, i) => ({ taskId: t.taskId, instruction: t.instruction.substring(0, 100), priority: t.priority, position: i + 1, receivedAt: t.receivedAt })),
       runningTasks: [...this.dispatching.values(), ...this.inflight.values()].map(t => ({ taskId: t.taskId, instruction: t.instruction.substring(0, 100), startedAt: t.startedAt })),
       recentCompleted: this.completed.slice(0, 10).map(t => ({ taskId: t.taskId, status: t.status, completedAt: t.completedAt })),
     };
   }
 }
 
+// ============================================================================
+// 心跳指标 — 系统资源 + TaskQueue 占用 + Agent 并发上限
+// ============================================================================
+
+function collectHeartbeatMetrics(): { activeTasks: number; metrics: NodeMetrics } {
+  const q = taskQueue.getStatus();
+  let agentMaxConcurrent: number | null = null;
+  let subagentMaxConcurrent: number | null = null;
+  try {
+    const defaults = pluginApi.runtime.config.loadConfig()?.agents?.defaults;
+    if (typeof defaults?.maxConcurrent === 'number') agentMaxConcurrent = defaults.maxConcurrent;
+    if (typeof defaults?.subagents?.maxConcurrent === 'number') subagentMaxConcurrent = defaults.subagents.maxConcurrent;
+  } catch { /* 配置读取失败不影响心跳 */ }
+
+  return {
+    activeTasks: q.running,
+    metrics: {
+      ...collectSystemMetrics(DATA_DIR),
+      queue: {
+        dispatching: q.dispatching,
+        inflight: q.inflight,
+        queued: q.queued,
+        maxConcurrent: q.maxConcurrent,
+      },
+      agentMaxConcurrent,
+      subagentMaxConcurrent,
+    },
+  };
+}
+
 // ============================================================================
 // 远程聊天 — 子节点侧处理
 // ============================================================================
@@ -381,15 +794,15 @@ async function handleIncomingChat(msg: WSMessage): Promise<void> {
     }, 15_000);
 
     const runId = agentResult?.runId || idempotencyKey;
-    let refreshTimer: ReturnType<typeof setInterval> | null = null;
+    let refreshWatch: ReturnType<typeof watchSession> | null = null;
 
-    // 获取 baseline 时间戳（用 timestamp 追踪增量，不受 limit 截断影响）
-    const baseline = await gatewayRpc('chat.history', { sessionKey, limit: 200 }, 10_000);
+    // 获取 baseline 时间戳（用 timestamp 追踪增量，只需最后一条）
+    const baseline = await gatewayRpc('chat.history', { sessionKey, limit: 1 }, 10_000);
     const baselineMsgs = baseline?.messages || [];
     let lastTs = baselineMsgs.length > 0
       ? (baselineMsgs[baselineMsgs.length - 1].timestamp || Date.now())
       : Date.now();
-    // 共享活跃时间戳：2s 定时器发现新消息时更新，waitForAgent 用它检测空闲
+    // 共享活跃时间戳：发现新消息时更新，waitForAgent 用它检测空闲
     let lastActivityTs = Date.now();
 
     // 飞书来源：立即发确认消息（无后缀）
@@ -407,52 +820,43 @@ async function handleIncomingChat(msg: WSMessage): Promise<void> {
       });
     }
 
-    // 飞书来源默认开启 2s 自动刷新
+    // 飞书来源默认开启自动刷新（事件订阅不可用时按 2s 轮询）
     const effectiveRefreshMs = isFeishu ? (autoRefreshMs || 2000) : autoRefreshMs;
 
     if (effectiveRefreshMs && effectiveRefreshMs > 0) {
-      refreshTimer = setInterval(async () => {
-        try {
-          const history = await gatewayRpc('chat.history', { sessionKey, limit: 200 }, 10_000);
-          const messages = history?.messages || [];
-          const newMsgs = messages.filter((m: any) => m.timestamp && m.timestamp > lastTs);
-          if (newMsgs.length > 0) {
-            lastTs = newMsgs[newMsgs.length - 1].timestamp;
-            lastActivityTs = Date.now(); // 刷新活跃时间
-
-            if (isFeishu) {
-              // 飞书：格式化增量 + "持续工作中"
-              const formatted = formatMessagesForFeishu(newMsgs);
-              if (formatted) {
-                client.sendWS({
-                  type: 'chat' as any,
-                  id: randomUUID(),
-                  to: fromNodeId,
-                  payload: {
-                    content: formatted + '\n\n—— 持续工作中 ——',
-                    replyTo: chatId,
-                    timestamp: Date.now(),
-                    done: false,
-                  },
-                });
-              }
-            } else {
-              // 非飞书：原始消息数组
-              client.sendWS({
-                type: 'chat' as any,
-                id: randomUUID(),
-                to: fromNodeId,
-                payload: {
-                  role: 'delta',
-                  messages: formatMessages(newMsgs, whole),
-                  timestamp: Date.now(),
-                  done: false,
-                },
-              });
-            }
+      refreshWatch = watchSession(sessionKey, lastTs, effectiveRefreshMs, (newMsgs) => {
+        lastActivityTs = Date.now(); // 刷新活跃时间
+        if (isFeishu) {
+          // 飞书：格式化增量 + "持续工作中"
+          const formatted = formatMessagesForFeishu(newMsgs);
+          if (formatted) {
+            client.sendWS({
+              type: 'chat' as any,
+              id: randomUUID(),
+              to: fromNodeId,
+              payload: {
+                content: formatted + '\n\n—— 持续工作中 ——',
+                replyTo: chatId,
+                timestamp: Date.now(),
+                done: false,
+              },
+            });
           }
-        } catch { }
-      }, effectiveRefreshMs);
+        } else {
+          // 非飞书：原始消息数组
+          client.sendWS({
+            type: 'chat' as any,
+            id: randomUUID(),
+            to: fromNodeId,
+            payload: {
+              role: 'delta',
+              messages: formatMessages(newMsgs, whole),
+              timestamp: Date.now(),
+              done: false,
+            },
+          });
+        }
+      });
     }
 
     try {
@@ -469,7 +873,10 @@ async function handleIncomingChat(msg: WSMessage): Promise<void> {
         }
       }
     } finally {
-      if (refreshTimer) clearInterval(refreshTimer);
+      if (refreshWatch) {
+        refreshWatch.stop();
+        lastTs = refreshWatch.lastTs();
+      }
     }
 
     // 最终发送：获取剩余增量
@@ -686,6 +1093,46 @@ function formatMessagesForFeishu(messages: any[]): string {
   return parts.join('\n\n');
 }
 
+/** 单帧进度文本上限 */
+const PROGRESS_TEXT_LIMIT = 2000;
+
+/** 把新增消息整理成进度帧：assistant 文本 + 工具调用摘要；没有可报告内容时返回 null */
+function summarizeProgress(messages: any[], seq: number): TaskProgress | null {
+  const texts: string[] = [];
+  const tools: string[] = [];
+  for (const msg of messages) {
+    if (msg.role !== 'assistant') continue;
+    if (typeof msg.content === 'string') {
+      if (msg.content.trim()) texts.push(msg.content.trim());
+      continue;
+    }
+    if (!Array.isArray(msg.content)) continue;
+    for (const block of msg.content) {
+      if (block.type === 'toolCall' && block.name) {
+        const meta = getToolMeta(block.name);
+        const detail = getToolDetail(block.name, block.arguments);
+        tools.push(detail ? `${meta.icon} ${meta.label} \`${detail}\`` : `${meta.icon} ${meta.label}`);
+      }
+      if (block.type === 'text' && block.text) {
+        const cleaned = block.text
+          .replace(/<\/?final>/g, '')
+          .replace(/<think>[\s\S]*?<\/think>/g, '')
+          .trim();
+        if (cleaned) texts.push(cleaned);
+      }
+    }
+  }
+  if (texts.length === 0 && tools.length === 0) return null;
+
+  const progress: TaskProgress = { seq, at: Date.now() };
+  if (texts.length > 0) {
+    const text = texts.join('\n');
+    progress.text = text.length > PROGRESS_TEXT_LIMIT ? text.substring(0, PROGRESS_TEXT_LIMIT) + '...' : text;
+  }
+  if (tools.length > 0) progress.tools = tools;
+  return progress;
+}
+
 // ============================================================================
 // 任务发送 — 父节点向子节点下发
 // ============================================================================
@@ -719,104 +1166,1094 @@ function resolveNodeName(nodeId: string): string | undefined {
   } catch { return undefined; }
 }
 
-async function sendTaskAndTrack(inputNodeId: string, instruction: string): Promise<string> {
+/** 解析发送目标：节点 ID / 名称 / 别名，或能力选择器（选出负载最低的匹配节点） */
+async function resolveTarget(target: string | TargetSelector): Promise<{ nodeId: string; selector?: TargetSelector }> {
+  if (!isTargetSelector(target)) {
+    return { nodeId: await resolveNodeId(target) };
+  }
+  let nodes: HubNode[];
+  try { nodes = await client.fetchNodes(); } catch { nodes = client.getCachedNodes(); }
+  const node = selectNode(nodes, target);
+  if (!node) {
+    throw new Error(`没有满足条件的在线节点 (${describeSelector(target)})`);
+  }
+  pluginApi.logger.info(`[cluster-hub] 能力路由 (${describeSelector(target)}) → ${node.name} (${node.id})`);
+  return { nodeId: node.id, selector: target };
+}
+
+/** 从 RPC / 工具参数中取发送目标：优先 nodeId，其次 requires 能力选择器 */
+function targetFromParams(params: any): string | TargetSelector | undefined {
+  if (params?.nodeId) return params.nodeId;
+  if (isTargetSelector(params?.target)) return params.target;
+  const requires = typeof params?.requires === 'string'
+    ? params.requires.split(',').map((c: string) => c.trim()).filter(Boolean)
+    : params?.requires;
+  if (Array.isArray(requires) && requires.length > 0) {
+    return { requires, strategy: params?.strategy, exclude: params?.exclude };
+  }
+  return undefined;
+}
+
+async function sendTaskAndTrack(target: string | TargetSelector, instruction: string, opts?: SendTaskOptions): Promise<string> {
   const taskId = randomUUID();
-  const nodeId = await resolveNodeId(inputNodeId);
+  const resolved = await resolveTarget(target);
+  const nodeId = resolved.nodeId;
+  const selector = resolved.selector || opts?.selector;
+  const priority = opts?.priority;
+  const retry = opts?.retry;
+  const local = isSelfNode(nodeId) && client.getConfig().selfTaskMode === 'local';
+  const nodeName = local ? client.getConfig().nodeName : resolveNodeName(nodeId);
+
+  const extra: Partial<StoredTask> = { selector, priority };
+  if (opts?.timeoutMs) extra.timeoutMs = opts.timeoutMs;
+  if (opts?.collectArtifacts) extra.collectArtifacts = true;
+  if (opts?.attachments?.length) {
+    // 先打包一次：文件不存在或超限时直接报错，不记录任务
+    const attachmentPaths = opts.attachments.map(p => path.resolve(p));
+    const { artifacts } = packFiles(attachmentPaths, 'input');
+    extra.attachmentPaths = attachmentPaths;
+    extra.attachments = artifacts.map(({ data, chunks, ...meta }) => meta);
+  }
+  if (retry) {
+    extra.retry = retry;
+    extra.attempts = [{ attempt: 1, wireId: taskId, nodeId, nodeName, status: 'sent', sentAt: Date.now() }];
+  }
+  const task = taskStore.recordSent(taskId, nodeId, nodeName, instruction, local ? 'local' : 'remote', extra);
+  broadcast('hub.task.update', { task });
 
-  if (isSelfNode(nodeId) && client.getConfig().selfTaskMode === 'local') {
-    // 自发本地任务
-    const task = taskStore.recordSent(taskId, nodeId, client.getConfig().nodeName, instruction, 'local');
-    broadcast('hub.task.update', { task });
+  dispatchAttempt(task, nodeId, taskId);
+  return taskId;
+}
 
-    // 异步执行
-    executeTaskLocally(instruction).then(result => {
-      const updated = taskStore.recordResult(taskId, result);
-      if (updated) broadcast('hub.task.update', { task: updated });
+/** 同步执行：与异步任务同样经 dispatchAttempt 发出（截止时间随进度顺延），等到任务结束再取结果 */
+async function sendTaskAndWait(nodeId: string, instruction: string, opts?: SendTaskOptions): Promise<{ taskId: string; result: ResultPayload }> {
+  const taskId = await sendTaskAndTrack(nodeId, instruction, opts);
+  const task = await waitTaskSettled(taskId);
+  return { taskId, result: { success: task?.status === 'completed', result: task?.result, error: task ? task.error : '任务记录丢失' } };
+}
+
+/** 等到任务结束（执行完或被超时扫描标记 timeout） */
+async function waitTaskSettled(taskId: string): Promise<StoredTask | null> {
+  while ((await taskStore.waitFor([taskId], 60_000)).pending.length > 0) { /* 仍在执行 */ }
+  return taskStore.get(taskId);
+}
+
+/** 发出一次尝试：自发本地任务直接执行，其余经 Hub 下发 */
+function dispatchAttempt(task: StoredTask, nodeId: string, wireId: string): void {
+  const timeoutMs = task.timeoutMs || client.getConfig().taskTimeoutMs;
+  taskStore.updateStatus(task.taskId, { deadlineAt: Date.now() + timeoutMs });
+
+  if (isSelfNode(nodeId) && client.getConfig().selfTaskMode === 'local') {
+    // 异步执行，结果与远程结果走同一路径（便于重试）
+    let seq = 0;
+    const onProgress = (messages: any[]) => {
+      const progress = summarizeProgress(messages, ++seq);
+      if (progress) recordProgress(task, progress);
+      else seq--;
+    };
+    // 本地执行直接引用原始附件路径，产物分块写入产物目录
+    const outputDir = path.join(TASK_OUTPUT_DIR, wireId);
+    const instruction = decorateInstruction(task.instruction, task.attachmentPaths || [], outputDir, !!task.collectArtifacts);
+    executeTaskLocally(instruction, timeoutMs, onProgress).then(result => {
+      if (result.success) {
+        const packed = packOutputArtifacts(wireId, chunk => artifactStore.writeChunk(task.taskId, chunk));
+        if (packed.artifacts.length > 0) result.artifacts = packed.artifacts;
+        if (packed.error) result.result = `${result.result || ''}\n\n⚠️ ${packed.error}`;
+      }
+      fs.rmSync(outputDir, { recursive: true, force: true });
+      handleAttemptResult(wireId, result);
     }).catch(err => {
-      const updated = taskStore.recordResult(taskId, { success: false, error: err.message });
-      if (updated) broadcast('hub.task.update', { task: updated });
+      handleAttemptResult(wireId, { success: false, error: err.message });
     });
-
-    return taskId;
+    return;
   }
 
-  // 远程任务
-  const task = taskStore.recordSent(taskId, nodeId, resolveNodeName(nodeId), instruction, 'remote');
-  broadcast('hub.task.update', { task });
+  if (!sendTaskFrames(task, nodeId, wireId)) return;
+  pluginApi.logger.info(`[cluster-hub] 任务已下发 ${wireId} → ${nodeId}`);
+}
 
+/**
+ * 发送任务帧，大附件分块先行
+ * 分块不进发件箱：有分块未送达时不发 task，记入 undeliveredTasks，由对账重发
+ */
+function sendTaskFrames(task: StoredTask, nodeId: string, wireId: string): boolean {
+  const payload: TaskPayload = { task: task.instruction };
+  if (task.selector?.requires?.length) payload.requirements = task.selector.requires;
+  if (task.priority) payload.priority = task.priority;
+  if (task.collectArtifacts) payload.collectArtifacts = true;
+  if (task.attachmentPaths?.length) {
+    let packed: ReturnType<typeof packFiles>;
+    try {
+      packed = packFiles(task.attachmentPaths, 'input');
+    } catch (err: any) {
+      handleAttemptResult(wireId, { success: false, error: `附件读取失败: ${err.message}` });
+      return false;
+    }
+    for (const chunk of packed.chunks) {
+      if (!sendArtifactChunk(wireId, nodeId, chunk)) {
+        undeliveredTasks.add(wireId);
+        pluginApi.logger.warn(`[cluster-hub] 任务 ${wireId} 附件分块未送达，等待对账时重发`);
+        return false;
+      }
+    }
+    payload.attachments = packed.artifacts;
+  }
+  undeliveredTasks.delete(wireId);
   client.sendWS({
     type: 'task' as any,
-    id: taskId,
+    id: wireId,
     to: nodeId,
-    payload: { task: instruction },
+    payload,
   });
-
-  pluginApi.logger.info(`[cluster-hub] 任务已下发 ${taskId} → ${nodeId}`);
-  return taskId;
+  return true;
 }
 
 function isSelfNode(nodeId: string): boolean {
   return nodeId === client.getConfig().nodeId;
 }
 
+// ============================================================================
+// 扇出（map-reduce）：同一指令下发到一组节点，收齐后可在本地汇总
+// ============================================================================
+
+function parseMapSelector(params: any): MapSelector {
+  const requires = typeof params?.requires === 'string'
+    ? params.requires.split(',').map((c: string) => c.trim()).filter(Boolean)
+    : params?.requires;
+  const scope = ['all', 'children', 'subtree'].includes(params?.scope) ? params.scope : 'all';
+  return {
+    scope,
+    root: params?.root || undefined,
+    requires: Array.isArray(requires) && requires.length > 0 ? requires : undefined,
+    includeSelf: params?.includeSelf !== false,
+  };
+}
+
+async function runMap(
+  instruction: string,
+  selector: MapSelector,
+  opts: { priority?: TaskPriority; retry?: RetryPolicy; timeoutMs?: number; reduce?: string; wait?: boolean },
+): Promise<MapResult> {
+  if (selector.root) selector.root = await resolveNodeId(selector.root);
+  let nodes: HubNode[];
+  try { nodes = await client.fetchNodes(); } catch { nodes = client.getCachedNodes(); }
+  const targets = selectMapNodes(nodes, selector, client.getConfig().nodeId);
+  if (targets.length === 0) {
+    throw new Error(`没有满足条件的在线节点 (${describeMapSelector(selector)})`);
+  }
+  pluginApi.logger.info(`[cluster-hub] 扇出 (${describeMapSelector(selector)}) → ${targets.length} 个节点`);
+
+  const result: MapResult = { instruction, nodes: [], dispatchErrors: [], pending: 0 };
+  const taskIds: string[] = [];
+  for (const node of targets) {
+    try {
+      taskIds.push(await sendTaskAndTrack(node.id, instruction, {
+        priority: opts.priority, retry: opts.retry, timeoutMs: opts.timeoutMs,
+      }));
+    } catch (err: any) {
+      result.dispatchErrors.push({ nodeId: node.id, nodeName: node.name, error: err.message });
+    }
+  }
+
+  if (opts.wait !== false) {
+    // 任务自身超时由截止时间扫描处理，这里按全部尝试和退避估算，再多留余量等最后一次上报
+    const waitMs = retryBudgetMs(opts.timeoutMs || client.getConfig().taskTimeoutMs, opts.retry) + 30_000;
+    result.pending = (await taskStore.waitFor(taskIds, waitMs)).pending.length;
+  }
+
+  result.nodes = taskIds.map(taskId => {
+    const task = taskStore.get(taskId)!;
+    return {
+      nodeId: task.targetNodeId,
+      nodeName: task.targetNodeName,
+      taskId,
+      status: task.status,
+      result: task.result,
+      error: task.error,
+      durationMs: task.durationMs,
+    };
+  });
+
+  if (opts.reduce && opts.wait !== false) {
+    const sections = result.nodes.map(n =>
+      `### ${n.nodeName || n.nodeId} (${n.status})\n${n.status === 'completed' ? (n.result || '(无文本输出)') : (n.error || '未完成')}`);
+    const prompt = [
+      opts.reduce,
+      '',
+      `以下是在 ${result.nodes.length} 个节点上执行「${instruction}」的结果：`,
+      '',
+      sections.join('\n\n'),
+    ].join('\n');
+    const reduced = await executeTaskLocally(prompt, opts.timeoutMs);
+    result.reduce = { instruction: opts.reduce, success: reduced.success, result: reduced.result, error: reduced.error };
+  }
+  return result;
+}
+
+function formatMapResult(r: MapResult): string {
+  const succeeded = r.nodes.filter(n => n.status === 'completed').length;
+  const lines = [`📊 扇出 ${r.nodes.length} 个节点: ${succeeded} 成功, ${r.nodes.length - succeeded - r.pending} 失败, ${r.pending} 未完成`];
+  for (const n of r.nodes) {
+    const icon = n.status === 'completed' ? '✅' : isFinalTaskStatus(n.status) ? '❌' : '⏳';
+    const duration = n.durationMs ? ` (${(n.durationMs / 1000).toFixed(1)}s)` : '';
+    lines.push('', `${icon} ${n.nodeName || n.nodeId}${duration} — ${n.status} [${n.taskId.substring(0, 8)}]`);
+    const body = n.status === 'completed' ? n.result : n.error;
+    if (body) lines.push(body);
+  }
+  for (const e of r.dispatchErrors) {
+    lines.push('', `❌ ${e.nodeName || e.nodeId} 下发失败: ${e.error}`);
+  }
+  if (r.reduce) {
+    lines.push('', '━━━ 汇总 ━━━', r.reduce.success ? (r.reduce.result || '(无文本输出)') : `❌ 汇总失败: ${r.reduce.error}`);
+  }
+  return lines.join('\n');
+}
+
 // ============================================================================
 // Hub 事件处理 — 持久化 + 广播
 // ============================================================================
 
 function handleTaskAck(msg: WSMessage): void {
-  const taskId = msg.id;
+  const found = taskStore.findByWireId(msg.id);
+  // 已被重试取代的旧尝试，状态不再影响任务
+  if (!found || found.stale) return;
+  // 已结束（如超时后子节点确认取消）或等待重试的任务不再被旧尝试的状态改写
+  const current = found.task.status;
+  if (current !== 'sent' && current !== 'queued' && current !== 'running') return;
+  const taskId = found.task.taskId;
   const status = msg.payload?.status;
+  if (status === 'cancelled') {
+    finalizeCancelled(found.task, msg.payload?.reason || '已取消');
+    return;
+  }
+  const progress: TaskProgress | undefined = msg.payload?.progress;
+  if (progress) {
+    recordProgress(found.task, progress);
+    // 进度帧本身不改变状态，只在首次收到时补上 running
+    if (current === 'running') return;
+  }
   const update: Partial<StoredTask> = { status };
-  if (status === 'queued') update.ackedAt = Date.now();
-  if (status === 'running') { update.ackedAt = Date.now(); update.startedAt = Date.now(); }
+  if (typeof msg.payload?.position === 'number') update.queuePosition = msg.payload.position;
+  if (status === 'queued' && current !== 'queued') {
+    update.ackedAt = found.task.ackedAt || Date.now();
+    // 排队期间不计空闲超时，改用排队预算；位置变化不顺延
+    update.deadlineAt = Date.now() + client.getConfig().taskQueueTimeoutMs;
+  }
+  if (status === 'running') {
+    // 对账重复上报 running 时保留原开始时间
+    const wasRunning = found.task.status === 'running';
+    update.ackedAt = wasRunning ? found.task.ackedAt : Date.now();
+    update.startedAt = wasRunning ? found.task.startedAt : Date.now();
+    update.queuePosition = undefined;
+    // 排队期间不计时，开始执行后重新起算
+    update.deadlineAt = Date.now() + (found.task.timeoutMs || client.getConfig().taskTimeoutMs);
+  }
+  if (found.attempt && (status === 'queued' || status === 'running')) {
+    taskStore.updateAttempt(taskId, msg.id, { status });
+  }
 
   const task = taskStore.updateStatus(taskId, update);
   if (task) {
-    pluginApi.logger.info(`[cluster-hub] 任务 ${taskId} ack: ${status}`);
+    pluginApi.logger.info(`[cluster-hub] 任务 ${msg.id} ack: ${status}`);
     broadcast('hub.task.update', { task });
   }
 }
 
-function handleTaskResult(msg: WSMessage): void {
-  const taskId = msg.id;
-  const payload: ResultPayload = msg.payload || {};
-  const task = taskStore.recordResult(taskId, payload);
-  if (task) {
-    pluginApi.logger.info(`[cluster-hub] 任务 ${taskId} 完成: ${task.status}`);
-    broadcast('hub.task.update', { task });
-  }
+/** 进度帧：追加到任务的进度日志并推送给控制台；有进度说明仍在执行，顺延截止时间 */
+function recordProgress(task: StoredTask, progress: TaskProgress): void {
+  const updated = taskStore.appendProgress(task.taskId, progress);
+  if (!updated) return;
+  extendDeadline(updated);
+  broadcast('hub.task.progress', { taskId: task.taskId, progress });
 }
 
-function handleChatReply(msg: WSMessage): void {
-  const fromNodeId = msg.from!;
-  const { messages: replyMsgs, role, done, content } = msg.payload || {};
+/** 截止时间 = 最近一次活动（下发 / 开始执行 / 进度）+ 超时时长，与子节点的空闲超时一致 */
+function extendDeadline(task: StoredTask): void {
+  if (isFinalTaskStatus(task.status) || task.status === 'retrying') return;
+  const timeoutMs = task.timeoutMs || client.getConfig().taskTimeoutMs;
+  taskStore.updateStatus(task.taskId, { deadlineAt: Date.now() + timeoutMs });
+}
 
-  // 提取文本内容
-  let text = '';
-  if (replyMsgs && Array.isArray(replyMsgs)) {
-    text = replyMsgs
-      .filter((m: any) => m.role === 'assistant')
-      .map((m: any) => typeof m.content === 'string' ? m.content : JSON.stringify(m.content))
-      .join('\n');
-  } else if (content) {
-    text = typeof content === 'string' ? content : JSON.stringify(content);
+/** 最近 n 帧进度（hub_wait_task 输出） */
+function formatProgressTail(task: StoredTask, n: number): string {
+  const frames = (task.progress || []).slice(-n);
+  if (frames.length === 0) return '';
+  const lines = frames.map(p => {
+    const time = new Date(p.at).toLocaleTimeString();
+    const parts = [...(p.tools || []), ...(p.text ? [p.text] : [])];
+    return `[${time}] ${parts.join('\n')}`;
+  });
+  return `最近进度 (${frames.length}):\n${lines.join('\n')}`;
+}
+
+// ============================================================================
+// 任务附件与产物
+// ============================================================================
+
+/** 有输入文件或要求回传产物时，在指令末尾附上输入文件路径和输出目录，供 agent 读写 */
+function decorateInstruction(instruction: string, inputPaths: string[], outputDir: string, collectArtifacts: boolean): string {
+  if (inputPaths.length === 0 && !collectArtifacts) return instruction;
+  const lines = [instruction, ''];
+  if (inputPaths.length > 0) {
+    lines.push('[输入文件]', ...inputPaths.map(p => `- ${p}`), '');
   }
+  lines.push(`[输出目录] 需要交付给任务发起方的文件请保存到: ${outputDir}`);
+  return lines.join('\n');
+}
 
-  if (text) {
-    // delta 和 done 都写入 chatStore + 广播
-    const message = chatStore.appendMessage(fromNodeId, {
-      role: 'assistant',
-      content: text,
-    });
-    broadcast('hub.chat.message', {
-      nodeId: fromNodeId,
-      message,
-      done: !!done,
-    });
+/** 打包输出目录中的文件；分块交给 onChunk，失败时返回错误说明而不影响任务结果 */
+function packOutputArtifacts(
+  wireId: string,
+  onChunk: (chunk: ArtifactChunkPayload) => void,
+): { artifacts: TaskArtifact[]; error?: string } {
+  const files = listFiles(path.join(TASK_OUTPUT_DIR, wireId));
+  if (files.length === 0) return { artifacts: [] };
+  try {
+    const { artifacts, chunks } = packFiles(files, 'output');
+    for (const chunk of chunks) onChunk(chunk);
+    return { artifacts };
+  } catch (err: any) {
+    pluginApi.logger.warn(`[cluster-hub] 任务 ${wireId} 产物打包失败: ${err.message}`);
+    return { artifacts: [], error: `产物未回传: ${err.message}` };
   }
 }
 
-function handleNodeEvent(action: string, payload: any): void {
+/** 附件 / 产物分块是时效性消息，断线时不进发件箱，由对账重发 */
+function sendArtifactChunk(wireId: string, to: string, chunk: ArtifactChunkPayload): boolean {
+  return client.sendWS({ type: 'task_artifact', id: wireId, to, payload: chunk }, { queue: false });
+}
+
+/** 父节点：保存结果中的产物，校验失败的跳过 */
+function saveResultArtifacts(taskId: string, artifacts: TaskArtifact[]): StoredArtifact[] {
+  const saved: StoredArtifact[] = [];
+  for (const artifact of artifacts) {
+    try {
+      saved.push(artifactStore.save(taskId, artifact));
+    } catch (err: any) {
+      pluginApi.logger.warn(`[cluster-hub] 任务 ${taskId} 产物保存失败: ${err.message}`);
+    }
+  }
+  return saved;
+}
+
+/** 子节点：task 帧到达前先行收到的输入附件分块（wireId → 发送方），task 到达时核对发送方 */
+const pendingInputs = new Map<string, { from: string; since: number }>();
+/** 每个节点同时在途（尚未收到 task）的附件任务数上限 */
+const PENDING_INPUT_MAX_PER_NODE = 4;
+/** 分块先行后迟迟没有 task 帧的附件，超过该时长清理 */
+const PENDING_INPUT_TTL_MS = 10 * 60_000;
+
+/** 输入分块只接受同一发送方；新任务受每节点在途数限制，防止单个节点写满磁盘 */
+function acceptInputChunk(wireId: string, from: string): boolean {
+  const pending = pendingInputs.get(wireId);
+  if (pending) return pending.from === from;
+  // task 已到达（或已处理过）的任务不再接收分块
+  if (receivedTaskStore.get(wireId)) return false;
+
+  const now = Date.now();
+  for (const [id, p] of pendingInputs) {
+    if (now - p.since < PENDING_INPUT_TTL_MS) continue;
+    pendingInputs.delete(id);
+    inputStore.remove(id);
+  }
+  const inflight = [...pendingInputs.values()].filter(p => p.from === from).length;
+  if (inflight >= PENDING_INPUT_MAX_PER_NODE) return false;
+  pendingInputs.set(wireId, { from, since: now });
+  return true;
+}
+
+/** 收到附件 / 产物分块 */
+function handleArtifactChunk(msg: WSMessage): void {
+  const chunk = msg.payload as ArtifactChunkPayload | undefined;
+  if (!chunk?.name || !msg.from) return;
+  try {
+    if (chunk.direction === 'input') {
+      if (!acceptInputChunk(msg.id, msg.from)) {
+        pluginApi.logger.warn(`[cluster-hub] 丢弃输入分块 ${msg.id} ${chunk.name} from ${msg.from}`);
+        return;
+      }
+      inputStore.writeChunk(msg.id, chunk);
+    } else {
+      // 产物分块只接受该任务当前目标节点发来的
+      const found = taskStore.findByWireId(msg.id);
+      if (!found || found.stale || found.task.targetNodeId !== msg.from) return;
+      artifactStore.writeChunk(found.task.taskId, chunk);
+    }
+  } catch (err: any) {
+    pluginApi.logger.warn(`[cluster-hub] 分块写入失败 (${msg.id} ${chunk.name}): ${err.message}`);
+  }
+}
+
+/** 子节点：任务结束后清理输入附件和输出目录 */
+function cleanupTaskFiles(taskId: string): void {
+  inputStore.remove(taskId);
+  fs.rmSync(path.join(TASK_OUTPUT_DIR, taskId), { recursive: true, force: true });
+}
+
+/** 附件参数：数组或逗号分隔的文件路径 */
+function parseAttachments(v: unknown): string[] | undefined {
+  const list = Array.isArray(v) ? v : typeof v === 'string' ? v.split(',') : [];
+  const paths = list.map(p => String(p).trim()).filter(Boolean);
+  return paths.length > 0 ? paths : undefined;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}K`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}M`;
+}
+
+function formatTransfer(t: FileTransfer): string {
+  const icon = { pending: '⏳', transferring: '🔄', completed: '✅', failed: '❌', cancelled: '⚠️' }[t.status];
+  const arrow = t.direction === 'send' ? '→' : '←';
+  const peer = t.peerNodeName || t.peerNodeId.substring(0, 8);
+  const percent = t.size > 0 ? ` ${Math.floor(t.transferred / t.size * 100)}%` : '';
+  const resumed = t.resumedFrom ? `，从 ${formatBytes(t.resumedFrom)} 续传` : '';
+  return `${icon} ${t.localPath} ${arrow} ${peer}:${t.remotePath} (${formatBytes(t.size)}${percent}${resumed})${t.error ? ` — ${t.error}` : ''}`;
+}
+
+/** key=value 列表或对象 → 工作流输入 */
+function parseWorkflowInputs(v: unknown): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  if (Array.isArray(v)) {
+    for (const pair of v) {
+      const idx = String(pair).indexOf('=');
+      if (idx > 0) inputs[String(pair).slice(0, idx)] = String(pair).slice(idx + 1);
+    }
+  } else if (v && typeof v === 'object') {
+    for (const [k, val] of Object.entries(v)) inputs[k] = typeof val === 'string' ? val : JSON.stringify(val);
+  }
+  return inputs;
+}
+
+function formatWorkflow(run: WorkflowRun): string {
+  const icons: Record<string, string> = {
+    pending: '⏳', running: '🔄', completed: '✅', failed: '❌', skipped: '⏭️', cancelled: '⚠️',
+  };
+  const header = `${icons[run.status] || ''} 工作流 ${run.name || ''} ${run.status} (runId: ${run.runId})`;
+  const lines = run.definition.steps.map(step => {
+    const state = run.steps[step.id];
+    const deps = step.dependsOn?.length ? ` ← ${step.dependsOn.join(', ')}` : '';
+    const detail = state.error ? ` — ${state.error}` : '';
+    return `  ${icons[state.status]} ${step.id}${deps}${state.taskId ? ` [${state.taskId.substring(0, 8)}]` : ''}${detail}`;
+  });
+  return [header, ...lines, ...(run.error ? [`\n${run.error}`] : [])].join('\n');
+}
+
+/** 工作流结束后的步骤结果汇总 */
+function formatWorkflowResults(run: WorkflowRun): string {
+  return run.definition.steps
+    .filter(step => run.steps[step.id].result)
+    .map(step => `--- ${step.id} ---\n${run.steps[step.id].result}`)
+    .join('\n\n');
+}
+
+/** RPC / 工具参数 → 定时任务定义 */
+function scheduleInputFromParams(params: any): ScheduleInput {
+  const target = targetFromParams(params);
+  if (!target) throw new Error('需要 nodeId 或 requires');
+  return {
+    name: params?.name || undefined,
+    cron: params?.cron || undefined,
+    at: params?.at !== undefined && params?.at !== '' ? parseAt(params.at) : undefined,
+    target,
+    instruction: params?.instruction,
+    priority: parsePriority(params?.priority),
+    retry: parseRetryPolicy(params?.retry),
+    timeoutMs: parseTimeoutMs(params?.timeoutMs),
+    missedPolicy: params?.missedPolicy,
+  };
+}
+
+function formatSchedule(s: Schedule): string {
+  const when = s.cron ? `cron "${s.cron}"` : `at ${new Date(s.at!).toLocaleString()}`;
+  const target = typeof s.target === 'string' ? (resolveNodeName(s.target) || s.target) : `[${describeSelector(s.target)}]`;
+  const next = s.enabled && s.nextRunAt ? `下次 ${new Date(s.nextRunAt).toLocaleString()}` : '已停用';
+  const last = s.lastRunAt ? `，上次 ${new Date(s.lastRunAt).toLocaleString()}${s.lastError ? ` ❌ ${s.lastError}` : ''}` : '';
+  return `${s.enabled ? '⏰' : '⏸️'} [${s.scheduleId.substring(0, 8)}] ${s.name || s.instruction.substring(0, 40)} → ${target}\n   ${when}，${next}${last}`;
+}
+
+function formatArtifacts(artifacts: StoredArtifact[]): string {
+  return artifacts.map(a => `  📎 ${a.name} (${a.mime}, ${formatBytes(a.size)})`).join('\n');
+}
+
+function handleTaskResult(msg: WSMessage): void {
+  handleAttemptResult(msg.id, msg.payload || {});
+}
+
+/** 记录一次尝试的结果：失败且策略允许时安排重试，否则作为任务最终结果 */
+function handleAttemptResult(wireId: string, payload: ResultPayload): void {
+  const found = taskStore.findByWireId(wireId);
+  if (!found) return;
+  const { task, attempt, stale } = found;
+  const taskId = task.taskId;
+
+  if (attempt) {
+    taskStore.updateAttempt(taskId, wireId, {
+      status: payload.success ? 'completed' : 'failed',
+      completedAt: Date.now(),
+      error: payload.success ? undefined : payload.error,
+    });
+  }
+  if (stale) {
+    pluginApi.logger.info(`[cluster-hub] 任务 ${taskId} 旧尝试 ${wireId} 的结果已忽略`);
+    return;
+  }
+  // 已结束（超时 / 取消 / 重复上报）的任务不再被迟到的结果改写
+  if (!isOpenTask(task)) {
+    pluginApi.logger.info(`[cluster-hub] 任务 ${taskId} 已是 ${task.status}，迟到的结果已忽略`);
+    return;
+  }
+
+  // 取消请求发出后的失败结果（旧版子节点不发取消确认）按取消处理
+  if (!payload.success && task.cancelRequestedAt) {
+    finalizeCancelled(task, task.cancelReason || '已取消');
+    return;
+  }
+
+  if (!payload.success && shouldRetry(task, 'failed')) {
+    scheduleRetry(task, payload.error || '执行失败');
+    return;
+  }
+
+  clearRetry(taskId);
+  if (payload.artifacts?.length) {
+    const artifacts = saveResultArtifacts(taskId, payload.artifacts);
+    if (artifacts.length > 0) taskStore.updateStatus(taskId, { artifacts });
+  }
+  const updated = taskStore.recordResult(taskId, payload);
+  if (updated) {
+    pluginApi.logger.info(`[cluster-hub] 任务 ${taskId} 完成: ${updated.status}`);
+    broadcast('hub.task.update', { task: updated });
+  }
+}
+
+// ============================================================================
+// 任务重试 — 失败 / 目标离线时按策略重试，可改派到其他节点
+// ============================================================================
+
+const RETRY_TRIGGERS: RetryTrigger[] = ['failed', 'offline', 'timeout', 'lost'];
+const MAX_RETRY_ATTEMPTS = 10;
+
+/** 等待中的重试定时器 taskId → timer */
+const retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+/**
+ * 参数中的重试策略：数字表示最大尝试次数，对象可指定全部字段
+ * maxAttempts < 2 视为不重试
+ */
+function parseRetryPolicy(v: any): RetryPolicy | undefined {
+  if (v === undefined || v === null || v === false) return undefined;
+  const raw = typeof v === 'object' ? v : { maxAttempts: v };
+  const maxAttempts = Math.floor(Number(raw.maxAttempts));
+  if (!Number.isFinite(maxAttempts) || maxAttempts < 2) return undefined;
+  const retryOn = Array.isArray(raw.retryOn)
+    ? raw.retryOn.filter((t: any) => RETRY_TRIGGERS.includes(t))
+    : [];
+  return {
+    maxAttempts: Math.min(maxAttempts, MAX_RETRY_ATTEMPTS),
+    backoffMs: Math.max(0, Number(raw.backoffMs ?? 5000) || 0),
+    backoffFactor: Math.max(1, Number(raw.backoffFactor ?? 2) || 1),
+    retryOn: retryOn.length > 0 ? retryOn : ['failed', 'offline', 'lost'],
+    failover: !!raw.failover,
+  };
+}
+
+/** 参数中的超时时长，非正数返回 undefined（使用 taskTimeoutMs） */
+function parseTimeoutMs(v: unknown): number | undefined {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/** 任务走完全部尝试的最长耗时：每次尝试的超时 + 各次重试前的退避 */
+function retryBudgetMs(timeoutMs: number, retry?: RetryPolicy): number {
+  if (!retry) return timeoutMs;
+  let total = timeoutMs * retry.maxAttempts;
+  for (let done = 1; done < retry.maxAttempts; done++) {
+    total += retry.backoffMs * Math.pow(retry.backoffFactor, done - 1);
+  }
+  return Math.round(total);
+}
+
+function shouldRetry(task: StoredTask, trigger: RetryTrigger): boolean {
+  const policy = task.retry;
+  if (!policy || !task.attempts) return false;
+  if (task.status === 'cancelled' || task.cancelRequestedAt) return false;
+  return policy.retryOn.includes(trigger) && task.attempts.length < policy.maxAttempts;
+}
+
+/** 标记任务等待重试，按退避时间安排下一次尝试 */
+function scheduleRetry(task: StoredTask, reason: string): void {
+  const policy = task.retry!;
+  const done = task.attempts!.length;
+  const delay = Math.round(policy.backoffMs * Math.pow(policy.backoffFactor, done - 1));
+  const updated = taskStore.updateStatus(task.taskId, {
+    status: 'retrying',
+    error: reason,
+    nextRetryAt: Date.now() + delay,
+    queuePosition: undefined,
+  });
+  pluginApi.logger.info(`[cluster-hub] 任务 ${task.taskId} 第 ${done} 次尝试失败 (${reason})，${Math.round(delay / 1000)}s 后重试 (${done + 1}/${policy.maxAttempts})`);
+  if (updated) broadcast('hub.task.update', { task: updated });
+  armRetry(task.taskId, delay);
+}
+
+function armRetry(taskId: string, delayMs: number): void {
+  clearRetry(taskId);
+  const timer = setTimeout(() => {
+    retryTimers.delete(taskId);
+    runRetry(taskId).catch(err => {
+      pluginApi.logger.warn(`[cluster-hub] 任务 ${taskId} 重试失败: ${err.message}`);
+    });
+  }, delayMs);
+  retryTimers.set(taskId, timer);
+}
+
+function clearRetry(taskId: string): void {
+  const timer = retryTimers.get(taskId);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(taskId);
+  }
+}
+
+/** 重启后恢复等待中的重试 */
+function rearmRetries(): void {
+  const pending = taskStore.list({ status: 'retrying', limit: 1000 });
+  for (const task of pending) {
+    armRetry(task.taskId, Math.max(0, (task.nextRetryAt || 0) - Date.now()));
+  }
+  if (pending.length > 0) {
+    pluginApi.logger.info(`[cluster-hub] 恢复 ${pending.length} 个待重试任务`);
+  }
+}
+
+async function runRetry(taskId: string): Promise<void> {
+  const task = taskStore.get(taskId);
+  if (!task || task.status !== 'retrying' || !task.attempts) return;
+
+  const nodeId = await pickRetryNode(task);
+  const nodeName = isSelfNode(nodeId) ? client.getConfig().nodeName : resolveNodeName(nodeId);
+  const attemptNo = task.attempts.length + 1;
+  const wireId = `${taskId}#${attemptNo}`;
+
+  taskStore.addAttempt(taskId, { attempt: attemptNo, wireId, nodeId, nodeName, status: 'sent', sentAt: Date.now() });
+  const updated = taskStore.updateStatus(taskId, {
+    status: 'sent',
+    targetNodeId: nodeId,
+    targetNodeName: nodeName,
+    nextRetryAt: undefined,
+  });
+  if (updated) broadcast('hub.task.update', { task: updated });
+
+  const moved = nodeId !== task.targetNodeId ? `，改派到 ${nodeName || nodeId}` : '';
+  pluginApi.logger.info(`[cluster-hub] 任务 ${taskId} 第 ${attemptNo} 次尝试${moved}`);
+  dispatchAttempt(task, nodeId, wireId);
+}
+
+/**
+ * 选择重试目标：未开启 failover 时沿用当前节点；
+ * 开启时优先选未尝试过、具备相同能力的在线节点，没有则回到尝试过的节点
+ */
+async function pickRetryNode(task: StoredTask): Promise<string> {
+  const current = task.targetNodeId;
+  if (!task.retry?.failover) return current;
+
+  let nodes: HubNode[];
+  try { nodes = await client.fetchNodes(); } catch { nodes = client.getCachedNodes(); }
+
+  const first = task.attempts?.[0]?.nodeId || current;
+  const requires = task.selector?.requires ?? nodes.find(n => n.id === first)?.capabilities ?? [];
+  const tried = [...new Set((task.attempts || []).map(a => a.nodeId))];
+  const strategy = task.selector?.strategy;
+
+  const fresh = selectNode(nodes, { requires, strategy, exclude: tried });
+  if (fresh) return fresh.id;
+  const any = selectNode(nodes, { requires, strategy });
+  return any?.id || current;
+}
+
+/** 目标节点下线：对配置了 offline 重试的在途任务立即安排重试 */
+function handleTargetOffline(nodeId: string): void {
+  const inflight = taskStore.list({ nodeId, limit: 1000 })
+    .filter(t => t.status === 'sent' || t.status === 'queued' || t.status === 'running');
+  for (const task of inflight) {
+    const current = task.attempts?.[task.attempts.length - 1];
+    if (!current || current.nodeId !== nodeId) continue;
+    taskStore.updateAttempt(task.taskId, current.wireId, { status: 'offline', completedAt: Date.now(), error: '目标节点离线' });
+    if (shouldRetry(task, 'offline')) {
+      scheduleRetry(task, '目标节点离线');
+    }
+  }
+}
+
+function isOpenTask(task: StoredTask): boolean {
+  return task.status === 'sent' || task.status === 'queued' || task.status === 'running' || task.status === 'retrying';
+}
+
+// ============================================================================
+// 任务取消 — 通知子节点中止，收到确认（或确认超时）后才结束任务
+// ============================================================================
+
+/** 子节点迟迟不确认取消时的兜底时长 */
+const CANCEL_CONFIRM_TIMEOUT_MS = 30_000;
+
+/** 请求取消任务，返回是否需要等待子节点确认 */
+function requestCancel(task: StoredTask, reason: string): boolean {
+  // 等待重试中的任务没有在途尝试，直接结束
+  if (task.status === 'retrying') {
+    clearRetry(task.taskId);
+    finalizeCancelled(task, reason);
+    return false;
+  }
+  if (task.source !== 'remote' || !isOpenTask(task)) return false;
+
+  client.sendWS({
+    type: 'task_cancel' as any,
+    id: currentWireId(task),
+    to: task.targetNodeId,
+    payload: { reason },
+  });
+  const updated = taskStore.updateStatus(task.taskId, {
+    cancelRequestedAt: task.cancelRequestedAt || Date.now(),
+    cancelReason: reason,
+  });
+  pluginApi.logger.info(`[cluster-hub] 已请求取消任务 ${task.taskId}，等待 ${task.targetNodeName || task.targetNodeId} 确认`);
+  if (updated) broadcast('hub.task.update', { task: updated });
+  return true;
+}
+
+function finalizeCancelled(task: StoredTask, reason: string): void {
+  clearRetry(task.taskId);
+  if (task.attempts) {
+    taskStore.updateAttempt(task.taskId, currentWireId(task), { status: 'cancelled', completedAt: Date.now(), error: reason });
+  }
+  const completedAt = Date.now();
+  const updated = taskStore.updateStatus(task.taskId, {
+    status: 'cancelled',
+    error: reason,
+    completedAt,
+    durationMs: completedAt - task.sentAt,
+    queuePosition: undefined,
+    nextRetryAt: undefined,
+  });
+  pluginApi.logger.info(`[cluster-hub] 任务 ${task.taskId} 已取消: ${reason}`);
+  if (updated) broadcast('hub.task.update', { task: updated });
+}
+
+/** 当前尝试的 WS 消息 ID（取消等需要发给子节点的消息使用） */
+function currentWireId(task: StoredTask): string {
+  return task.attempts?.[task.attempts.length - 1]?.wireId || task.taskId;
+}
+
+// ============================================================================
+// 任务超时扫描 — 发出的任务超过截止时间仍未结束时标记 timeout
+// ============================================================================
+
+const TIMEOUT_SWEEP_INTERVAL_MS = 5_000;
+
+let timeoutSweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/** 启动超时扫描；截止时间持久化在 StoredTask 上，重启后继续生效 */
+function startTimeoutSweeper(): void {
+  stopTimeoutSweeper();
+  sweepTaskDeadlines();
+  timeoutSweepTimer = setInterval(sweepTaskDeadlines, TIMEOUT_SWEEP_INTERVAL_MS);
+}
+
+function stopTimeoutSweeper(): void {
+  if (timeoutSweepTimer) {
+    clearInterval(timeoutSweepTimer);
+    timeoutSweepTimer = null;
+  }
+}
+
+function sweepTaskDeadlines(): void {
+  const now = Date.now();
+  const config = client.getConfig();
+  for (const task of taskStore.listOpen()) {
+    if (task.cancelRequestedAt) {
+      if (now - task.cancelRequestedAt >= CANCEL_CONFIRM_TIMEOUT_MS) {
+        finalizeCancelled(task, `${task.cancelReason || '已取消'}（子节点未确认）`);
+      }
+      continue;
+    }
+    // 旧版本记录没有 deadlineAt，按确认 / 发出时间推算
+    const deadline = task.deadlineAt ?? (task.status === 'queued'
+      ? (task.ackedAt ?? task.sentAt) + config.taskQueueTimeoutMs
+      : task.sentAt + (task.timeoutMs || config.taskTimeoutMs));
+    if (now < deadline) continue;
+    expireTask(task, config.cancelOnTimeout);
+  }
+}
+
+function expireTask(task: StoredTask, cancelTarget: boolean): void {
+  const config = client.getConfig();
+  const reason = task.status === 'queued'
+    ? `任务排队超时 (${Math.round(config.taskQueueTimeoutMs / 1000)}s 未开始执行)`
+    : `任务超时 (${Math.round((task.timeoutMs || config.taskTimeoutMs) / 1000)}s 无进展)`;
+  const wireId = currentWireId(task);
+
+  if (task.attempts) {
+    taskStore.updateAttempt(task.taskId, wireId, { status: 'timeout', completedAt: Date.now(), error: reason });
+  }
+  if (cancelTarget && task.source === 'remote') {
+    client.sendWS({
+      type: 'task_cancel' as any,
+      id: wireId,
+      to: task.targetNodeId,
+      payload: { reason },
+    });
+  }
+
+  if (shouldRetry(task, 'timeout')) {
+    scheduleRetry(task, reason);
+    return;
+  }
+
+  const completedAt = Date.now();
+  const updated = taskStore.updateStatus(task.taskId, {
+    status: 'timeout',
+    error: reason,
+    completedAt,
+    durationMs: completedAt - task.sentAt,
+    deadlineAt: undefined,
+    queuePosition: undefined,
+  });
+  pluginApi.logger.warn(`[cluster-hub] 任务 ${task.taskId} → ${task.targetNodeName || task.targetNodeId} ${reason}`);
+  if (updated) broadcast('hub.task.update', { task: updated });
+}
+
+// ============================================================================
+// 任务对账 — 重连 / 重启后核对在途任务的实际状态
+// ============================================================================
+
+/** 刚发出的任务可能还在路上，对账时跳过 */
+const RECONCILE_GRACE_MS = 10_000;
+
+/** 附件分块未送达、task 帧尚未发出的尝试（wireId），对账时不受宽限期限制 */
+const undeliveredTasks = new Set<string>();
+
+/** 父节点：向目标节点查询在途任务状态（不传 nodeId 则查询全部目标） */
+function requestTaskSync(nodeId?: string): void {
+  const cutoff = Date.now() - RECONCILE_GRACE_MS;
+  const byNode = new Map<string, string[]>();
+  for (const task of taskStore.listOpen()) {
+    if (task.source !== 'remote' || (nodeId && task.targetNodeId !== nodeId)) continue;
+    const current = task.attempts?.[task.attempts.length - 1];
+    const wireId = currentWireId(task);
+    if ((current?.sentAt ?? task.sentAt) > cutoff && !undeliveredTasks.has(wireId)) continue;
+    const ids = byNode.get(task.targetNodeId) || [];
+    ids.push(wireId);
+    byNode.set(task.targetNodeId, ids);
+  }
+  for (const [target, taskIds] of byNode) {
+    const payload: TaskSyncPayload = { op: 'query', taskIds };
+    client.sendWS({ type: 'task_sync', id: randomUUID(), to: target, payload });
+    pluginApi.logger.info(`[cluster-hub] 任务对账: 查询 ${target} 的 ${taskIds.length} 个在途任务`);
+  }
+}
+
+function handleTaskSync(msg: WSMessage): void {
+  const payload: TaskSyncPayload = msg.payload || {};
+  if (payload.op === 'query') {
+    answerTaskSync(msg);
+  } else if (payload.op === 'report') {
+    for (const entry of payload.tasks || []) applyTaskSyncEntry(entry, msg.from || '');
+  }
+}
+
+/** 子节点：回答父节点的对账查询 */
+function answerTaskSync(msg: WSMessage): void {
+  const taskIds: string[] = msg.payload?.taskIds || [];
+  sendTaskReport(msg.from!, msg.id, taskIds.map(taskId => describeReceivedTask(taskId, msg.from!)));
+}
+
+/** 子节点：重连后主动补发产物未送达的结果（父节点对账有宽限期，刚结束的任务等不到查询） */
+function reportUndeliveredResults(): void {
+  let dirs: string[];
+  try { dirs = fs.readdirSync(TASK_OUTPUT_DIR); } catch { return; }
+  const byParent = new Map<string, TaskSyncEntry[]>();
+  for (const taskId of dirs) {
+    const received = receivedTaskStore.get(taskId);
+    if (received?.status !== 'completed' || taskQueue.describe(taskId)) continue;
+    const entries = byParent.get(received.fromNodeId) || [];
+    entries.push(describeReceivedTask(taskId, received.fromNodeId));
+    byParent.set(received.fromNodeId, entries);
+  }
+  for (const [parent, tasks] of byParent) sendTaskReport(parent, randomUUID(), tasks);
+}
+
+/** 子节点：发送对账报告；产物未送达的任务随报告重发产物，此时报告同样不进发件箱 */
+function sendTaskReport(to: string, id: string, tasks: TaskSyncEntry[]): void {
+  const resent = tasks.filter(entry => entry.status === 'completed' && resendOutputArtifacts(entry, to));
+  const payload: TaskSyncPayload = { op: 'report', tasks };
+  const sent = client.sendWS({ type: 'task_sync', id, to, payload }, resent.length > 0 ? { queue: false } : undefined);
+  if (sent) for (const entry of resent) cleanupTaskFiles(entry.taskId);
+}
+
+/** 子节点：输出目录仍在说明产物未送达，重新分块发送并把产物附在对账条目上 */
+function resendOutputArtifacts(entry: TaskSyncEntry, to: string): boolean {
+  if (!fs.existsSync(path.join(TASK_OUTPUT_DIR, entry.taskId))) return false;
+  let delivered = true;
+  const packed = packOutputArtifacts(entry.taskId, chunk => {
+    if (delivered && !sendArtifactChunk(entry.taskId, to, chunk)) delivered = false;
+  });
+  if (!delivered) {
+    // 仍未送达：报告为执行中，等下次对账
+    entry.status = 'running';
+    delete entry.result;
+    return false;
+  }
+  if (packed.artifacts.length > 0) entry.artifacts = packed.artifacts;
+  if (packed.error) entry.result = `${entry.result || ''}\n\n⚠️ ${packed.error}`;
+  pluginApi.logger.info(`[cluster-hub] 任务 ${entry.taskId} 产物随对账重发`);
+  return true;
+}
+
+/**
+ * 子节点：任务的实际状态，队列中已没有的未完成任务视为丢失
+ * 只向下发该任务的节点透露状态，其他节点的查询一律视为没有记录（也不会因此把任务标记丢失）
+ */
+function describeReceivedTask(taskId: string, requester: string): TaskSyncEntry {
+  const received = receivedTaskStore.get(taskId);
+  if (!received || received.fromNodeId !== requester) return { taskId, status: 'unknown' };
+
+  const live = taskQueue.describe(taskId);
+  if (live) return { taskId, ...live };
+  switch (received.status) {
+    case 'completed':
+    case 'failed':
+      return { taskId, status: received.status, result: received.result, error: received.error };
+    case 'cancelled':
+    case 'lost':
+      return { taskId, status: received.status, error: received.error };
+    default:
+      receivedTaskStore.markLost(taskId, '节点重启，任务已中断');
+      return { taskId, status: 'lost', error: '节点重启，任务已中断' };
+  }
+}
+
+/** 子节点：启动时把队列中已不存在的未完成任务标记丢失，主动告知父节点 */
+function reportOrphanedTasks(): void {
+  const byParent = new Map<string, TaskSyncEntry[]>();
+  for (const task of receivedTaskStore.listOpen()) {
+    if (taskQueue.describe(task.taskId)) continue;
+    const entries = byParent.get(task.fromNodeId) || [];
+    entries.push(describeReceivedTask(task.taskId, task.fromNodeId));
+    byParent.set(task.fromNodeId, entries);
+  }
+  for (const [parent, tasks] of byParent) {
+    const payload: TaskSyncPayload = { op: 'report', tasks };
+    client.sendWS({ type: 'task_sync', id: randomUUID(), to: parent, payload });
+    pluginApi.logger.warn(`[cluster-hub] ${tasks.length} 个接收任务在重启后丢失，已通知 ${parent}`);
+  }
+}
+
+/** 父节点：按子节点上报的状态修正本地记录，只接受任务当前目标节点的报告 */
+function applyTaskSyncEntry(entry: TaskSyncEntry, from: string): void {
+  const found = taskStore.findByWireId(entry.taskId);
+  if (!found || found.stale) return;
+  const task = found.task;
+  if (task.targetNodeId !== from) {
+    pluginApi.logger.warn(`[cluster-hub] 忽略 ${from} 对任务 ${entry.taskId} 的对账报告：不是该任务的目标节点`);
+    return;
+  }
+  if (task.status !== 'sent' && task.status !== 'queued' && task.status !== 'running') return;
+
+  switch (entry.status) {
+    case 'queued':
+    case 'running':
+      handleTaskAck({ type: 'task_status', id: entry.taskId, payload: { status: entry.status, position: entry.position } });
+      break;
+    case 'completed':
+    case 'failed':
+      handleAttemptResult(entry.taskId, { success: entry.status === 'completed', result: entry.result, error: entry.error, artifacts: entry.artifacts });
+      break;
+    case 'cancelled':
+      finalizeCancelled(task, entry.error || '已取消');
+      break;
+    default:
+      if (entry.status === 'unknown' && task.status === 'sent' && task.attachmentPaths?.length) {
+        // 带附件的任务帧不进发件箱，子节点没收到时原样重发
+        if (sendTaskFrames(task, task.targetNodeId, entry.taskId)) {
+          pluginApi.logger.info(`[cluster-hub] 任务 ${entry.taskId} 对账时重发 → ${task.targetNodeId}`);
+        }
+        break;
+      }
+      markTaskLost(task, entry.error || '目标节点没有该任务的记录');
+  }
+}
+
+/** 任务无法恢复：按策略重试，否则标记 lost */
+function markTaskLost(task: StoredTask, reason: string): void {
+  if (task.attempts) {
+    taskStore.updateAttempt(task.taskId, currentWireId(task), { status: 'lost', completedAt: Date.now(), error: reason });
+  }
+  if (shouldRetry(task, 'lost')) {
+    scheduleRetry(task, reason);
+    return;
+  }
+  const completedAt = Date.now();
+  const updated = taskStore.updateStatus(task.taskId, {
+    status: 'lost',
+    error: reason,
+    completedAt,
+    durationMs: completedAt - task.sentAt,
+    queuePosition: undefined,
+  });
+  pluginApi.logger.warn(`[cluster-hub] 任务 ${task.taskId} 丢失: ${reason}`);
+  if (updated) broadcast('hub.task.update', { task: updated });
+}
+
+/** 重启后：本地执行的任务随进程一起中断，无法恢复 */
+function reconcileLocalTasks(): void {
+  for (const task of taskStore.listOpen()) {
+    if (task.source === 'local') markTaskLost(task, '插件重启，本地执行已中断');
+  }
+}
+
+/** 尝试记录摘要（hub_wait_task 等输出） */
+function formatAttempts(task: StoredTask): string {
+  if (!task.attempts || task.attempts.length <= 1) return '';
+  const lines = task.attempts.map(a => {
+    const node = a.nodeName || a.nodeId.slice(0, 8);
+    const err = a.error ? `: ${a.error.slice(0, 80)}` : '';
+    return `  #${a.attempt} ${node} → ${a.status}${err}`;
+  });
+  return `尝试记录 (${task.attempts.length}/${task.retry?.maxAttempts ?? task.attempts.length}):\n${lines.join('\n')}`;
+}
+
+function handleChatReply(msg: WSMessage): void {
+  const fromNodeId = msg.from!;
+  const { messages: replyMsgs, role, done, content } = msg.payload || {};
+
+  // 提取文本内容
+  let text = '';
+  if (replyMsgs && Array.isArray(replyMsgs)) {
+    text = replyMsgs
+      .filter((m: any) => m.role === 'assistant')
+      .map((m: any) => typeof m.content === 'string' ? m.content : JSON.stringify(m.content))
+      .join('\n');
+  } else if (content) {
+    text = typeof content === 'string' ? content : JSON.stringify(content);
+  }
+
+  if (text) {
+    // delta 和 done 都写入 chatStore + 广播
+    const message = chatStore.appendMessage(fromNodeId, {
+      role: 'assistant',
+      content: text,
+    });
+    broadcast('hub.chat.message', {
+      nodeId: fromNodeId,
+      message,
+      done: !!done,
+    });
+  }
+}
+
+function handleNodeEvent(action: string, payload: any): void {
   const nodeId = payload?.nodeId;
   if (!nodeId) return;
 
@@ -837,6 +2274,69 @@ function handleNodeEvent(action: string, payload: any): void {
   broadcast('hub.node.event', nodeEvent);
 }
 
+// ============================================================================
+// 局域网直连
+// ============================================================================
+
+/** 已注册且 lanEnabled 时启动；端口被占用等失败只告警，消息照常走 Hub */
+async function startLanPeering(): Promise<void> {
+  const cfg = client.getConfig();
+  if (!cfg.lanEnabled || !client.isRegistered() || lan) return;
+  const peering = new LanPeering({
+    identity: () => {
+      const { nodeId, clusterId, token } = client.getConfig();
+      return nodeId && clusterId && token ? { nodeId, clusterId, token } : null;
+    },
+    port: cfg.lanPort,
+    discoveryPort: cfg.lanDiscoveryPort,
+    staticPeers: cfg.lanPeers || [],
+    logger: pluginApi.logger,
+    sendViaHub: (to, payload) => client.sendWS({ type: 'direct', id: randomUUID(), to, payload, timestamp: Date.now() }, { queue: false }),
+    onMessage: (msg) => client.deliverLocal(msg),
+    onPathChange: (nodeId, path) => broadcast('hub.node.path', { nodeId, path }),
+  });
+  try {
+    await peering.start();
+    lan = peering;
+  } catch (err: any) {
+    pluginApi.logger.warn(`[cluster-hub] 局域网直连启动失败，消息全部经 Hub 中转: ${err.message}`);
+    await peering.stop().catch(() => { });
+  }
+}
+
+/** 本节点到目标节点的消息路径 */
+function nodePath(nodeId: string): 'local' | 'lan' | 'hub' {
+  if (nodeId === client.getConfig().nodeId) return 'local';
+  return lan?.pathTo(nodeId) ?? 'hub';
+}
+
+// ============================================================================
+// 内置 Hub
+// ============================================================================
+
+/** hubServerEnabled 时启动，不要求本节点已注册（根节点要先有 Hub 才能注册）；端口被占用只告警 */
+async function startHubServer(): Promise<void> {
+  const cfg = client.getConfig();
+  if (!cfg.hubServerEnabled || hubServer) return;
+  const server = new DevHub({
+    port: cfg.hubServerPort,
+    host: cfg.hubServerHost,
+    adminKey: cfg.adminKey,
+    dataDir: DATA_DIR,
+    singleCluster: true,
+    label: '内置 Hub',
+    logger: pluginApi.logger,
+  });
+  try {
+    const url = await server.start();
+    hubServer = server;
+    pluginApi.logger.info(`[cluster-hub] 内置 Hub 已启动: ${url}`);
+  } catch (err: any) {
+    pluginApi.logger.error(`[cluster-hub] 内置 Hub 启动失败: ${err.message}`);
+    await server.stop().catch(() => { });
+  }
+}
+
 // ============================================================================
 // 配置持久化
 // ============================================================================
@@ -844,14 +2344,35 @@ function handleNodeEvent(action: string, payload: any): void {
 function resolveConfig(pluginConfig: any): HubPluginConfig {
   const defaults: HubPluginConfig = {
     hubUrl: 'https://openclaw-hub.hpplay.com.cn',
+    transport: 'websocket',
     capabilities: ['coding', 'shell'],
     heartbeatIntervalMs: 30000,
+    heartbeatMaxMissed: 3,
     reconnectIntervalMs: 5000,
+    reconnectMaxDelayMs: 120000,
+    reconnectBackoffFactor: 2,
     taskTimeoutMs: 300000,
+    taskQueueTimeoutMs: 3600000,
+    cancelOnTimeout: true,
+    taskPriorityAgingMs: 60000,
     autoConnect: true,
     selfTaskMode: 'local',
+    outboxMaxSize: 500,
+    outboxTtlMs: 3600000,
+    fileAllowDirs: [],
+    fileMaxBytes: 512 * 1024 * 1024,
+    lanEnabled: false,
+    lanPort: 0,
+    lanDiscoveryPort: 18793,
+    lanPeers: [],
+    hubServerEnabled: false,
+    hubServerPort: DEV_HUB_DEFAULT_PORT,
+    hubServerHost: '0.0.0.0',
   };
-  return { ...defaults, ...pluginConfig };
+  const config = { ...defaults, ...pluginConfig };
+  // 内置 Hub 的根节点默认连本机
+  if (config.hubServerEnabled && !pluginConfig?.hubUrl) config.hubUrl = `http://127.0.0.1:${config.hubServerPort}`;
+  return config;
 }
 
 async function persistConfig(): Promise<void> {
@@ -871,7 +2392,7 @@ async function persistConfig(): Promise<void> {
 
     const fullPatch = { plugins: { entries: { 'cluster-hub': { config: patchBody } } } };
     const ocConfig = pluginApi.runtime.config.loadConfig();
-    const configPath = path.join(process.env.HOME || '/tmp', '.openclaw', 'openclaw.json');
+    const configPath = path.join(OPENCLAW_DIR, 'openclaw.json');
     const raw = fs.readFileSync(configPath, 'utf-8');
     const json = JSON.parse(raw);
     deepMerge(json, fullPatch);
@@ -898,7 +2419,7 @@ function deepMerge(target: any, source: any): void {
 // ============================================================================
 
 function handleIncomingTask(msg: WSMessage): void {
-  const instruction = msg.payload?.task || msg.payload?.instruction || '';
+  let instruction = msg.payload?.task || msg.payload?.instruction || '';
   const fromNodeId = msg.from || '';
   const taskId = msg.id;
   const maxConcurrent = msg.payload?.config?.maxConcurrent;
@@ -913,7 +2434,22 @@ function handleIncomingTask(msg: WSMessage): void {
   const fromName = resolveNodeName(fromNodeId);
   receivedTaskStore.recordReceived(taskId, fromNodeId, fromName, instruction);
 
-  taskQueue.enqueue(taskId, fromNodeId, instruction, msg.payload?.priority || 'normal');
+  // 输入附件落盘（分块已先行写入），指令中附上本地路径和输出目录；别的节点先行写入的分块不予采用
+  const pending = pendingInputs.get(taskId);
+  pendingInputs.delete(taskId);
+  if (pending && pending.from !== fromNodeId) inputStore.remove(taskId);
+  const attachments: TaskArtifact[] = Array.isArray(msg.payload?.attachments) ? msg.payload.attachments : [];
+  const inputPaths: string[] = [];
+  for (const attachment of attachments) {
+    try {
+      inputPaths.push(inputStore.save(taskId, attachment).path);
+    } catch (err: any) {
+      pluginApi.logger.warn(`[cluster-hub] 任务 ${taskId} 附件保存失败: ${err.message}`);
+    }
+  }
+  instruction = decorateInstruction(instruction, inputPaths, path.join(TASK_OUTPUT_DIR, taskId), msg.payload?.collectArtifacts === true);
+
+  taskQueue.enqueue(taskId, fromNodeId, instruction, parsePriority(msg.payload?.priority) || 'normal');
 }
 
 // ============================================================================
@@ -929,20 +2465,71 @@ const plugin = {
     pluginApi = api;
     const config = resolveConfig(api.pluginConfig);
     client = new HubClient(config, api.logger);
-    taskQueue = new TaskQueue();
-
     // 初始化持久化存储
     taskStore = new TaskStore(DATA_DIR);
     receivedTaskStore = new ReceivedTaskStore(DATA_DIR);
     chatStore = new ChatStore(DATA_DIR);
     nodeEventStore = new NodeEventStore(DATA_DIR);
+    outboxStore = new OutboxStore(DATA_DIR, config.outboxMaxSize);
+    taskQueueStore = new TaskQueueStore(DATA_DIR);
+    artifactStore = new ArtifactStore(path.join(DATA_DIR, 'artifacts'));
+    inputStore = new ArtifactStore(path.join(DATA_DIR, 'task-input'));
+    fileTransferStore = new FileTransferStore(DATA_DIR);
+    fileTransfers = new FileTransferManager({
+      store: fileTransferStore,
+      logger: api.logger,
+      baseDir: path.join(DATA_DIR, 'files'),
+      // 分块是时效性消息，断线时不进发件箱，重连后按 offer 续传
+      send: (to, frame) => client.sendWS({ type: 'file', id: frame.transferId, to, payload: frame }, { queue: false }),
+      limits: () => ({ allowDirs: client.getConfig().fileAllowDirs || [], maxBytes: client.getConfig().fileMaxBytes }),
+      resolveNodeName,
+      onUpdate: (transfer) => broadcast('hub.file.update', { transfer }),
+    });
+    workflowStore = new WorkflowStore(DATA_DIR);
+    workflowRunner = new WorkflowRunner({
+      store: workflowStore,
+      logger: api.logger,
+      dispatch: async (step, instruction) => {
+        const taskId = await sendTaskAndTrack(targetFromParams(step)!, instruction, {
+          priority: parsePriority(step.priority),
+          retry: parseRetryPolicy(step.retry),
+          timeoutMs: parseTimeoutMs(step.timeoutMs),
+        });
+        return { taskId, nodeId: taskStore.get(taskId)?.targetNodeId };
+      },
+      getTask: (taskId) => taskStore.get(taskId),
+      cancelTask: (taskId, reason) => {
+        const task = taskStore.get(taskId);
+        if (task) requestCancel(task, reason);
+      },
+      onUpdate: (run) => broadcast('hub.workflow.update', { run }),
+    });
+    // 步骤任务结束时推进工作流（定时检查只作兜底）；延后一拍，避免在工作流自身取消任务时重入
+    taskStore.on('done', () => setImmediate(() => workflowRunner.tick()));
+    scheduleStore = new ScheduleStore(DATA_DIR);
+    scheduler = new Scheduler({
+      store: scheduleStore,
+      logger: api.logger,
+      fire: (schedule) => sendTaskAndTrack(schedule.target, schedule.instruction, {
+        priority: schedule.priority,
+        retry: schedule.retry,
+        timeoutMs: schedule.timeoutMs,
+      }),
+      onUpdate: (schedule) => broadcast('hub.schedule.update', { schedule }),
+    });
+    taskQueue = new TaskQueue(taskQueueStore);
+    client.setOutbox(outboxStore);
+    client.heartbeatProvider = collectHeartbeatMetrics;
     api.logger.info(`[cluster-hub] 数据目录: ${DATA_DIR}`);
 
     // Hub WS 事件 → 持久化 + 广播
     client.onTaskReceived = (msg) => handleIncomingTask(msg);
     client.on('task_ack', (msg) => handleTaskAck(msg));
     client.on('task_status', (msg) => handleTaskAck(msg)); // 复用 ack 处理
-    client.on('task_cancel', (msg) => taskQueue.cancel(msg.id));
+    client.on('task_cancel', (msg) => taskQueue.cancel(msg.id, msg.payload?.reason));
+    client.on('task_sync', (msg) => handleTaskSync(msg));
+    client.on('task_artifact', (msg) => handleArtifactChunk(msg));
+    client.on('file', (msg) => fileTransfers.handleFrame(msg.from || '', msg.payload));
     client.on('result', (msg) => handleTaskResult(msg));
     client.on('chat', (msg) => {
       if (msg.payload?.role === 'user') {
@@ -955,9 +2542,32 @@ const plugin = {
     // 节点状态事件 → 持久化 + 广播
     client.onNodeOnline = (nodeId: string) => {
       handleNodeEvent('node_online', { nodeId });
+      // 子节点可能刚重启，核对发给它的在途任务
+      requestTaskSync(nodeId);
     };
     client.onNodeOffline = (nodeId: string) => {
       handleNodeEvent('node_offline', { nodeId });
+      handleTargetOffline(nodeId);
+    };
+
+    // 重连后核对在途任务（断线期间结果可能丢失）
+    client.onConnected = () => {
+      requestTaskSync();
+      reportUndeliveredResults();
+      fileTransfers.resumeAll();
+      // 密钥交换依赖 Hub，重连后立即宣告
+      lan?.announce();
+    };
+
+    // 局域网直连：密钥经 Hub 交换，直连收到的消息与 Hub 消息同样处理
+    client.on('direct', (msg) => {
+      if (msg.payload?.event === 'lan_key') lan?.handleKey(msg.from || '', msg.payload);
+    });
+    client.directRoute = (msg) => lan?.send(msg) ?? false;
+
+    // 连接状态变化 → 广播给控制台
+    client.onStateChange = (info) => {
+      broadcast('hub.connection.state', info);
     };
 
     // Hub 下发共享配置 → 注册飞书工具
@@ -990,7 +2600,7 @@ const plugin = {
         const status = client.getStatus();
         let nodes: any[] = [];
         if (status.registered) {
-          nodes = await client.fetchNodes().catch(() => []);
+          nodes = (await client.fetchNodes().catch(() => [])).map(n => ({ ...n, path: nodePath(n.id) }));
         }
         respond(true, {
           ...status,
@@ -998,6 +2608,9 @@ const plugin = {
           changeSeq: client.changeSeq,
           nodes,
           taskSummary: taskStore.summary(),
+          gateway: gatewayConn?.stats() ?? null,
+          lan: lan?.status() ?? null,
+          hubServer: hubServer?.status() ?? null,
         });
       } catch (err: any) {
         respond(false, { message: err.message });
@@ -1009,7 +2622,7 @@ const plugin = {
       captureBroadcast(context);
       try {
         const nodes = await client.fetchNodes(true);
-        respond(true, { nodes });
+        respond(true, { nodes: nodes.map(n => ({ ...n, path: nodePath(n.id) })) });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
@@ -1201,18 +2814,25 @@ const plugin = {
     // 任务 RPC — hub.task.*
     // ================================================================
 
-    // hub.task.send — 发送任务（异步）
+    // hub.task.send — 发送任务（异步）；nodeId 或 requires/strategy 能力选择器二选一
     api.registerGatewayMethod('hub.task.send', async ({ context, respond, params }: any) => {
       captureBroadcast(context);
       try {
-        const nodeId = params?.nodeId;
+        const target = targetFromParams(params);
         const instruction = params?.instruction;
-        if (!nodeId || !instruction) {
-          respond(false, { message: '需要 nodeId 和 instruction' });
+        if (!target || !instruction) {
+          respond(false, { message: '需要 nodeId（或 requires）和 instruction' });
           return;
         }
-        const taskId = await sendTaskAndTrack(nodeId, instruction);
-        respond(true, { taskId });
+        const taskId = await sendTaskAndTrack(target, instruction, {
+          priority: parsePriority(params?.priority),
+          retry: parseRetryPolicy(params?.retry),
+          timeoutMs: parseTimeoutMs(params?.timeoutMs),
+          attachments: parseAttachments(params?.attachments),
+          collectArtifacts: params?.collectArtifacts === true,
+        });
+        const task = taskStore.get(taskId);
+        respond(true, { taskId, nodeId: task?.targetNodeId, nodeName: task?.targetNodeName, selector: task?.selector });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
@@ -1271,6 +2891,43 @@ const plugin = {
       }
     });
 
+    // hub.task.wait — 阻塞到任务结束（mode=any 时任一结束即返回），超时返回当前状态
+    api.registerGatewayMethod('hub.task.wait', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const taskIds: string[] = Array.isArray(params?.taskIds) ? params.taskIds : params?.taskId ? [params.taskId] : [];
+        if (taskIds.length === 0) { respond(false, { message: '需要 taskId 或 taskIds' }); return; }
+        const timeoutMs = Math.min(parseTimeoutMs(params?.timeoutMs) || 60_000, 600_000);
+        const { pending } = await taskStore.waitFor(taskIds, timeoutMs, params?.mode === 'any' ? 'any' : 'all');
+        respond(true, {
+          tasks: taskIds.map(id => taskStore.get(id)),
+          pending,
+          timedOut: params?.mode === 'any' ? pending.length === taskIds.length : pending.length > 0,
+        });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.task.artifacts — 任务产物列表；指定 name 时返回 base64 内容
+    api.registerGatewayMethod('hub.task.artifacts', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const task = taskStore.get(params?.taskId);
+        if (!task) { respond(false, { message: '任务不存在' }); return; }
+        const artifacts = artifactStore.list(task.taskId);
+        if (params?.name) {
+          const artifact = artifacts.find(a => a.name === params.name);
+          if (!artifact) { respond(false, { message: `产物不存在: ${params.name}` }); return; }
+          respond(true, { artifact, data: artifactStore.read(task.taskId, artifact.name).toString('base64') });
+          return;
+        }
+        respond(true, { taskId: task.taskId, artifacts, attachments: task.attachments || [] });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
     // hub.task.cancel — 取消任务
     api.registerGatewayMethod('hub.task.cancel', async ({ context, respond, params }: any) => {
       captureBroadcast(context);
@@ -1278,26 +2935,16 @@ const plugin = {
         const taskId = params?.taskId;
         if (!taskId) { respond(false, { message: '需要 taskId' }); return; }
 
+        const reason = params?.reason || '用户取消';
+
         // 本地队列取消
-        const localCancelled = taskQueue.cancel(taskId);
+        const localCancelled = taskQueue.cancel(taskId, reason);
 
-        // 远程取消（发 cancel 消息给子节点）
+        // 远程取消：通知子节点，收到确认后任务才变为 cancelled
         const task = taskStore.get(taskId);
-        if (task && task.source === 'remote' && (task.status === 'sent' || task.status === 'queued' || task.status === 'running')) {
-          client.sendWS({
-            type: 'task_cancel' as any,
-            id: taskId,
-            to: task.targetNodeId,
-            payload: { reason: '用户取消' },
-          });
-          const updated = taskStore.updateStatus(taskId, { status: 'cancelled', completedAt: Date.now() });
-          if (updated) {
-            updated.durationMs = updated.completedAt! - updated.sentAt;
-            broadcast('hub.task.update', { task: updated });
-          }
-        }
+        const pending = task ? requestCancel(task, reason) : false;
 
-        respond(true, { cancelled: localCancelled || !!task });
+        respond(true, { cancelled: localCancelled || !!task, pending, task: taskStore.get(taskId) });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
@@ -1308,6 +2955,8 @@ const plugin = {
       captureBroadcast(context);
       try {
         const cleared = taskStore.clearCompleted(params?.before);
+        // 已清理任务的产物一并删除
+        artifactStore.prune(new Set(taskStore.list().map(t => t.taskId)));
         respond(true, { cleared });
       } catch (err: any) {
         respond(false, { message: err.message });
@@ -1324,12 +2973,19 @@ const plugin = {
         }
         const results: any[] = [];
         for (const t of tasks) {
-          if (!t.nodeId || !t.instruction) continue;
+          const target = targetFromParams(t);
+          if (!target || !t.instruction) continue;
           try {
-            const taskId = await sendTaskAndTrack(t.nodeId, t.instruction);
-            results.push({ nodeId: t.nodeId, taskId, ok: true });
+            const taskId = await sendTaskAndTrack(target, t.instruction, {
+              priority: parsePriority(t.priority),
+              retry: parseRetryPolicy(t.retry ?? params?.retry),
+              timeoutMs: parseTimeoutMs(t.timeoutMs ?? params?.timeoutMs),
+              attachments: parseAttachments(t.attachments),
+              collectArtifacts: (t.collectArtifacts ?? params?.collectArtifacts) === true,
+            });
+            results.push({ nodeId: taskStore.get(taskId)?.targetNodeId || t.nodeId, taskId, ok: true });
           } catch (err: any) {
-            results.push({ nodeId: t.nodeId, ok: false, error: err.message });
+            results.push({ nodeId: t.nodeId, requires: t.requires, ok: false, error: err.message });
           }
         }
         respond(true, { results });
@@ -1338,6 +2994,24 @@ const plugin = {
       }
     });
 
+    // hub.task.map — 同一指令扇出到一组节点，可选本地汇总
+    api.registerGatewayMethod('hub.task.map', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        if (!params?.instruction) { respond(false, { message: '需要 instruction' }); return; }
+        const result = await runMap(params.instruction, parseMapSelector(params), {
+          priority: parsePriority(params?.priority),
+          retry: parseRetryPolicy(params?.retry),
+          timeoutMs: parseTimeoutMs(params?.timeoutMs),
+          reduce: params?.reduce,
+          wait: params?.wait,
+        });
+        respond(true, result);
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
     // ================================================================
     // 聊天 RPC — hub.chat.*
     // ================================================================
@@ -1382,47 +3056,256 @@ const plugin = {
       }
     });
 
-    // hub.chat.history — 获取聊天记录
-    api.registerGatewayMethod('hub.chat.history', async ({ context, respond, params }: any) => {
+    // hub.chat.history — 获取聊天记录
+    api.registerGatewayMethod('hub.chat.history', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const nodeId = params?.nodeId;
+        if (!nodeId) { respond(false, { message: '需要 nodeId' }); return; }
+        const messages = chatStore.getHistory(nodeId, params?.limit);
+        respond(true, { messages });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.chat.list — 获取活跃聊天节点
+    api.registerGatewayMethod('hub.chat.list', async ({ context, respond }: any) => {
+      captureBroadcast(context);
+      respond(true, { nodes: chatStore.getActiveNodes() });
+    });
+
+    // hub.chat.clear — 清除聊天记录
+    api.registerGatewayMethod('hub.chat.clear', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const nodeId = params?.nodeId;
+        if (!nodeId) { respond(false, { message: '需要 nodeId' }); return; }
+        chatStore.clearHistory(nodeId);
+        respond(true, { ok: true });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // ================================================================
+    // 节点事件 RPC
+    // ================================================================
+
+    api.registerGatewayMethod('hub.node.events', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const events = nodeEventStore.list(params?.limit);
+        respond(true, { events });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // ================================================================
+    // 定时任务 RPC — hub.schedule.*
+    // ================================================================
+
+    // hub.schedule.add — 新增定时任务（cron 或 at）
+    api.registerGatewayMethod('hub.schedule.add', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const input = scheduleInputFromParams(params);
+        // 节点别名在创建时解析为 ID，之后别名变更不影响
+        if (typeof input.target === 'string') input.target = await resolveNodeId(input.target);
+        respond(true, { schedule: scheduler.add(input) });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.schedule.list — 定时任务列表
+    api.registerGatewayMethod('hub.schedule.list', async ({ context, respond }: any) => {
+      captureBroadcast(context);
+      try {
+        respond(true, { schedules: scheduleStore.list() });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.schedule.remove — 删除定时任务（ID 可用前缀）
+    api.registerGatewayMethod('hub.schedule.remove', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        if (!params?.scheduleId) { respond(false, { message: '需要 scheduleId' }); return; }
+        if (scheduler.remove(params.scheduleId)) respond(true, { removed: true });
+        else respond(false, { message: '定时任务不存在' });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.schedule.update — 启用 / 停用
+    api.registerGatewayMethod('hub.schedule.update', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        if (typeof params?.enabled !== 'boolean') { respond(false, { message: '需要 enabled' }); return; }
+        const schedule = scheduler.setEnabled(params?.scheduleId || '', params.enabled);
+        if (schedule) respond(true, { schedule });
+        else respond(false, { message: '定时任务不存在' });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.schedule.run — 立即执行一次
+    api.registerGatewayMethod('hub.schedule.run', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const schedule = await scheduler.runNow(params?.scheduleId || '');
+        if (schedule) respond(true, { schedule, taskId: schedule.lastTaskId });
+        else respond(false, { message: '定时任务不存在' });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // ================================================================
+    // 工作流 RPC — hub.workflow.*
+    // ================================================================
+
+    // hub.workflow.run — 启动工作流
+    api.registerGatewayMethod('hub.workflow.run', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const run = workflowRunner.run(params?.workflow, parseWorkflowInputs(params?.inputs));
+        respond(true, { runId: run.runId, run });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.workflow.get — 运行状态（waitMs > 0 时等待结束）
+    api.registerGatewayMethod('hub.workflow.get', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const waitMs = parseTimeoutMs(params?.waitMs);
+        const run = waitMs ? await workflowRunner.wait(params?.runId, waitMs) : workflowStore.get(params?.runId);
+        if (run) respond(true, { run });
+        else respond(false, { message: '工作流运行不存在' });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.workflow.list — 运行记录
+    api.registerGatewayMethod('hub.workflow.list', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        respond(true, { runs: workflowStore.list({ status: params?.status, limit: params?.limit || 20 }) });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.workflow.cancel — 取消工作流（在途步骤一并取消）
+    api.registerGatewayMethod('hub.workflow.cancel', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const run = workflowRunner.cancel(params?.runId, params?.reason || '用户取消');
+        if (run) respond(true, { run });
+        else respond(false, { message: '工作流运行不存在' });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // ================================================================
+    // 文件传输 RPC — hub.file.*
+    // ================================================================
+
+    // hub.file.push — 推送本地文件到节点
+    api.registerGatewayMethod('hub.file.push', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        if (!params?.nodeId || !params?.localPath || !params?.remotePath) {
+          respond(false, { message: '需要 nodeId、localPath 和 remotePath' }); return;
+        }
+        const nodeId = await resolveNodeId(params.nodeId);
+        const transfer = await fileTransfers.push(nodeId, params.localPath, params.remotePath);
+        respond(true, { transfer });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.file.pull — 从节点拉取文件
+    api.registerGatewayMethod('hub.file.pull', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        if (!params?.nodeId || !params?.remotePath || !params?.localPath) {
+          respond(false, { message: '需要 nodeId、remotePath 和 localPath' }); return;
+        }
+        const nodeId = await resolveNodeId(params.nodeId);
+        respond(true, { transfer: fileTransfers.pull(nodeId, params.remotePath, params.localPath) });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.file.list — 传输记录
+    api.registerGatewayMethod('hub.file.list', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        respond(true, { transfers: fileTransferStore.list({ status: params?.status, limit: params?.limit || 50 }) });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.file.get — 单个传输（waitMs > 0 时等待结束）
+    api.registerGatewayMethod('hub.file.get', async ({ context, respond, params }: any) => {
+      captureBroadcast(context);
+      try {
+        const waitMs = parseTimeoutMs(params?.waitMs);
+        const transfer = waitMs
+          ? await fileTransfers.wait(params?.transferId, waitMs)
+          : fileTransferStore.get(params?.transferId);
+        if (transfer) respond(true, { transfer });
+        else respond(false, { message: '传输不存在' });
+      } catch (err: any) {
+        respond(false, { message: err.message });
+      }
+    });
+
+    // hub.file.cancel — 取消传输
+    api.registerGatewayMethod('hub.file.cancel', async ({ context, respond, params }: any) => {
       captureBroadcast(context);
       try {
-        const nodeId = params?.nodeId;
-        if (!nodeId) { respond(false, { message: '需要 nodeId' }); return; }
-        const messages = chatStore.getHistory(nodeId, params?.limit);
-        respond(true, { messages });
+        const transfer = fileTransfers.cancel(params?.transferId);
+        if (transfer) respond(true, { transfer });
+        else respond(false, { message: '传输不存在' });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
     });
 
-    // hub.chat.list — 获取活跃聊天节点
-    api.registerGatewayMethod('hub.chat.list', async ({ context, respond }: any) => {
-      captureBroadcast(context);
-      respond(true, { nodes: chatStore.getActiveNodes() });
-    });
+    // ================================================================
+    // 离线发件箱 RPC
+    // ================================================================
 
-    // hub.chat.clear — 清除聊天记录
-    api.registerGatewayMethod('hub.chat.clear', async ({ context, respond, params }: any) => {
+    // hub.outbox — 查看断线期间待发送的消息
+    api.registerGatewayMethod('hub.outbox', async ({ context, respond }: any) => {
       captureBroadcast(context);
       try {
-        const nodeId = params?.nodeId;
-        if (!nodeId) { respond(false, { message: '需要 nodeId' }); return; }
-        chatStore.clearHistory(nodeId);
-        respond(true, { ok: true });
+        respond(true, { entries: outboxStore.list(), stats: outboxStore.stats() });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
     });
 
-    // ================================================================
-    // 节点事件 RPC
-    // ================================================================
-
-    api.registerGatewayMethod('hub.node.events', async ({ context, respond, params }: any) => {
+    // hub.outbox.purge — 清除待发消息（不传 ids 则全部清除）
+    api.registerGatewayMethod('hub.outbox.purge', async ({ context, respond, params }: any) => {
       captureBroadcast(context);
       try {
-        const events = nodeEventStore.list(params?.limit);
-        respond(true, { events });
+        const removed = outboxStore.purge(params?.ids);
+        respond(true, { removed });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
@@ -1436,13 +3319,19 @@ const plugin = {
     api.registerGatewayMethod('hub.send', async ({ context, respond, params }: any) => {
       captureBroadcast(context);
       try {
-        const nodeId = params?.nodeId;
+        const target = targetFromParams(params);
         const instruction = params?.instruction;
-        if (!nodeId || !instruction) {
+        if (!target || !instruction) {
           respond(false, { message: '需要 nodeId 和 instruction' });
           return;
         }
-        const taskId = await sendTaskAndTrack(nodeId, instruction);
+        const taskId = await sendTaskAndTrack(target, instruction, {
+          priority: parsePriority(params?.priority),
+          retry: parseRetryPolicy(params?.retry),
+          timeoutMs: parseTimeoutMs(params?.timeoutMs),
+          attachments: parseAttachments(params?.attachments),
+          collectArtifacts: params?.collectArtifacts === true,
+        });
         respond(true, { taskId, status: 'sent' });
       } catch (err: any) {
         respond(false, { message: err.message });
@@ -1458,14 +3347,7 @@ const plugin = {
           return;
         }
         if (isSelfNode(params.nodeId) && client.getConfig().selfTaskMode === 'local') {
-          const taskId = randomUUID();
-          const task = taskStore.recordSent(taskId, params.nodeId, client.getConfig().nodeName, params.instruction, 'local');
-          broadcast('hub.task.update', { task });
-
-          const result = await executeTaskLocally(params.instruction, params?.timeoutMs);
-          const updated = taskStore.recordResult(taskId, result);
-          if (updated) broadcast('hub.task.update', { task: updated });
-
+          const { result } = await sendTaskAndWait(params.nodeId, params.instruction, { timeoutMs: parseTimeoutMs(params?.timeoutMs) });
           respond(true, { result });
         } else {
           const taskId = await sendTaskAndTrack(params.nodeId, params.instruction);
@@ -1538,7 +3420,7 @@ const plugin = {
       captureBroadcast(context);
       try {
         await client.connect();
-        respond(true, { connected: client.isConnected() });
+        respond(true, { connected: client.isConnected(), connection: client.getConnectionState() });
       } catch (err: any) {
         respond(false, { message: err.message });
       }
@@ -1574,24 +3456,32 @@ const plugin = {
             const nodes = await client.fetchNodes();
             nodesText = nodes.map(n => {
               const icon = n.online ? '🟢' : '⚫';
-              return `${icon} ${n.name} (@${n.alias}) — ${n.capabilities.join(', ')}`;
+              const via = nodePath(n.id) === 'lan' ? ' [局域网直连]' : '';
+              return `${icon} ${n.name} (@${n.alias}) — ${n.capabilities.join(', ')}${via}`;
             }).join('\n');
           } catch { nodesText = '(无法获取节点列表)'; }
         }
         const cfg = client.getConfig();
         const summary = taskStore.summary();
+        const lanStatus = lan?.status() ?? null;
+        const serverStatus = hubServer?.status() ?? null;
         const text = [
           `📡 Hub 集群状态`,
           ``,
-          `连接: ${status.connected ? '✅ 已连接' : '❌ 未连接'}`,
+          `连接: ${formatConnectionState(status.connection)}`,
+          `传输: ${status.transport}`,
+          status.connected ? `延迟: ${formatHeartbeatStats(status.heartbeat)}` : '',
           `注册: ${status.registered ? '✅ 已注册' : '❌ 未注册'}`,
           status.nodeId ? `节点 ID: ${status.nodeId}` : '',
           `自发任务: ${cfg.selfTaskMode === 'local' ? '🏠 本地模式' : '🌐 Hub 模式'}`,
           `任务统计: ${summary.running} 进行中, ${summary.completed} 已完成, ${summary.failed} 失败`,
+          status.outbox > 0 ? `发件箱: ${status.outbox} 条待发送` : '',
+          lanStatus ? `局域网直连: ${lanStatus.peers.filter(p => p.path === 'lan').length}/${lanStatus.peers.length} 个已发现节点直连` : '',
+          serverStatus ? `内置 Hub: ${serverStatus.url}（${serverStatus.nodes} 节点，${serverStatus.online} 在线）` : '',
           ``,
           nodesText ? `节点列表:\n${nodesText}` : '',
         ].filter(Boolean).join('\n');
-        return { content: [{ type: 'text', text }], data: { status, summary } };
+        return { content: [{ type: 'text', text }], data: { status, summary, lan: lanStatus, hubServer: serverStatus } };
       },
     });
 
@@ -1605,52 +3495,71 @@ const plugin = {
         const lines = nodes.map(n => {
           const icon = n.online ? '🟢' : '⚫';
           const parent = n.parentId ? `parent=${n.parentId}` : '根节点';
-          return `${icon} **${n.name}** (@${n.alias})\n   ID: ${n.id} | ${parent} | 能力: ${n.capabilities.join(', ')} | 负载: ${n.load}%`;
+          return `${icon} **${n.name}** (@${n.alias})\n   ID: ${n.id} | ${parent} | 路径: ${formatNodePath(nodePath(n.id))} | 能力: ${n.capabilities.join(', ')}\n   ${formatNodeMetrics(n)}`;
         });
         return {
           content: [{ type: 'text', text: `Hub 节点 (${nodes.length}):\n\n${lines.join('\n\n')}` }],
-          data: { nodes },
+          data: { nodes: nodes.map(n => ({ ...n, path: nodePath(n.id) })) },
         };
       },
     });
 
     api.registerTool({
       name: 'hub_send',
-      description: '给 Hub 集群中的节点发送指令（异步，不等结果）。自发本地任务同步返回结果。',
+      description: '给 Hub 集群中的节点发送指令（异步，不等结果）。可指定 nodeId，或用 requires 按能力自动选择负载最低的在线节点。自发本地任务同步返回结果。',
       parameters: {
         type: 'object',
         properties: {
-          nodeId: { type: 'string', description: '目标节点 ID 或别名' },
+          nodeId: { type: 'string', description: '目标节点 ID 或别名（与 requires 二选一）' },
+          requires: { type: 'array', items: { type: 'string' }, description: '所需能力标签，如 ["gpu","browser"]，自动选择匹配节点' },
+          strategy: { type: 'string', enum: ['least-loaded', 'least-tasks', 'random'], description: '按能力选择时的策略（默认 least-loaded）' },
+          priority: { type: 'string', enum: ['high', 'normal', 'low'], description: '子节点排队优先级（默认 normal）' },
+          retry: {
+            type: 'object',
+            description: '失败重试策略（可选）',
+            properties: {
+              maxAttempts: { type: 'number', description: '最大尝试次数（含首次，≥2 才生效）' },
+              backoffMs: { type: 'number', description: '首次重试前等待毫秒数（默认 5000，之后按 backoffFactor 递增）' },
+              retryOn: { type: 'array', items: { type: 'string', enum: ['failed', 'offline', 'timeout', 'lost'] }, description: '触发重试的情况（默认 failed + offline + lost）' },
+              failover: { type: 'boolean', description: '重试时改派到其他具备相同能力的节点' },
+            },
+          },
+          timeoutMs: { type: 'number', description: '任务超时毫秒数（默认 taskTimeoutMs），超时后标记为 timeout' },
+          attachments: { type: 'array', items: { type: 'string' }, description: '随任务发送的本地文件路径（输入附件）' },
+          collectArtifacts: { type: 'boolean', description: '要求目标节点把输出目录中的文件作为产物回传（有输入附件时总是附上输出目录）' },
           instruction: { type: 'string', description: '要执行的指令/任务描述' },
         },
-        required: ['nodeId', 'instruction'],
+        required: ['instruction'],
       },
-      async execute(_id: string, params: { nodeId: string; instruction: string }) {
+      async execute(_id: string, params: { nodeId?: string; requires?: string[]; strategy?: TargetSelector['strategy']; priority?: TaskPriority; retry?: Partial<RetryPolicy>; timeoutMs?: number; attachments?: string[]; collectArtifacts?: boolean; instruction: string }) {
         if (!client.isRegistered()) {
           return { content: [{ type: 'text', text: '❌ Hub 未注册' }] };
         }
+        const target = targetFromParams(params);
+        if (!target) {
+          return { content: [{ type: 'text', text: '❌ 需要 nodeId 或 requires' }] };
+        }
         try {
-          const resolvedId = await resolveNodeId(params.nodeId);
-          const displayName = resolveNodeName(resolvedId) || params.nodeId;
-          if (isSelfNode(resolvedId) && client.getConfig().selfTaskMode === 'local') {
-            // 自发本地：记录到 store + 同步等结果
-            const taskId = randomUUID();
-            const task = taskStore.recordSent(taskId, resolvedId, client.getConfig().nodeName, params.instruction, 'local');
-            broadcast('hub.task.update', { task });
-
-            const result = await executeTaskLocally(params.instruction);
-            const updated = taskStore.recordResult(taskId, result);
-            if (updated) broadcast('hub.task.update', { task: updated });
-
+          const { nodeId: resolvedId, selector } = await resolveTarget(target);
+          const displayName = resolveNodeName(resolvedId) || params.nodeId || resolvedId;
+          const retry = parseRetryPolicy(params.retry);
+          const timeoutMs = parseTimeoutMs(params.timeoutMs);
+          const attachments = parseAttachments(params.attachments);
+          const collectArtifacts = params.collectArtifacts === true;
+          if (isSelfNode(resolvedId) && client.getConfig().selfTaskMode === 'local' && !retry && !attachments && !collectArtifacts) {
+            // 自发本地：同步等结果
+            const { result } = await sendTaskAndWait(resolvedId, params.instruction, { selector, priority: parsePriority(params.priority), timeoutMs });
             const text = result.success
               ? `✅ 节点 ${displayName} 返回 (本地):\n\n${result.result}`
               : `❌ 节点 ${displayName} 执行失败 (本地):\n\n${result.error}`;
             return { content: [{ type: 'text', text }], data: { result, mode: 'local' } };
           }
-          const taskId = await sendTaskAndTrack(resolvedId, params.instruction);
+          const taskId = await sendTaskAndTrack(resolvedId, params.instruction, { selector, priority: parsePriority(params.priority), retry, timeoutMs, attachments, collectArtifacts });
+          const routed = selector ? ` (按能力选择: ${describeSelector(selector)})` : '';
+          const retried = retry ? `\n失败时最多尝试 ${retry.maxAttempts} 次${retry.failover ? '（可改派其他节点）' : ''}` : '';
           return {
-            content: [{ type: 'text', text: `✅ 任务已下发 → 节点 ${displayName}\n\ntaskId: ${taskId}\n\n任务将异步执行，用 hub_tasks 查看进度。` }],
-            data: { taskId, mode: 'async' },
+            content: [{ type: 'text', text: `✅ 任务已下发 → 节点 ${displayName}${routed}\n\ntaskId: ${taskId}${retried}\n\n任务将异步执行，用 hub_tasks 查看进度。` }],
+            data: { taskId, nodeId: resolvedId, mode: 'async' },
           };
         } catch (err: any) {
           return { content: [{ type: 'text', text: `❌ 发送失败: ${err.message}` }] };
@@ -1681,9 +3590,13 @@ const plugin = {
           ];
 
           for (const t of tasks) {
-            const icon = t.status === 'completed' ? '✅' : t.status === 'failed' ? '❌' : t.status === 'running' ? '🔄' : '⏳';
+            const icon = t.status === 'completed' ? '✅' : t.status === 'failed' ? '❌' : t.status === 'running' ? '🔄' : t.status === 'retrying' ? '🔁' : t.status === 'timeout' ? '⏱️' : t.status === 'lost' ? '❓' : '⏳';
             const duration = t.durationMs ? ` (${(t.durationMs / 1000).toFixed(1)}s)` : '';
-            lines.push(`${icon} ${t.taskId.substring(0, 8)}: ${t.instruction.substring(0, 60)} [${t.status}]${duration}`);
+            const position = t.status === 'queued' && t.queuePosition ? ` #${t.queuePosition}` : '';
+            const priority = t.priority && t.priority !== 'normal' ? ` (${t.priority})` : '';
+            const attempt = t.attempts && t.attempts.length > 1 ? ` 尝试 ${t.attempts.length}/${t.retry?.maxAttempts ?? t.attempts.length}` : '';
+            const cancelling = t.cancelRequestedAt && isOpenTask(t) ? ' 取消中' : '';
+            lines.push(`${icon} ${t.taskId.substring(0, 8)}: ${t.instruction.substring(0, 60)} [${t.status}${position}]${priority}${attempt}${cancelling}${duration}`);
           }
 
           return { content: [{ type: 'text', text: lines.join('\n') }] };
@@ -1695,50 +3608,68 @@ const plugin = {
 
     api.registerTool({
       name: 'hub_wait_task',
-      description: '等待指定 Hub 任务完成并返回结果。用于任务编排场景：下发任务后等待结果再继续。',
+      description: '等待指定 Hub 任务完成并返回结果。用于任务编排场景：下发任务后等待结果再继续。设置 tail 可在任务未完成时查看最近的执行进度。',
       parameters: {
         type: 'object',
         properties: {
           taskId: { type: 'string', description: '任务 ID（hub_send 返回的 taskId）' },
           timeoutMs: { type: 'number', description: '超时毫秒数（默认 300000 = 5分钟）' },
+          tail: { type: 'number', description: '未完成时附带最近 N 帧进度（文本片段 + 工具调用），可配合较短 timeoutMs 查看实时进展' },
         },
         required: ['taskId'],
       },
-      async execute(_id: string, params: { taskId: string; timeoutMs?: number }) {
+      async execute(_id: string, params: { taskId: string; timeoutMs?: number; tail?: number }) {
         const timeout = params.timeoutMs || 300_000;
-        const startTime = Date.now();
-        const pollInterval = 2000;
-
-        while (Date.now() - startTime < timeout) {
-          const task = taskStore.get(params.taskId);
-          if (!task) {
-            return { content: [{ type: 'text', text: `❌ 任务 ${params.taskId} 不存在` }] };
-          }
+        if (!taskStore.get(params.taskId)) {
+          return { content: [{ type: 'text', text: `❌ 任务 ${params.taskId} 不存在` }] };
+        }
+        await taskStore.waitFor([params.taskId], timeout);
 
-          if (task.status === 'completed') {
-            return {
-              content: [{ type: 'text', text: `✅ 任务完成 (${((task.durationMs || 0) / 1000).toFixed(1)}s)\n\n${task.result || '(无文本输出)'}` }],
-              data: { task },
-            };
-          }
-          if (task.status === 'failed') {
-            return {
-              content: [{ type: 'text', text: `❌ 任务失败 (${((task.durationMs || 0) / 1000).toFixed(1)}s)\n\n${task.error || '未知错误'}` }],
-              data: { task },
-            };
-          }
-          if (task.status === 'cancelled') {
-            return {
-              content: [{ type: 'text', text: `⚠️ 任务已取消` }],
-              data: { task },
-            };
-          }
+        const task = taskStore.get(params.taskId);
+        if (!task) {
+          return { content: [{ type: 'text', text: `❌ 任务 ${params.taskId} 已被清理` }] };
+        }
 
-          await new Promise(resolve => setTimeout(resolve, pollInterval));
+        const attempts = formatAttempts(task);
+        const attemptsText = attempts ? `\n\n${attempts}` : '';
+        if (task.status === 'completed') {
+          const artifactsText = task.artifacts?.length
+            ? `\n\n产物 (${task.artifacts.length}，用 hub_task_artifacts 获取):\n${formatArtifacts(task.artifacts)}`
+            : '';
+          return {
+            content: [{ type: 'text', text: `✅ 任务完成 (${((task.durationMs || 0) / 1000).toFixed(1)}s)\n\n${task.result || '(无文本输出)'}${artifactsText}${attemptsText}` }],
+            data: { task },
+          };
+        }
+        if (task.status === 'failed') {
+          return {
+            content: [{ type: 'text', text: `❌ 任务失败 (${((task.durationMs || 0) / 1000).toFixed(1)}s)\n\n${task.error || '未知错误'}${attemptsText}` }],
+            data: { task },
+          };
+        }
+        if (task.status === 'timeout') {
+          return {
+            content: [{ type: 'text', text: `⏱️ 任务超时 (${((task.durationMs || 0) / 1000).toFixed(1)}s)\n\n${task.error || ''}${attemptsText}` }],
+            data: { task },
+          };
+        }
+        if (task.status === 'lost') {
+          return {
+            content: [{ type: 'text', text: `❓ 任务丢失：目标节点已无此任务\n\n${task.error || ''}${attemptsText}` }],
+            data: { task },
+          };
+        }
+        if (task.status === 'cancelled') {
+          return {
+            content: [{ type: 'text', text: `⚠️ 任务已取消${task.error ? `: ${task.error}` : ''}` }],
+            data: { task },
+          };
         }
 
+        const tail = params.tail ? formatProgressTail(task, params.tail) : '';
         return {
-          content: [{ type: 'text', text: `⏱️ 等待超时 (${(timeout / 1000).toFixed(0)}s)，任务仍在执行中。\n\n用 hub_tasks 稍后查看结果。` }],
+          content: [{ type: 'text', text: `⏱️ 等待超时 (${(timeout / 1000).toFixed(0)}s)，任务仍在执行中。${tail ? `\n\n${tail}` : ''}\n\n用 hub_tasks 稍后查看结果。` }],
+          data: tail ? { task } : undefined,
         };
       },
     });
@@ -1751,20 +3682,35 @@ const plugin = {
         properties: {
           tasks: {
             type: 'array',
-            description: '任务列表，每项包含 nodeId 和 instruction',
+            description: '任务列表，每项包含 nodeId（或 requires）和 instruction',
             items: {
               type: 'object',
               properties: {
                 nodeId: { type: 'string', description: '目标节点 ID 或别名' },
+                requires: { type: 'array', items: { type: 'string' }, description: '所需能力标签（不指定 nodeId 时按能力选择节点）' },
+                priority: { type: 'string', enum: ['high', 'normal', 'low'], description: '排队优先级（默认 normal）' },
+                timeoutMs: { type: 'number', description: '任务超时毫秒数（默认 taskTimeoutMs）' },
+                attachments: { type: 'array', items: { type: 'string' }, description: '随任务发送的本地文件路径' },
+                collectArtifacts: { type: 'boolean', description: '要求回传输出目录中的产物' },
                 instruction: { type: 'string', description: '任务指令' },
               },
-              required: ['nodeId', 'instruction'],
+              required: ['instruction'],
+            },
+          },
+          retry: {
+            type: 'object',
+            description: '所有任务共用的失败重试策略（字段同 hub_send.retry）',
+            properties: {
+              maxAttempts: { type: 'number' },
+              backoffMs: { type: 'number' },
+              retryOn: { type: 'array', items: { type: 'string', enum: ['failed', 'offline', 'timeout', 'lost'] } },
+              failover: { type: 'boolean' },
             },
           },
         },
         required: ['tasks'],
       },
-      async execute(_id: string, params: { tasks: Array<{ nodeId: string; instruction: string }> }) {
+      async execute(_id: string, params: { tasks: Array<{ nodeId?: string; requires?: string[]; priority?: TaskPriority; timeoutMs?: number; attachments?: string[]; collectArtifacts?: boolean; instruction: string }>; retry?: Partial<RetryPolicy> }) {
         if (!client.isRegistered()) {
           return { content: [{ type: 'text', text: '❌ Hub 未注册' }] };
         }
@@ -1773,30 +3719,21 @@ const plugin = {
         }
 
         const results: Array<{ nodeId: string; taskId: string; instruction: string; mode: string }> = [];
+        const retry = parseRetryPolicy(params.retry);
 
         for (const t of params.tasks) {
+          const label = t.nodeId || (t.requires || []).join('+') || '?';
           try {
-            const resolvedId = await resolveNodeId(t.nodeId);
-            const displayName = resolveNodeName(resolvedId) || t.nodeId;
-            if (isSelfNode(resolvedId) && client.getConfig().selfTaskMode === 'local') {
-              const taskId = randomUUID();
-              const task = taskStore.recordSent(taskId, resolvedId, client.getConfig().nodeName, t.instruction, 'local');
-              broadcast('hub.task.update', { task });
-              // 异步执行，不等待
-              executeTaskLocally(t.instruction).then(result => {
-                const updated = taskStore.recordResult(taskId, result);
-                if (updated) broadcast('hub.task.update', { task: updated });
-              }).catch(err => {
-                const updated = taskStore.recordResult(taskId, { success: false, error: err.message });
-                if (updated) broadcast('hub.task.update', { task: updated });
-              });
-              results.push({ nodeId: displayName, taskId, instruction: t.instruction.substring(0, 60), mode: 'local' });
-            } else {
-              const taskId = await sendTaskAndTrack(resolvedId, t.instruction);
-              results.push({ nodeId: displayName, taskId, instruction: t.instruction.substring(0, 60), mode: 'remote' });
-            }
+            const target = targetFromParams(t);
+            if (!target) throw new Error('需要 nodeId 或 requires');
+            const { nodeId: resolvedId, selector } = await resolveTarget(target);
+            const displayName = resolveNodeName(resolvedId) || t.nodeId || resolvedId;
+            const attachments = parseAttachments(t.attachments);
+            const collectArtifacts = t.collectArtifacts === true;
+            const taskId = await sendTaskAndTrack(resolvedId, t.instruction, { selector, priority: parsePriority(t.priority), retry, timeoutMs: parseTimeoutMs(t.timeoutMs), attachments, collectArtifacts });
+            results.push({ nodeId: displayName, taskId, instruction: t.instruction.substring(0, 60), mode: isSelfNode(resolvedId) ? 'local' : 'remote' });
           } catch (err: any) {
-            results.push({ nodeId: t.nodeId, taskId: `ERROR: ${err.message}`, instruction: t.instruction.substring(0, 60), mode: 'error' });
+            results.push({ nodeId: label, taskId: `ERROR: ${err.message}`, instruction: t.instruction.substring(0, 60), mode: 'error' });
           }
         }
 
@@ -1813,6 +3750,257 @@ const plugin = {
       },
     });
 
+    api.registerTool({
+      name: 'hub_task_artifacts',
+      description: '查看 Hub 任务交回的产物文件。可复制到指定目录，或指定 name 预览文本产物内容。',
+      parameters: {
+        type: 'object',
+        properties: {
+          taskId: { type: 'string', description: '任务 ID' },
+          name: { type: 'string', description: '产物文件名（预览文本内容）' },
+          outDir: { type: 'string', description: '复制产物到该目录' },
+        },
+        required: ['taskId'],
+      },
+      async execute(_id: string, params: { taskId: string; name?: string; outDir?: string }) {
+        const task = taskStore.get(params.taskId);
+        if (!task) {
+          return { content: [{ type: 'text', text: `❌ 任务 ${params.taskId} 不存在` }] };
+        }
+        const artifacts = artifactStore.list(task.taskId);
+        if (artifacts.length === 0) {
+          return { content: [{ type: 'text', text: `任务 ${task.taskId} 没有产物` }] };
+        }
+        try {
+          if (params.outDir) {
+            const copied = artifactStore.copyTo(task.taskId, path.resolve(params.outDir), params.name ? [params.name] : undefined);
+            return {
+              content: [{ type: 'text', text: `✅ 已复制 ${copied.length} 个产物:\n${copied.map(p => `  ${p}`).join('\n')}` }],
+              data: { files: copied },
+            };
+          }
+          if (params.name) {
+            const artifact = artifacts.find(a => a.name === params.name);
+            if (!artifact) {
+              return { content: [{ type: 'text', text: `❌ 产物不存在: ${params.name}` }] };
+            }
+            const text = isTextMime(artifact.mime)
+              ? artifactStore.read(task.taskId, artifact.name).toString('utf-8')
+              : `(二进制文件，本地路径: ${artifact.path})`;
+            return { content: [{ type: 'text', text: `📎 ${artifact.name}\n\n${text}` }], data: { artifact } };
+          }
+          return {
+            content: [{ type: 'text', text: `任务 ${task.taskId} 产物 (${artifacts.length}):\n${formatArtifacts(artifacts)}` }],
+            data: { artifacts },
+          };
+        } catch (err: any) {
+          return { content: [{ type: 'text', text: `❌ 读取产物失败: ${err.message}` }] };
+        }
+      },
+    });
+
+    api.registerTool({
+      name: 'hub_file_transfer',
+      description: '在 Hub 节点间传输文件：push 把本地文件推送到节点，pull 从节点拉取文件到本地（分块传输、sha256 校验、断点续传）。对端只允许读写其白名单目录，相对路径落在对端 hub-data/files 下。',
+      parameters: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['push', 'pull', 'list', 'status', 'cancel'], description: '操作（默认 push）' },
+          nodeId: { type: 'string', description: '对端节点 ID 或别名（push / pull）' },
+          localPath: { type: 'string', description: '本地文件路径（push 为源，pull 为保存位置）' },
+          remotePath: { type: 'string', description: '对端文件路径（push 为保存位置，pull 为源）' },
+          transferId: { type: 'string', description: '传输 ID（status / cancel）' },
+          timeoutMs: { type: 'number', description: '等待传输完成的毫秒数（默认 300000）；超时后传输继续，用 status 查看' },
+        },
+      },
+      async execute(_id: string, params: { action?: 'push' | 'pull' | 'list' | 'status' | 'cancel'; nodeId?: string; localPath?: string; remotePath?: string; transferId?: string; timeoutMs?: number }) {
+        const action = params.action || 'push';
+        try {
+          if (action === 'list') {
+            const transfers = fileTransferStore.list({ limit: 20 });
+            if (transfers.length === 0) return { content: [{ type: 'text', text: '暂无文件传输记录' }] };
+            return { content: [{ type: 'text', text: transfers.map(formatTransfer).join('\n') }], data: { transfers } };
+          }
+          if (action === 'status' || action === 'cancel') {
+            if (!params.transferId) return { content: [{ type: 'text', text: '❌ 需要 transferId' }] };
+            const transfer = action === 'cancel' ? fileTransfers.cancel(params.transferId) : fileTransferStore.get(params.transferId);
+            if (!transfer) return { content: [{ type: 'text', text: `❌ 传输 ${params.transferId} 不存在` }] };
+            return { content: [{ type: 'text', text: formatTransfer(transfer) }], data: { transfer } };
+          }
+
+          if (!client.isConnected()) return { content: [{ type: 'text', text: '❌ Hub 未连接' }] };
+          if (!params.nodeId || !params.localPath || !params.remotePath) {
+            return { content: [{ type: 'text', text: '❌ 需要 nodeId、localPath 和 remotePath' }] };
+          }
+          const nodeId = await resolveNodeId(params.nodeId);
+          const started = action === 'pull'
+            ? fileTransfers.pull(nodeId, params.remotePath, params.localPath)
+            : await fileTransfers.push(nodeId, params.localPath, params.remotePath);
+          const transfer = await fileTransfers.wait(started.transferId, params.timeoutMs || 300_000) || started;
+          const pending = transfer.status === 'pending' || transfer.status === 'transferring';
+          const text = pending
+            ? `⏱️ 传输仍在进行\n\n${formatTransfer(transfer)}\n\ntransferId: ${transfer.transferId}`
+            : formatTransfer(transfer);
+          return { content: [{ type: 'text', text }], data: { transfer } };
+        } catch (err: any) {
+          return { content: [{ type: 'text', text: `❌ 文件传输失败: ${err.message}` }] };
+        }
+      },
+    });
+
+    api.registerTool({
+      name: 'hub_workflow_run',
+      description: '运行任务工作流（DAG）：步骤按 dependsOn 依次/并行下发到 Hub 节点，指令可用 {{steps.<id>.result}} 引用上游结果、{{inputs.<key>}} 引用输入。适合"先扫描、再分别修复、最后汇总"这类有依赖的编排，无需逐轮等待。',
+      parameters: {
+        type: 'object',
+        properties: {
+          workflow: {
+            type: 'object',
+            description: '工作流定义',
+            properties: {
+              name: { type: 'string' },
+              maxParallel: { type: 'number', description: '同时执行的步骤上限' },
+              steps: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', description: '步骤 ID' },
+                    nodeId: { type: 'string', description: '目标节点 ID 或别名' },
+                    requires: { type: 'array', items: { type: 'string' }, description: '按能力选择节点' },
+                    instruction: { type: 'string', description: '指令模板' },
+                    dependsOn: { type: 'array', items: { type: 'string' }, description: '依赖的步骤 ID' },
+                    timeoutMs: { type: 'number' },
+                    retry: { type: 'number', description: '最大尝试次数（含首次）' },
+                    continueOnError: { type: 'boolean', description: '失败时不中止工作流' },
+                  },
+                  required: ['id', 'instruction'],
+                },
+              },
+            },
+            required: ['steps'],
+          },
+          inputs: { type: 'object', description: '输入变量（{{inputs.<key>}}）' },
+          wait: { type: 'boolean', description: '等待工作流结束（默认 true）' },
+          timeoutMs: { type: 'number', description: '等待毫秒数（默认 600000）；超时后工作流继续运行' },
+        },
+        required: ['workflow'],
+      },
+      async execute(_id: string, params: { workflow: any; inputs?: Record<string, unknown>; wait?: boolean; timeoutMs?: number }) {
+        if (!client.isRegistered()) {
+          return { content: [{ type: 'text', text: '❌ Hub 未注册' }] };
+        }
+        try {
+          const started = workflowRunner.run(params.workflow, parseWorkflowInputs(params.inputs));
+          if (params.wait === false) {
+            return { content: [{ type: 'text', text: `🚀 工作流已启动\n\n${formatWorkflow(started)}` }], data: { runId: started.runId } };
+          }
+          const run = await workflowRunner.wait(started.runId, params.timeoutMs || 600_000) || started;
+          const results = run.status === 'running' ? '' : formatWorkflowResults(run);
+          const suffix = run.status === 'running' ? '\n\n⏱️ 等待超时，工作流仍在运行，用 hub.workflow.get 查看' : '';
+          return {
+            content: [{ type: 'text', text: `${formatWorkflow(run)}${results ? `\n\n${results}` : ''}${suffix}` }],
+            data: { run },
+          };
+        } catch (err: any) {
+          return { content: [{ type: 'text', text: `❌ 工作流启动失败: ${err.message}` }] };
+        }
+      },
+    });
+
+    api.registerTool({
+      name: 'hub_map',
+      description: '把同一条指令下发到一组节点（全部在线节点 / 按能力 / 某节点的子树）并等待全部完成，返回每个节点的完整结果；可选 reduce 指令在本地对汇总输出再执行一次（如"对比各节点结果，列出异常"）。',
+      parameters: {
+        type: 'object',
+        properties: {
+          instruction: { type: 'string', description: '每个节点执行的指令' },
+          scope: { type: 'string', enum: ['all', 'children', 'subtree'], description: '节点范围：all=全部在线节点（默认），children=root 的直接子节点，subtree=root 及全部后代' },
+          root: { type: 'string', description: 'children / subtree 的根节点 ID 或别名（默认本节点）' },
+          requires: { type: 'array', items: { type: 'string' }, description: '只选具备这些能力的节点' },
+          includeSelf: { type: 'boolean', description: '是否包含本节点（默认 true）' },
+          reduce: { type: 'string', description: '汇总指令：在本地对所有节点的输出执行' },
+          priority: { type: 'string', enum: ['high', 'normal', 'low'] },
+          retry: {
+            type: 'object',
+            description: '每个节点任务的失败重试策略（字段同 hub_send.retry）；等待时长按尝试次数和退避相应延长',
+            properties: {
+              maxAttempts: { type: 'number' },
+              backoffMs: { type: 'number' },
+              retryOn: { type: 'array', items: { type: 'string', enum: ['failed', 'offline', 'timeout', 'lost'] } },
+              failover: { type: 'boolean' },
+            },
+          },
+          timeoutMs: { type: 'number', description: '单个任务超时毫秒数（默认 taskTimeoutMs）' },
+        },
+        required: ['instruction'],
+      },
+      async execute(_id: string, params: { instruction: string; scope?: MapSelector['scope']; root?: string; requires?: string[]; includeSelf?: boolean; reduce?: string; priority?: TaskPriority; retry?: Partial<RetryPolicy>; timeoutMs?: number }) {
+        if (!client.isRegistered()) {
+          return { content: [{ type: 'text', text: '❌ Hub 未注册' }] };
+        }
+        try {
+          const result = await runMap(params.instruction, parseMapSelector(params), {
+            priority: parsePriority(params.priority),
+            retry: parseRetryPolicy(params.retry),
+            timeoutMs: parseTimeoutMs(params.timeoutMs),
+            reduce: params.reduce,
+          });
+          return { content: [{ type: 'text', text: formatMapResult(result) }], data: result };
+        } catch (err: any) {
+          return { content: [{ type: 'text', text: `❌ 扇出失败: ${err.message}` }] };
+        }
+      },
+    });
+
+    api.registerTool({
+      name: 'hub_schedule',
+      description: '管理 Hub 定时任务：按 cron 表达式周期执行，或在指定时间（at）执行一次，到期自动下发给目标节点。用于"每天早上 9 点让 @office 检查备份"、"10 分钟后提醒我"这类需求。',
+      parameters: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['add', 'list', 'remove', 'enable', 'disable', 'run'], description: '操作（默认 list）' },
+          scheduleId: { type: 'string', description: '定时任务 ID 或前缀（remove / enable / disable / run）' },
+          name: { type: 'string', description: '名称' },
+          cron: { type: 'string', description: '5 段 cron（分 时 日 月 周，本地时区），如 "0 9 * * 1-5"；支持 @daily 等' },
+          at: { type: 'string', description: '一次性执行时间：ISO 时间 "2026-10-20T09:00"，或相对时间 "+10m" / "+2h" / "+1d"' },
+          nodeId: { type: 'string', description: '目标节点 ID 或别名（与 requires 二选一）' },
+          requires: { type: 'array', items: { type: 'string' }, description: '按能力选择节点（每次触发时选择）' },
+          instruction: { type: 'string', description: '到期下发的指令' },
+          missedPolicy: { type: 'string', enum: ['skip', 'once'], description: '停机错过执行时：once=启动后补跑一次（默认），skip=跳过' },
+        },
+      },
+      async execute(_id: string, params: any) {
+        const action = params.action || 'list';
+        try {
+          if (action === 'list') {
+            const schedules = scheduleStore.list();
+            if (schedules.length === 0) return { content: [{ type: 'text', text: '暂无定时任务' }] };
+            return { content: [{ type: 'text', text: schedules.map(formatSchedule).join('\n') }], data: { schedules } };
+          }
+          if (action === 'add') {
+            const input = scheduleInputFromParams(params);
+            if (typeof input.target === 'string') input.target = await resolveNodeId(input.target);
+            const schedule = scheduler.add(input);
+            return { content: [{ type: 'text', text: `✅ 已创建定时任务\n\n${formatSchedule(schedule)}` }], data: { schedule } };
+          }
+          if (!params.scheduleId) return { content: [{ type: 'text', text: '❌ 需要 scheduleId' }] };
+          if (action === 'remove') {
+            const removed = scheduler.remove(params.scheduleId);
+            return { content: [{ type: 'text', text: removed ? '✅ 已删除' : `❌ 定时任务 ${params.scheduleId} 不存在` }] };
+          }
+          const schedule = action === 'run'
+            ? await scheduler.runNow(params.scheduleId)
+            : scheduler.setEnabled(params.scheduleId, action === 'enable');
+          if (!schedule) return { content: [{ type: 'text', text: `❌ 定时任务 ${params.scheduleId} 不存在` }] };
+          const note = action === 'run' && schedule.lastTaskId ? `\n\n已下发任务: ${schedule.lastTaskId}` : '';
+          return { content: [{ type: 'text', text: `${formatSchedule(schedule)}${note}` }], data: { schedule } };
+        } catch (err: any) {
+          return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+        }
+      },
+    });
+
     api.registerTool({
       name: 'hub_wait_all',
       description: '等待多个 Hub 任务全部完成并返回汇总结果。用于任务编排场景：批量下发后等全部结束。',
@@ -1830,22 +4018,7 @@ const plugin = {
       },
       async execute(_id: string, params: { taskIds: string[]; timeoutMs?: number }) {
         const timeout = params.timeoutMs || 600_000;
-        const startTime = Date.now();
-        const pollInterval = 2000;
-        const remaining = new Set(params.taskIds);
-
-        while (remaining.size > 0 && Date.now() - startTime < timeout) {
-          for (const taskId of [...remaining]) {
-            const task = taskStore.get(taskId);
-            if (!task) { remaining.delete(taskId); continue; }
-            if (['completed', 'failed', 'cancelled', 'timeout'].includes(task.status)) {
-              remaining.delete(taskId);
-            }
-          }
-          if (remaining.size > 0) {
-            await new Promise(resolve => setTimeout(resolve, pollInterval));
-          }
-        }
+        const { pending } = await taskStore.waitFor(params.taskIds, timeout);
 
         // 汇总结果
         const results = params.taskIds.map(taskId => {
@@ -1863,7 +4036,7 @@ const plugin = {
 
         const succeeded = results.filter(r => r.status === 'completed').length;
         const failed = results.filter(r => r.status === 'failed').length;
-        const timedOut = remaining.size;
+        const timedOut = pending.length;
 
         const lines: string[] = [
           `📊 批量任务汇总: ${succeeded} 成功, ${failed} 失败, ${timedOut} 超时\n`,
@@ -1896,11 +4069,15 @@ const plugin = {
           const cfg = client.getConfig();
           const summary = taskStore.summary();
           console.log(`\n📡 Hub 集群状态\n`);
-          console.log(`  连接:     ${status.connected ? '✅ 已连接' : '❌ 未连接'}`);
+          console.log(`  连接:     ${formatConnectionState(status.connection)}`);
+          console.log(`  传输:     ${status.transport}`);
+          if (status.connected) console.log(`  延迟:     ${formatHeartbeatStats(status.heartbeat)}`);
           console.log(`  注册:     ${status.registered ? '✅ 已注册' : '❌ 未注册'}`);
           if (status.nodeId) console.log(`  节点:     ${status.nodeId}`);
           console.log(`  自发任务: ${cfg.selfTaskMode === 'local' ? '🏠 本地模式' : '🌐 Hub 模式'}`);
           console.log(`  任务:     ${summary.running} 进行中, ${summary.completed} 完成, ${summary.failed} 失败`);
+          if (status.outbox > 0) console.log(`  发件箱:   ${status.outbox} 条待发送`);
+          if (cfg.hubServerEnabled) console.log(`  内置 Hub: ${cfg.hubServerHost}:${cfg.hubServerPort}`);
 
           if (status.registered) {
             try {
@@ -1918,13 +4095,28 @@ const plugin = {
       hub.command('nodes')
         .description('列出所有节点')
         .action(async () => {
-          const nodes = await client.fetchNodes(true);
+          // 消息路径只有 Gateway 进程知道；Gateway 未运行时直接查 Hub，路径显示为 -
+          let nodes: HubNode[];
+          try {
+            ({ nodes } = await gatewayRpc('hub.nodes', {}));
+          } catch {
+            nodes = await client.fetchNodes(true);
+          }
           if (nodes.length === 0) { console.log('暂无节点'); return; }
-          console.table(nodes.map(n => ({
-            id: n.id, name: n.name, alias: `@${n.alias}`,
-            online: n.online ? '✅' : '❌', parent: n.parentId || '(根)',
-            load: `${n.load}%`, capabilities: n.capabilities.join(','),
-          })));
+          console.table(nodes.map(n => {
+            const m = n.metrics;
+            return {
+              id: n.id, name: n.name, alias: `@${n.alias}`,
+              online: n.online ? '✅' : '❌', parent: n.parentId || '(根)',
+              path: n.path || '-',
+              load: `${n.load}%`,
+              mem: m ? `${m.memUsedPct}%` : '-',
+              disk: m?.diskFreeMb != null ? `${(m.diskFreeMb / 1024).toFixed(1)}G` : '-',
+              queue: m ? `${m.queue.dispatching + m.queue.inflight}/${m.queue.maxConcurrent} +${m.queue.queued}` : '-',
+              tasks: n.activeTasks ?? 0,
+              capabilities: n.capabilities.join(','),
+            };
+          }));
         });
 
       hub.command('tree')
@@ -1979,22 +4171,70 @@ const plugin = {
           }
         });
 
-      hub.command('send <nodeId> <instruction>')
-        .description('给节点发送指令')
-        .option('--timeout <ms>', '超时毫秒', '300000')
-        .action(async (nodeId: string, instruction: string, opts: any) => {
+      hub.command('send <nodeId> [instruction]')
+        .description('给节点发送指令（用 --requires 按能力自动选择节点时省略 nodeId）')
+        .option('--timeout <ms>', '超时毫秒（默认 taskTimeoutMs）')
+        .option('--requires <caps>', '所需能力，逗号分隔，如 gpu,browser')
+        .option('--strategy <strategy>', '能力选择策略: least-loaded | least-tasks | random', 'least-loaded')
+        .option('--priority <priority>', '排队优先级: high | normal | low', 'normal')
+        .option('--retries <n>', '失败后最多重试次数', '0')
+        .option('--retry-backoff <ms>', '首次重试前等待毫秒数（之后翻倍）', '5000')
+        .option('--failover', '重试时改派到其他具备相同能力的节点')
+        .option('--attach <files>', '随任务发送的本地文件，逗号分隔')
+        .option('--collect', '要求目标节点回传输出目录中的产物')
+        .action(async (nodeArg: string, instructionArg: string | undefined, opts: any) => {
           if (!client.isRegistered()) { console.error('❌ Hub 未注册'); return; }
-          if (isSelfNode(nodeId) && client.getConfig().selfTaskMode === 'local') {
-            console.log(`📤 本地执行: ${instruction}`);
-            const taskId = randomUUID();
-            taskStore.recordSent(taskId, nodeId, client.getConfig().nodeName, instruction, 'local');
-            const result = await executeTaskLocally(instruction, parseInt(opts.timeout));
-            taskStore.recordResult(taskId, result);
-            console.log(result.success ? `✅ ${result.result}` : `❌ ${result.error}`);
+          const priority = parsePriority(opts.priority);
+          if (!priority) { console.error(`❌ 无效的优先级: ${opts.priority}`); return; }
+          const retry = parseRetryPolicy({
+            maxAttempts: (parseInt(opts.retries) || 0) + 1,
+            backoffMs: parseInt(opts.retryBackoff),
+            failover: !!opts.failover,
+          });
+          // hub send "指令" --requires gpu
+          const instruction = opts.requires && instructionArg === undefined ? nodeArg : instructionArg;
+          if (!instruction) { console.error('❌ 缺少指令内容'); return; }
+          // 网关进程的工作目录不同，附件先转成绝对路径
+          const attachments = parseAttachments(opts.attach)?.map(p => path.resolve(p));
+          const collectArtifacts = opts.collect === true;
+          const params = {
+            ...(opts.requires ? { requires: opts.requires, strategy: opts.strategy } : { nodeId: nodeArg }),
+            instruction, priority, retry, timeoutMs: parseTimeoutMs(opts.timeout), attachments, collectArtifacts,
+          };
+
+          // 任务记录、重试计时器和 Hub 连接都在网关进程；网关未运行时才在本进程下发
+          let sent: { taskId: string; nodeId: string; nodeName?: string; selector?: TargetSelector };
+          let viaGateway = true;
+          try {
+            sent = await gatewayRpc('hub.task.send', params);
+          } catch (err: any) {
+            if (!(err instanceof GatewayUnreachableError)) { console.error(`❌ 发送失败: ${err.message}`); return; }
+            viaGateway = false;
+            try {
+              const taskId = await sendTaskAndTrack(targetFromParams(params)!, instruction, params);
+              const task = taskStore.get(taskId)!;
+              sent = { taskId, nodeId: task.targetNodeId, nodeName: task.targetNodeName, selector: task.selector };
+            } catch (e: any) {
+              console.error(`❌ 发送失败: ${e.message}`); return;
+            }
+          }
+          if (sent.selector) console.log(`🎯 按能力选择: ${describeSelector(sent.selector)} → ${sent.nodeName || sent.nodeId}`);
+
+          if (!isSelfNode(sent.nodeId) || client.getConfig().selfTaskMode !== 'local' || retry || attachments || collectArtifacts) {
+            console.log(`✅ 任务已下发, taskId: ${sent.taskId}${retry ? ` (最多尝试 ${retry.maxAttempts} 次)` : ''}${attachments ? `, 附件 ${attachments.length} 个` : ''}`);
+            return;
+          }
+          // 自发本地任务同步等结果
+          console.log(`📤 本地执行: ${instruction}`);
+          let task: StoredTask | null;
+          if (viaGateway) {
+            do {
+              ({ tasks: [task] } = await gatewayRpc('hub.task.wait', { taskId: sent.taskId, timeoutMs: 60_000 }, 70_000));
+            } while (task && !isFinalTaskStatus(task.status));
           } else {
-            const taskId = await sendTaskAndTrack(nodeId, instruction);
-            console.log(`✅ 任务已下发, taskId: ${taskId}`);
+            task = await waitTaskSettled(sent.taskId);
           }
+          console.log(task?.status === 'completed' ? `✅ ${task.result}` : `❌ ${task?.error || task?.status || '任务记录丢失'}`);
         });
 
       hub.command('tasks')
@@ -2006,15 +4246,207 @@ const plugin = {
           console.table(tasks.map(t => ({
             id: t.taskId.substring(0, 8),
             target: t.targetNodeId.substring(0, 8),
-            status: t.status,
+            status: t.status === 'queued' && t.queuePosition ? `queued #${t.queuePosition}` : t.status,
+            priority: t.priority || 'normal',
+            attempts: t.attempts ? `${t.attempts.length}/${t.retry?.maxAttempts ?? t.attempts.length}` : '-',
             instruction: t.instruction.substring(0, 40),
             duration: t.durationMs ? `${(t.durationMs / 1000).toFixed(1)}s` : '-',
+            files: t.artifacts?.length || '-',
+          })));
+        });
+
+      hub.command('artifacts <taskId>')
+        .description('查看任务产物，--out 复制到本地目录')
+        .option('--out <dir>', '复制产物到该目录')
+        .action(async (taskArg: string, opts: any) => {
+          // 支持 hub tasks 表格中的短 ID
+          const task = taskStore.get(taskArg) || taskStore.list().find(t => t.taskId.startsWith(taskArg));
+          if (!task) { console.error(`❌ 任务不存在: ${taskArg}`); return; }
+          const artifacts = artifactStore.list(task.taskId);
+          if (artifacts.length === 0) { console.log('该任务没有产物'); return; }
+          if (opts.out) {
+            try {
+              const copied = artifactStore.copyTo(task.taskId, path.resolve(opts.out));
+              console.log(`✅ 已复制 ${copied.length} 个产物到 ${path.resolve(opts.out)}`);
+            } catch (err: any) {
+              console.error(`❌ 复制失败: ${err.message}`);
+            }
+            return;
+          }
+          console.table(artifacts.map(a => ({
+            name: a.name,
+            mime: a.mime,
+            size: formatBytes(a.size),
+            sha256: a.sha256.substring(0, 12),
           })));
         });
 
+      // push / pull 交给运行中的 Gateway 执行（传输需要保持 Hub 连接），CLI 只轮询进度
+      const runTransfer = async (method: 'hub.file.push' | 'hub.file.pull', params: any) => {
+        try {
+          let { transfer } = await gatewayRpc(method, params);
+          console.log(`📦 ${transfer.transferId}`);
+          while (transfer.status === 'pending' || transfer.status === 'transferring') {
+            ({ transfer } = await gatewayRpc('hub.file.get', { transferId: transfer.transferId, waitMs: 2000 }, 10_000));
+            if (process.stdout.isTTY) process.stdout.write(`\r${formatTransfer(transfer)}`);
+          }
+          if (process.stdout.isTTY) process.stdout.write('\n');
+          console.log(formatTransfer(transfer));
+        } catch (err: any) {
+          console.error(`❌ ${err.message}`);
+        }
+      };
+
+      hub.command('push <node> <localPath> <remotePath>')
+        .description('推送本地文件到节点（相对路径落在对端 hub-data/files 下）')
+        .action(async (node: string, localPath: string, remotePath: string) => {
+          await runTransfer('hub.file.push', { nodeId: node, localPath: path.resolve(localPath), remotePath });
+        });
+
+      hub.command('pull <node> <remotePath> <localPath>')
+        .description('从节点拉取文件到本地')
+        .action(async (node: string, remotePath: string, localPath: string) => {
+          await runTransfer('hub.file.pull', { nodeId: node, remotePath, localPath: path.resolve(localPath) });
+        });
+
+      const workflow = hub.command('workflow').description('任务工作流（DAG）');
+
+      workflow.command('run <file>')
+        .description('运行工作流定义文件（JSON）')
+        .option('--input <kv...>', '输入变量 key=value，可重复')
+        .option('--no-wait', '启动后立即返回')
+        .action(async (file: string, opts: any) => {
+          try {
+            const definition = JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+            let { run } = await gatewayRpc('hub.workflow.run', { workflow: definition, inputs: opts.input || [] });
+            console.log(`🚀 工作流已启动, runId: ${run.runId}`);
+            if (!opts.wait) return;
+            while (run.status === 'running') {
+              ({ run } = await gatewayRpc('hub.workflow.get', { runId: run.runId, waitMs: 5000 }, 15_000));
+            }
+            console.log(formatWorkflow(run));
+            const results = formatWorkflowResults(run);
+            if (results) console.log(`\n${results}`);
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
+      workflow.command('status <runId>')
+        .description('查看工作流运行状态')
+        .action(async (runId: string) => {
+          try {
+            const { run } = await gatewayRpc('hub.workflow.get', { runId });
+            console.log(formatWorkflow(run));
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
+      workflow.command('cancel <runId>')
+        .description('取消工作流')
+        .action(async (runId: string) => {
+          try {
+            const { run } = await gatewayRpc('hub.workflow.cancel', { runId });
+            console.log(formatWorkflow(run));
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
+      const schedule = hub.command('schedule').description('定时任务');
+
+      schedule.command('add <instruction>')
+        .description('新增定时任务（--cron 或 --at 二选一）')
+        .option('--cron <expr>', '5 段 cron（分 时 日 月 周），如 "0 9 * * 1-5"')
+        .option('--at <time>', '一次性执行时间，如 2026-10-20T09:00 或 +10m')
+        .option('--node <nodeId>', '目标节点 ID 或别名')
+        .option('--requires <caps>', '按能力选择节点，逗号分隔')
+        .option('--name <name>', '名称')
+        .option('--missed <policy>', '停机错过执行时: once（补跑一次，默认）| skip', 'once')
+        .action(async (instruction: string, opts: any) => {
+          try {
+            const { schedule: created } = await gatewayRpc('hub.schedule.add', {
+              instruction,
+              cron: opts.cron,
+              at: opts.at,
+              nodeId: opts.node,
+              requires: opts.requires,
+              name: opts.name,
+              missedPolicy: opts.missed,
+            });
+            console.log(`✅ 已创建\n${formatSchedule(created)}`);
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
+      schedule.command('list')
+        .description('查看定时任务')
+        .action(async () => {
+          try {
+            const { schedules } = await gatewayRpc('hub.schedule.list', {});
+            if (schedules.length === 0) { console.log('暂无定时任务'); return; }
+            console.table(schedules.map((s: Schedule) => ({
+              id: s.scheduleId.substring(0, 8),
+              name: s.name || s.instruction.substring(0, 30),
+              when: s.cron || new Date(s.at!).toLocaleString(),
+              target: typeof s.target === 'string' ? s.target.substring(0, 8) : (s.target.requires || []).join('+'),
+              next: s.enabled && s.nextRunAt ? new Date(s.nextRunAt).toLocaleString() : '-',
+              runs: s.runCount,
+              last: s.lastError ? `❌ ${s.lastError.substring(0, 30)}` : (s.lastTaskId?.substring(0, 8) || '-'),
+            })));
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
+      schedule.command('rm <scheduleId>')
+        .description('删除定时任务（可用 list 中的短 ID）')
+        .action(async (scheduleId: string) => {
+          try {
+            await gatewayRpc('hub.schedule.remove', { scheduleId });
+            console.log('✅ 已删除');
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
+      hub.command('outbox')
+        .description('查看或清除离线发件箱（断线期间待发送的消息）')
+        .option('--purge', '清除发件箱')
+        .option('--id <id>', '只清除指定条目（配合 --purge）')
+        .action(async (opts: any) => {
+          // 发件箱由网关进程持有，CLI 直接改文件会被网关的内存副本覆盖
+          try {
+            const { entries }: { entries: OutboxEntry[] } = await gatewayRpc('hub.outbox', {});
+            if (opts.purge) {
+              // 支持表格中显示的短 ID
+              const ids = opts.id
+                ? entries.filter(e => e.id.startsWith(opts.id)).map(e => e.id)
+                : undefined;
+              if (ids && ids.length === 0) { console.error(`❌ 未找到条目: ${opts.id}`); return; }
+              const { removed } = await gatewayRpc('hub.outbox.purge', { ids });
+              console.log(`✅ 已清除 ${removed} 条待发消息`);
+              return;
+            }
+            if (entries.length === 0) { console.log('发件箱为空'); return; }
+            console.table(entries.map(e => ({
+              id: e.id.substring(0, 8),
+              type: e.message.type,
+              to: e.message.to?.substring(0, 8) || '-',
+              msgId: e.message.id.substring(0, 8),
+              enqueued: new Date(e.enqueuedAt).toLocaleString(),
+              expires: new Date(e.expiresAt).toLocaleString(),
+            })));
+          } catch (err: any) {
+            console.error(`❌ ${err.message}`);
+          }
+        });
+
       hub.command('connect').description('手动连接').action(async () => {
         await client.connect();
-        console.log(client.isConnected() ? '✅ 已连接' : '⏳ 连接中...');
+        console.log(formatConnectionState(client.getConnectionState()));
       });
 
       hub.command('disconnect').description('断开连接').action(() => {
@@ -2051,25 +4483,73 @@ const plugin = {
             console.error(`❌ 失败: ${err.message}`);
           }
         });
+
+      hub.command('dev-server')
+        .description('启动本地 Hub 替身（开发/集成测试用，状态仅在内存中）')
+        .option('--port <port>', '监听端口', String(DEV_HUB_DEFAULT_PORT))
+        .option('--host <host>', '监听地址（局域网内多机测试用 0.0.0.0）', '127.0.0.1')
+        .option('--admin-key <key>', '管理密钥（X-Admin-Key 请求跳过权限检查）')
+        .action(async (opts: any) => {
+          const devHub = new DevHub({
+            port: parseInt(opts.port) || DEV_HUB_DEFAULT_PORT,
+            host: opts.host,
+            adminKey: opts.adminKey,
+            logger: { info: (...args: any[]) => console.log(...args), warn: (...args: any[]) => console.warn(...args) },
+          });
+          let url: string;
+          try {
+            url = await devHub.start();
+          } catch (err: any) {
+            console.error(`❌ 启动失败: ${err.message}`);
+            return;
+          }
+          console.log(`✅ 本地 Hub 已启动: ${url}`);
+          console.log(`\n各节点配置 hubUrl 指向它后注册（同一台机器上的多个 Gateway 用不同 HOME 区分）:`);
+          console.log(`  "hubUrl": "${url}"`);
+          console.log(`  openclaw hub register --name "节点名" --alias "别名"`);
+          console.log('\nCtrl+C 停止');
+          await new Promise<void>(resolve => {
+            process.once('SIGINT', resolve);
+            process.once('SIGTERM', resolve);
+          });
+          await devHub.stop();
+          console.log('\n本地 Hub 已停止');
+        });
     }, { commands: ['hub'] });
 
     // ------------------------------------------------------------------
     // 后台服务
     // ------------------------------------------------------------------
 
+    /** 启动后延迟自动连接；服务在此之前停止时取消，避免停止后又连上 Hub */
+    let autoConnectTimer: ReturnType<typeof setTimeout> | null = null;
+
     api.registerService({
       id: 'cluster-hub-ws',
       start: async () => {
         try {
           const port = pluginApi.runtime.config.loadConfig()?.gateway?.port || 18789;
-          api.logger.info(`[cluster-hub] Gateway RPC: ws://127.0.0.1:${port}`);
+          api.logger.info(`[cluster-hub] Gateway RPC: ws://127.0.0.1:${port}（长连接复用）`);
         } catch (err: any) {
           api.logger.warn(`[cluster-hub] Gateway 配置读取失败: ${err.message}`);
         }
+        gatewayPooled = true;
+
+        reconcileLocalTasks();
+        // 先恢复持久化的任务队列，恢复不了的才作为孤儿任务上报
+        taskQueue.restore();
+        reportOrphanedTasks();
+        rearmRetries();
+        startTimeoutSweeper();
+        workflowRunner.start();
+        scheduler.start();
+        await startHubServer();
+        await startLanPeering();
 
         if (client.isRegistered() && client.getConfig().autoConnect) {
           api.logger.info('[cluster-hub] 后台服务启动，自动连接 Hub...');
-          setTimeout(() => {
+          autoConnectTimer = setTimeout(() => {
+            autoConnectTimer = null;
             client.connect().catch((err: any) => {
               api.logger.error(`[cluster-hub] 自动连接失败: ${err.message}`);
             });
@@ -2080,11 +4560,30 @@ const plugin = {
       },
       stop: () => {
         api.logger.info('[cluster-hub] 后台服务停止，写盘...');
+        if (autoConnectTimer) clearTimeout(autoConnectTimer);
+        autoConnectTimer = null;
+        for (const taskId of [...retryTimers.keys()]) clearRetry(taskId);
+        stopTimeoutSweeper();
+        fileTransfers?.shutdown();
+        workflowRunner?.stop();
+        scheduler?.stop();
+        gatewayPooled = false;
+        gatewayConn?.close();
+        lan?.stop();
+        lan = null;
         taskStore?.flush();
         receivedTaskStore?.flush();
         chatStore?.flush();
         nodeEventStore?.flush();
+        outboxStore?.flush();
+        taskQueueStore?.flush();
+        fileTransferStore?.flush();
+        workflowStore?.flush();
+        scheduleStore?.flush();
         client.disconnect();
+        // 先断开本节点，再停内置 Hub（停止时注册表写盘）
+        hubServer?.stop().catch(() => { });
+        hubServer = null;
       },
     });
   },
@@ -2094,6 +4593,48 @@ const plugin = {
 // 辅助函数
 // ============================================================================
 
+function formatConnectionState(info: ConnectionStateInfo): string {
+  switch (info.state) {
+    case 'open': return '✅ 已连接';
+    case 'connecting': return '⏳ 连接中';
+    case 'backoff': {
+      const wait = info.nextReconnectAt ? Math.max(0, Math.round((info.nextReconnectAt - Date.now()) / 1000)) : 0;
+      return `🔁 等待重连 (第 ${info.reconnectAttempts} 次, ${wait}s 后)`;
+    }
+    case 'auth_failed': return `⛔ 认证失败，已停止重连${info.lastError ? ` (${info.lastError})` : ''}`;
+    default: return '❌ 未连接';
+  }
+}
+
+function formatNodePath(path: 'local' | 'lan' | 'hub'): string {
+  switch (path) {
+    case 'local': return '本节点';
+    case 'lan': return '局域网直连';
+    default: return 'Hub 中转';
+  }
+}
+
+/** 节点资源摘要：CPU / 内存 / 磁盘 / 任务队列 */
+function formatNodeMetrics(n: HubNode): string {
+  const m = n.metrics;
+  if (!m) return `负载: ${n.load}% | 活跃任务: ${n.activeTasks ?? 0}`;
+  const parts = [
+    `CPU: ${m.cpuLoad}% (${m.cpuCount} 核)`,
+    `内存: ${m.memUsedPct}% (空闲 ${(m.memFreeMb / 1024).toFixed(1)}/${(m.memTotalMb / 1024).toFixed(1)}G)`,
+  ];
+  if (m.diskFreeMb != null) parts.push(`磁盘剩余: ${(m.diskFreeMb / 1024).toFixed(1)}G`);
+  parts.push(`队列: ${m.queue.dispatching + m.queue.inflight}/${m.queue.maxConcurrent} 执行中, ${m.queue.queued} 排队`);
+  if (m.agentMaxConcurrent != null) parts.push(`Agent 并发上限: ${m.agentMaxConcurrent}`);
+  return parts.join(' | ');
+}
+
+function formatHeartbeatStats(stats: HeartbeatStats): string {
+  if (!stats.acknowledged || stats.lastRttMs === null) return '— (Hub 未回应心跳)';
+  const parts = [`RTT ${stats.lastRttMs}ms`, `平均 ${stats.avgRttMs}ms`, `${stats.minRttMs}~${stats.maxRttMs}ms`];
+  if (stats.missed > 0) parts.push(`⚠️ ${stats.missed} 次未回应`);
+  return parts.join(', ');
+}
+
 function printTree(node: any, prefix: string, isLast: boolean): void {
   const icon = node.online ? '🟢' : '⚫';
   const connector = isLast ? '└── ' : '├── ';
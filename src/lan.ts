@@ -0,0 +1,496 @@
+/**
+ * 局域网直连 — 同一网络内的节点绕过云端 Hub，直接通过本地 WebSocket 收发消息
+ *
+ * 发现：UDP 广播（以及 lanPeers 里的单播地址）周期性宣告 { nodeId, clusterId, port }，只认同集群节点；
+ *       收到新节点的宣告后单播回一条自己的宣告，双方无需等下一轮广播。
+ * 密钥：每对节点一把，A 给 B 的 lanKey = HMAC-SHA256(tokenA, 'cluster-hub-lan|A|B')，经 Hub 中转的 direct 消息
+ *       （event=lan_key）只发给 B。Hub 只在同集群内转发且 from 由 Hub 填写，因此收到的密钥可信；
+ *       token 本身不离开节点，第三个节点拿到的是 A 给它的另一把密钥，无法冒充 A 与 B 握手。
+ * 握手：被连方发 challenge(nonce)，发起方回 hello(用自己给对方的 lanKey 签名)，被连方校验后回 welcome(同样签名)，
+ *       双向认证后才收发业务消息。nodeId 较小的一方负责发起连接，避免双方同时拨号。
+ * 路由：与目标节点有直连时，带 to 的业务消息（task / result / chat / file …）走直连；
+ *       没有直连或发送失败时回落 Hub 中转，调用方无感知。
+ */
+
+import dgram from 'dgram';
+import os from 'os';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { WebSocket as WsSocket, WebSocketServer } from 'ws';
+import type { WSMessage } from './types.js';
+
+/** 宣告 / 保活 / 过期检查周期 (ms) */
+export const LAN_ANNOUNCE_INTERVAL_MS = 10_000;
+/** 超过该时长没有收到宣告且没有直连的节点从列表移除 (ms) */
+const PEER_EXPIRE_MS = LAN_ANNOUNCE_INTERVAL_MS * 4;
+/** 握手超时 (ms) */
+const HANDSHAKE_TIMEOUT_MS = 5_000;
+/** 握手被拒（对方还没收到我们的密钥）后重拨的等待时间 (ms) */
+const REDIAL_DELAY_MS = 1_000;
+/** 不走直连的消息类型：Hub 控制面消息和心跳（收到这类直连帧直接丢弃） */
+const HUB_ONLY_TYPES = new Set(['direct', 'broadcast', 'heartbeat', 'subscribe']);
+const ANNOUNCE_KIND = 'cluster-hub-lan';
+const KEY_CONTEXT = 'cluster-hub-lan';
+
+type PluginLogger = {
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+};
+
+export interface LanIdentity {
+  nodeId: string;
+  clusterId: string;
+  token: string;
+}
+
+export interface LanPeeringOptions {
+  /** 每次使用时读取；未注册时返回 null */
+  identity: () => LanIdentity | null;
+  /** 直连 WebSocket 监听端口，0 表示随机 */
+  port: number;
+  /** UDP 发现端口（广播收发都用这个端口） */
+  discoveryPort: number;
+  /** 额外的单播发现地址 host[:port]，广播不通的网络里使用 */
+  staticPeers: string[];
+  logger: PluginLogger;
+  /** 经 Hub 发 direct 消息（交换密钥），Hub 未连接时返回 false */
+  sendViaHub: (to: string, payload: any) => boolean;
+  /** 直连收到的业务消息（from 已替换为认证过的节点 ID） */
+  onMessage: (msg: WSMessage) => void;
+  /** 直连建立 / 断开 */
+  onPathChange?: (nodeId: string, path: 'lan' | 'hub') => void;
+}
+
+export interface LanPeerStatus {
+  nodeId: string;
+  address: string | null;
+  path: 'lan' | 'hub';
+  /** 直连建立时间 */
+  linkedAt: number | null;
+  lastSeen: number;
+  sent: number;
+  received: number;
+}
+
+/** 随 hub.status 返回 */
+export interface LanStatus {
+  port: number | null;
+  discoveryPort: number;
+  peers: LanPeerStatus[];
+}
+
+interface LanPeer {
+  nodeId: string;
+  address: string | null;
+  port: number | null;
+  lastSeen: number;
+  /** 对方给本节点的 lanKey（经 Hub 收到） */
+  key: string | null;
+  link: WsSocket | null;
+  linkedAt: number | null;
+  alive: boolean;
+  dialing: boolean;
+  redialTimer: ReturnType<typeof setTimeout> | null;
+  sent: number;
+  received: number;
+}
+
+interface Announce {
+  kind: typeof ANNOUNCE_KIND;
+  nodeId: string;
+  clusterId: string;
+  port: number;
+}
+
+/** selfId 发给 peerId 的直连密钥（每对节点不同） */
+export function deriveLanKey(token: string, selfId: string, peerId: string): string {
+  return createHmac('sha256', token).update(`${KEY_CONTEXT}|${selfId}|${peerId}`).digest('hex');
+}
+
+function sign(key: string, ...parts: string[]): string {
+  return createHmac('sha256', key).update(parts.join('|')).digest('hex');
+}
+
+function verify(key: string, signature: unknown, ...parts: string[]): boolean {
+  if (typeof signature !== 'string') return false;
+  const expected = Buffer.from(sign(key, ...parts), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export class LanPeering {
+  private peers = new Map<string, LanPeer>();
+  private udp: dgram.Socket | null = null;
+  private wss: WebSocketServer | null = null;
+  /** ws 包的 WebSocket 类（拨号用，支持 ping / terminate） */
+  private WsClient: typeof WsSocket | null = null;
+  private listenPort: number | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  /** 发送失败过的宣告地址，只告警一次（部分网络不允许广播） */
+  private failedTargets = new Set<string>();
+
+  constructor(private opts: LanPeeringOptions) { }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    const { WebSocket, WebSocketServer } = await import('ws');
+    this.WsClient = WebSocket;
+
+    const wss = new WebSocketServer({ port: this.opts.port, host: '0.0.0.0' });
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', () => resolve());
+      wss.once('error', reject);
+    });
+    wss.on('connection', (ws, req) => this.accept(ws, req.socket.remoteAddress || null));
+    this.wss = wss;
+    const address = wss.address();
+    this.listenPort = typeof address === 'object' && address ? address.port : this.opts.port;
+
+    const udp = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    udp.on('message', (data, rinfo) => this.handleAnnounce(data, rinfo));
+    udp.on('error', (err) => this.opts.logger.warn(`[cluster-hub] 局域网发现出错: ${err.message}`));
+    await new Promise<void>((resolve, reject) => {
+      udp.once('error', reject);
+      udp.bind(this.opts.discoveryPort, () => {
+        udp.off('error', reject);
+        udp.setBroadcast(true);
+        resolve();
+      });
+    });
+    this.udp = udp;
+
+    this.tickTimer = setInterval(() => this.tick(), LAN_ANNOUNCE_INTERVAL_MS);
+    this.tickTimer.unref?.();
+    this.opts.logger.info(`[cluster-hub] 局域网直连已启动: ws 端口 ${this.listenPort}, 发现端口 ${this.opts.discoveryPort}`);
+    this.announce();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.tickTimer = null;
+    for (const peer of this.peers.values()) {
+      if (peer.redialTimer) clearTimeout(peer.redialTimer);
+      peer.link?.close(1001, 'stopped');
+    }
+    this.peers.clear();
+    this.udp?.close();
+    this.udp = null;
+    const wss = this.wss;
+    this.wss = null;
+    if (wss) await new Promise<void>(resolve => wss.close(() => resolve()));
+    this.listenPort = null;
+  }
+
+  /** 有直连时经直连发送并返回 true；否则返回 false，由调用方走 Hub */
+  send(msg: WSMessage): boolean {
+    if (!msg.to || HUB_ONLY_TYPES.has(msg.type)) return false;
+    const peer = this.peers.get(msg.to);
+    const link = peer?.link;
+    if (!peer || !link || link.readyState !== link.OPEN) return false;
+    try {
+      link.send(JSON.stringify(msg));
+      peer.sent++;
+      return true;
+    } catch (err: any) {
+      this.opts.logger.warn(`[cluster-hub] 直连发送失败，回落 Hub: ${peer.nodeId} ${err.message}`);
+      return false;
+    }
+  }
+
+  pathTo(nodeId: string): 'lan' | 'hub' {
+    return this.peers.get(nodeId)?.linkedAt ? 'lan' : 'hub';
+  }
+
+  status(): LanStatus {
+    return {
+      port: this.listenPort,
+      discoveryPort: this.opts.discoveryPort,
+      peers: [...this.peers.values()].map(peer => ({
+        nodeId: peer.nodeId,
+        address: peer.address,
+        path: peer.linkedAt ? 'lan' : 'hub',
+        linkedAt: peer.linkedAt,
+        lastSeen: peer.lastSeen,
+        sent: peer.sent,
+        received: peer.received,
+      })),
+    };
+  }
+
+  /** 立即宣告一次（Hub 重连后调用，让对方尽快拿到密钥） */
+  announce(): void {
+    const udp = this.udp;
+    const self = this.opts.identity();
+    if (!udp || !self || !this.listenPort) return;
+    const data = Buffer.from(JSON.stringify(this.announcement(self)));
+    const targets = [
+      ...broadcastAddresses().map(host => ({ host, port: this.opts.discoveryPort })),
+      ...this.opts.staticPeers.map(entry => parseHostPort(entry, this.opts.discoveryPort)),
+    ];
+    for (const { host, port } of targets) {
+      udp.send(data, port, host, (err) => {
+        if (!err || this.failedTargets.has(host)) return;
+        this.failedTargets.add(host);
+        this.opts.logger.warn(`[cluster-hub] 局域网宣告失败 ${host}:${port}: ${err.message}`);
+      });
+    }
+  }
+
+  /** Hub 转来的 direct 消息 event=lan_key */
+  handleKey(from: string, payload: any): void {
+    const self = this.opts.identity();
+    if (!self || !from || from === self.nodeId || typeof payload?.key !== 'string') return;
+    const peer = this.peer(from);
+    peer.key = payload.key;
+    if (payload.want) this.sendKey(peer, false);
+    this.maybeDial(peer);
+  }
+
+  // ========================================================================
+  // 发现
+  // ========================================================================
+
+  private announcement(self: LanIdentity): Announce {
+    return { kind: ANNOUNCE_KIND, nodeId: self.nodeId, clusterId: self.clusterId, port: this.listenPort! };
+  }
+
+  private handleAnnounce(data: Buffer, rinfo: dgram.RemoteInfo): void {
+    let announce: Announce;
+    try {
+      announce = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    const self = this.opts.identity();
+    if (!self || announce?.kind !== ANNOUNCE_KIND || typeof announce.nodeId !== 'string') return;
+    if (announce.nodeId === self.nodeId || announce.clusterId !== self.clusterId) return;
+    if (!Number.isInteger(announce.port) || announce.port <= 0) return;
+
+    const isNew = !this.peers.has(announce.nodeId);
+    const peer = this.peer(announce.nodeId);
+    peer.address = rinfo.address;
+    peer.port = announce.port;
+    peer.lastSeen = Date.now();
+
+    if (isNew) {
+      this.opts.logger.info(`[cluster-hub] 局域网发现节点 ${peer.nodeId} (${rinfo.address}:${announce.port})`);
+      // 单播回一条宣告，对方不用等下一轮广播
+      this.udp?.send(Buffer.from(JSON.stringify(this.announcement(self))), rinfo.port, rinfo.address);
+    }
+    // 还没拿到对方密钥：发出自己的并请对方回一份
+    if (!peer.key) this.sendKey(peer, true);
+    this.maybeDial(peer);
+  }
+
+  private sendKey(peer: LanPeer, want: boolean): void {
+    const self = this.opts.identity();
+    if (!self) return;
+    this.opts.sendViaHub(peer.nodeId, { event: 'lan_key', key: deriveLanKey(self.token, self.nodeId, peer.nodeId), want });
+  }
+
+  private peer(nodeId: string): LanPeer {
+    let peer = this.peers.get(nodeId);
+    if (!peer) {
+      peer = {
+        nodeId, address: null, port: null, lastSeen: Date.now(), key: null,
+        link: null, linkedAt: null, alive: false, dialing: false, redialTimer: null, sent: 0, received: 0,
+      };
+      this.peers.set(nodeId, peer);
+    }
+    return peer;
+  }
+
+  /** 周期任务：宣告、保活探测、过期清理、补拨 */
+  private tick(): void {
+    this.announce();
+    const now = Date.now();
+    for (const peer of [...this.peers.values()]) {
+      if (peer.link) {
+        if (!peer.alive) {
+          this.opts.logger.warn(`[cluster-hub] 直连无响应，断开: ${peer.nodeId}`);
+          peer.link.terminate();
+          continue;
+        }
+        peer.alive = false;
+        peer.link.ping();
+      } else if (now - peer.lastSeen > PEER_EXPIRE_MS) {
+        if (peer.redialTimer) clearTimeout(peer.redialTimer);
+        this.peers.delete(peer.nodeId);
+      } else {
+        this.maybeDial(peer);
+      }
+    }
+  }
+
+  // ========================================================================
+  // 直连握手
+  // ========================================================================
+
+  private maybeDial(peer: LanPeer): void {
+    const self = this.opts.identity();
+    if (!this.running || !self || !this.WsClient) return;
+    if (peer.link || peer.dialing || peer.redialTimer || !peer.address || !peer.port || !peer.key) return;
+    if (self.nodeId > peer.nodeId) return;
+
+    peer.dialing = true;
+    const url = `ws://${peer.address.includes(':') ? `[${peer.address}]` : peer.address}:${peer.port}/`;
+    const ws = new this.WsClient(url);
+    const nonce = randomBytes(16).toString('hex');
+    const timer = setTimeout(() => ws.terminate(), HANDSHAKE_TIMEOUT_MS);
+    let step: 'challenge' | 'welcome' | 'open' = 'challenge';
+
+    ws.on('message', (data) => {
+      const frame = parseFrame(data);
+      if (!frame) return;
+      if (step === 'open') {
+        this.receive(peer, ws, frame);
+        return;
+      }
+      if (step === 'challenge' && frame.lan === 'challenge' && frame.nodeId === peer.nodeId && typeof frame.nonce === 'string') {
+        ws.send(JSON.stringify({
+          lan: 'hello', nodeId: self.nodeId, nonce,
+          sig: sign(deriveLanKey(self.token, self.nodeId, peer.nodeId), 'hello', self.nodeId, peer.nodeId, frame.nonce),
+        }));
+        step = 'welcome';
+        return;
+      }
+      if (step === 'welcome' && frame.lan === 'welcome' && peer.key && verify(peer.key, frame.sig, 'welcome', peer.nodeId, self.nodeId, nonce)) {
+        clearTimeout(timer);
+        step = 'open';
+        this.linkUp(peer, ws);
+        return;
+      }
+      this.opts.logger.warn(`[cluster-hub] 直连握手失败: ${peer.nodeId} 签名或应答无效`);
+      ws.terminate();
+    });
+
+    ws.on('close', (code) => {
+      clearTimeout(timer);
+      peer.dialing = false;
+      if (peer.link === ws) {
+        this.linkDown(peer);
+      } else if (code === 4002 && this.running && !peer.redialTimer) {
+        // 对方还没收到我们的密钥，稍后重拨
+        peer.redialTimer = setTimeout(() => {
+          peer.redialTimer = null;
+          this.maybeDial(peer);
+        }, REDIAL_DELAY_MS);
+      }
+    });
+    ws.on('error', () => { /* close 里处理 */ });
+  }
+
+  private accept(ws: WsSocket, address: string | null): void {
+    const self = this.opts.identity();
+    if (!self) {
+      ws.close(4003, 'not registered');
+      return;
+    }
+    const nonce = randomBytes(16).toString('hex');
+    const timer = setTimeout(() => ws.terminate(), HANDSHAKE_TIMEOUT_MS);
+    let peer: LanPeer | null = null;
+
+    ws.send(JSON.stringify({ lan: 'challenge', nodeId: self.nodeId, nonce }));
+    ws.on('message', (data) => {
+      const frame = parseFrame(data);
+      if (!frame) return;
+      if (peer) {
+        this.receive(peer, ws, frame);
+        return;
+      }
+      const known = typeof frame.nodeId === 'string' ? this.peers.get(frame.nodeId) : undefined;
+      if (frame.lan !== 'hello' || typeof frame.nonce !== 'string' || !known) {
+        ws.close(4003, 'unknown peer');
+        return;
+      }
+      if (!known.key) {
+        ws.close(4002, 'key unknown');
+        return;
+      }
+      if (!verify(known.key, frame.sig, 'hello', known.nodeId, self.nodeId, nonce)) {
+        this.opts.logger.warn(`[cluster-hub] 直连握手失败: ${known.nodeId} 签名无效`);
+        ws.close(4003, 'bad signature');
+        return;
+      }
+      clearTimeout(timer);
+      ws.send(JSON.stringify({
+        lan: 'welcome', nodeId: self.nodeId,
+        sig: sign(deriveLanKey(self.token, self.nodeId, known.nodeId), 'welcome', self.nodeId, known.nodeId, frame.nonce),
+      }));
+      peer = known;
+      if (address) peer.address = address.replace(/^::ffff:/, '');
+      this.linkUp(peer, ws);
+    });
+    ws.on('close', () => {
+      clearTimeout(timer);
+      if (peer?.link === ws) this.linkDown(peer);
+    });
+    ws.on('error', () => { /* close 里处理 */ });
+  }
+
+  private linkUp(peer: LanPeer, ws: WsSocket): void {
+    const previous = peer.link;
+    peer.link = ws;
+    peer.linkedAt = Date.now();
+    peer.alive = true;
+    peer.lastSeen = peer.linkedAt;
+    ws.on('pong', () => { peer.alive = true; });
+    // 重复连接：新连接顶替旧连接
+    if (previous && previous !== ws) previous.close(4000, 'replaced');
+    this.opts.logger.info(`[cluster-hub] 局域网直连已建立: ${peer.nodeId} (${peer.address})`);
+    if (!previous) this.opts.onPathChange?.(peer.nodeId, 'lan');
+  }
+
+  private linkDown(peer: LanPeer): void {
+    peer.link = null;
+    peer.linkedAt = null;
+    peer.alive = false;
+    this.opts.logger.info(`[cluster-hub] 局域网直连断开，改走 Hub: ${peer.nodeId}`);
+    this.opts.onPathChange?.(peer.nodeId, 'hub');
+  }
+
+  /** 直连只收发给本节点的业务消息；控制面消息（共享配置、心跳回应等）只认 Hub 下发的 */
+  private receive(peer: LanPeer, ws: WsSocket, frame: any): void {
+    if (peer.link !== ws || typeof frame.type !== 'string') return;
+    peer.alive = true;
+    peer.lastSeen = Date.now();
+    const self = this.opts.identity();
+    if (HUB_ONLY_TYPES.has(frame.type) || !self || frame.to !== self.nodeId) {
+      this.opts.logger.warn(`[cluster-hub] 丢弃直连消息 ${frame.type} from ${peer.nodeId}: 只接收发给本节点的业务消息`);
+      return;
+    }
+    peer.received++;
+    this.opts.onMessage({ ...frame, from: peer.nodeId });
+  }
+}
+
+function parseFrame(data: any): any {
+  try {
+    const frame = JSON.parse(data.toString());
+    return frame && typeof frame === 'object' ? frame : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 各 IPv4 网卡的子网广播地址，加上受限广播地址 */
+function broadcastAddresses(): string[] {
+  const result = new Set<string>(['255.255.255.255']);
+  for (const entries of Object.values(os.networkInterfaces())) {
+    for (const entry of entries || []) {
+      if (entry.family !== 'IPv4' || entry.internal) continue;
+      const ip = entry.address.split('.').map(Number);
+      const mask = entry.netmask.split('.').map(Number);
+      result.add(ip.map((octet, i) => (octet | (~mask[i] & 255))).join('.'));
+    }
+  }
+  return [...result];
+}
+
+function parseHostPort(entry: string, defaultPort: number): { host: string; port: number } {
+  const match = entry.trim().match(/^\[?([^\]]+?)\]?(?::(\d+))?$/);
+  return { host: match?.[1] || entry, port: match?.[2] ? Number(match[2]) : defaultPort };
+}
@@ -0,0 +1,73 @@
+/**
+ * 节点资源采集 — 心跳附带的 CPU / 内存 / 磁盘指标
+ *
+ * 只依赖 Node 内置 os / fs 模块，各平台通用。
+ */
+
+import os from 'os';
+import fs from 'fs';
+import type { NodeMetrics } from './types.js';
+
+export type SystemMetrics = Omit<NodeMetrics, 'queue' | 'agentMaxConcurrent' | 'subagentMaxConcurrent'>;
+
+/** 上次采样的 CPU 累计时间，用于计算两次心跳之间的使用率 */
+let lastCpuSample: { idle: number; total: number } | null = null;
+
+function sampleCpuTimes(): { idle: number; total: number } {
+  let idle = 0;
+  let total = 0;
+  for (const cpu of os.cpus()) {
+    const t = cpu.times;
+    idle += t.idle;
+    total += t.user + t.nice + t.sys + t.irq + t.idle;
+  }
+  return { idle, total };
+}
+
+/** CPU 使用率 (0-100)：两次采样间的非空闲占比；首次采样用 1 分钟 loadavg 估算 */
+function cpuLoadPercent(): number {
+  const sample = sampleCpuTimes();
+  const prev = lastCpuSample;
+  lastCpuSample = sample;
+  if (prev && sample.total > prev.total) {
+    const busy = 1 - (sample.idle - prev.idle) / (sample.total - prev.total);
+    return clampPercent(busy * 100);
+  }
+  const cpuCount = os.cpus().length || 1;
+  return clampPercent((os.loadavg()[0] / cpuCount) * 100);
+}
+
+function diskUsage(dir: string): { freeMb: number; totalMb: number } | null {
+  try {
+    if (typeof fs.statfsSync !== 'function') return null;
+    const st = fs.statfsSync(dir);
+    return {
+      freeMb: Math.round((st.bavail * st.bsize) / 1024 / 1024),
+      totalMb: Math.round((st.blocks * st.bsize) / 1024 / 1024),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function clampPercent(n: number): number {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+/** 采集本机资源指标，diskPath 为统计剩余空间的目录（节点心跳传入数据目录，默认 HOME） */
+export function collectSystemMetrics(diskPath = process.env.HOME || '/'): SystemMetrics {
+  const memTotal = os.totalmem();
+  const memFree = os.freemem();
+  const disk = diskUsage(diskPath);
+  return {
+    cpuLoad: cpuLoadPercent(),
+    loadAvg: os.loadavg().map(n => Math.round(n * 100) / 100),
+    cpuCount: os.cpus().length,
+    memTotalMb: Math.round(memTotal / 1024 / 1024),
+    memFreeMb: Math.round(memFree / 1024 / 1024),
+    memUsedPct: clampPercent(((memTotal - memFree) / memTotal) * 100),
+    diskFreeMb: disk?.freeMb ?? null,
+    diskTotalMb: disk?.totalMb ?? null,
+  };
+}
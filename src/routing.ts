@@ -0,0 +1,81 @@
+/**
+ * 任务路由 — 按能力标签 + 负载从在线节点中选择目标
+ */
+
+import type { HubNode, TargetSelector, MapSelector } from './types.js';
+
+/** 判断发送目标是否为能力选择器（而非节点 ID/别名） */
+export function isTargetSelector(target: unknown): target is TargetSelector {
+  return !!target && typeof target === 'object' && !Array.isArray(target);
+}
+
+/** 在线、具备全部所需能力、且不在排除列表中的节点 */
+export function matchNodes(nodes: HubNode[], selector: TargetSelector): HubNode[] {
+  const requires = (selector.requires || []).map(c => c.toLowerCase());
+  const exclude = new Set(selector.exclude || []);
+  return nodes.filter(n => {
+    if (!n.online || exclude.has(n.id)) return false;
+    const caps = new Set((n.capabilities || []).map(c => c.toLowerCase()));
+    return requires.every(c => caps.has(c));
+  });
+}
+
+/** 节点当前任务压力：执行中 + 排队 */
+function taskPressure(n: HubNode): number {
+  const q = n.metrics?.queue;
+  return q ? q.dispatching + q.inflight + q.queued : (n.activeTasks || 0);
+}
+
+/** 按策略选出一个节点，没有候选时返回 null */
+export function selectNode(nodes: HubNode[], selector: TargetSelector): HubNode | null {
+  const candidates = matchNodes(nodes, selector);
+  if (candidates.length === 0) return null;
+
+  const strategy = selector.strategy || 'least-loaded';
+  if (strategy === 'random') {
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  const byLoad = (a: HubNode, b: HubNode) => (a.load || 0) - (b.load || 0);
+  const byTasks = (a: HubNode, b: HubNode) => taskPressure(a) - taskPressure(b);
+  const sorted = [...candidates].sort((a, b) => {
+    const primary = strategy === 'least-tasks' ? byTasks(a, b) : byLoad(a, b);
+    if (primary !== 0) return primary;
+    const secondary = strategy === 'least-tasks' ? byLoad(a, b) : byTasks(a, b);
+    return secondary !== 0 ? secondary : a.id.localeCompare(b.id);
+  });
+  return sorted[0];
+}
+
+/**
+ * 扇出目标：范围内、在线、具备全部所需能力的节点（按名称排序）
+ * subtree 沿 parentId 向上查找，不依赖 childIds 是否完整
+ */
+export function selectMapNodes(nodes: HubNode[], selector: MapSelector, selfId?: string): HubNode[] {
+  const scope = selector.scope || 'all';
+  const root = selector.root || selfId;
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const inScope = (n: HubNode): boolean => {
+    if (scope === 'all') return true;
+    if (scope === 'children') return n.parentId === root;
+    for (let cur: HubNode | undefined = n; cur; cur = cur.parentId ? byId.get(cur.parentId) : undefined) {
+      if (cur.id === root) return true;
+    }
+    return false;
+  };
+  return matchNodes(nodes, { requires: selector.requires })
+    .filter(n => inScope(n) && (selector.includeSelf !== false || n.id !== selfId))
+    .sort((a, b) => (a.name || a.id).localeCompare(b.name || b.id));
+}
+
+export function describeMapSelector(selector: MapSelector): string {
+  const scope = { all: '全部节点', children: '直接子节点', subtree: '子树' }[selector.scope || 'all'];
+  const requires = selector.requires?.length ? ` / ${selector.requires.join('+')}` : '';
+  return `${scope}${selector.root ? `(${selector.root})` : ''}${requires}`;
+}
+
+/** 选择器的可读描述（日志/错误提示用） */
+export function describeSelector(selector: TargetSelector): string {
+  const requires = selector.requires?.length ? selector.requires.join('+') : '任意能力';
+  return `${requires} / ${selector.strategy || 'least-loaded'}`;
+}
@@ -0,0 +1,274 @@
+/**
+ * 定时任务 — cron 表达式 / 一次性 at 时间，到期经 sendTaskAndTrack 下发
+ *
+ * 定义持久化在 hub-data/schedules.json；进程停机期间错过的执行按 missedPolicy
+ * 处理（skip 跳过 / once 启动后补跑一次，多次错过也只补一次）。
+ */
+
+import { randomUUID } from 'crypto';
+import type { Schedule, MissedRunPolicy } from './types.js';
+import type { ScheduleStore } from './store.js';
+
+/** 检查到期的间隔 (ms) */
+export const SCHEDULE_TICK_INTERVAL_MS = 15_000;
+/** 到期超过该时长仍未执行才算「错过」（正常的检查延迟不算） */
+export const SCHEDULE_MISSED_GRACE_MS = 60_000;
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+interface CronFields {
+  minute: Set<number>;
+  hour: Set<number>;
+  dom: Set<number>;
+  month: Set<number>;
+  dow: Set<number>;
+  /** 日、周是否被限定（都限定时按标准 cron 取并集） */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`cron ${name} 步长无效: ${part}`);
+    let lo: number;
+    let hi: number;
+    if (range === '*') {
+      lo = min; hi = max;
+    } else if (range.includes('-')) {
+      [lo, hi] = range.split('-').map(Number);
+    } else {
+      lo = Number(range);
+      hi = stepText === undefined ? lo : max;
+    }
+    if (!Number.isInteger(lo) || !Number.isInteger(hi) || lo < min || hi > max || lo > hi) {
+      throw new Error(`cron ${name} 超出范围 ${min}-${max}: ${part}`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** 解析 5 段 cron（分 时 日 月 周；周 0 和 7 都表示周日），支持 * , - / 和 @daily 等别名 */
+export function parseCron(expr: string): CronFields {
+  const normalized = CRON_ALIASES[expr.trim()] || expr.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) throw new Error(`cron 需要 5 段（分 时 日 月 周）: ${expr}`);
+  const dow = parseField(parts[4], 0, 7, '周');
+  if (dow.has(7)) { dow.delete(7); dow.add(0); }
+  return {
+    minute: parseField(parts[0], 0, 59, '分'),
+    hour: parseField(parts[1], 0, 23, '时'),
+    dom: parseField(parts[2], 1, 31, '日'),
+    month: parseField(parts[3], 1, 12, '月'),
+    dow,
+    domRestricted: parts[2] !== '*',
+    dowRestricted: parts[4] !== '*',
+  };
+}
+
+function dayMatches(f: CronFields, d: Date): boolean {
+  const dom = f.dom.has(d.getDate());
+  const dow = f.dow.has(d.getDay());
+  if (f.domRestricted && f.dowRestricted) return dom || dow;
+  if (f.domRestricted) return dom;
+  if (f.dowRestricted) return dow;
+  return true;
+}
+
+/** after 之后（不含）的下一次触发时间；5 年内无匹配（如 2 月 30 日）返回 undefined */
+export function nextCronTime(expr: string, after: number): number | undefined {
+  const f = parseCron(expr);
+  const d = new Date(after);
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  const limit = after + 5 * 366 * 24 * 3600_000;
+
+  while (d.getTime() <= limit) {
+    if (!f.month.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(f, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!f.hour.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!f.minute.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d.getTime();
+  }
+  return undefined;
+}
+
+/** 一次性时间：毫秒时间戳、ISO / 本地时间字符串，或相对时间 +30s / +10m / +2h / +1d */
+export function parseAt(value: unknown, now = Date.now()): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const text = String(value ?? '').trim();
+  const rel = text.match(/^\+(\d+)\s*(s|m|h|d)$/);
+  if (rel) {
+    const unit = { s: 1000, m: 60_000, h: 3600_000, d: 86_400_000 }[rel[2] as 's' | 'm' | 'h' | 'd'];
+    return now + Number(rel[1]) * unit;
+  }
+  const ts = /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+  if (!Number.isFinite(ts)) throw new Error(`无法解析时间: ${text}`);
+  return ts;
+}
+
+export type ScheduleInput = Omit<Schedule,
+  'scheduleId' | 'enabled' | 'missedPolicy' | 'nextRunAt' | 'lastRunAt' | 'lastTaskId' | 'lastError' | 'runCount' | 'createdAt' | 'updatedAt'
+> & { missedPolicy?: MissedRunPolicy; enabled?: boolean };
+
+type PluginLogger = {
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+};
+
+export interface SchedulerOptions {
+  store: ScheduleStore;
+  logger: PluginLogger;
+  /** 下发一次执行，返回任务 ID */
+  fire: (schedule: Schedule) => Promise<string>;
+  onUpdate?: (schedule: Schedule) => void;
+}
+
+export class Scheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private firing = new Set<string>();
+
+  constructor(private opts: SchedulerOptions) { }
+
+  add(input: ScheduleInput): Schedule {
+    if (!input.instruction?.trim()) throw new Error('缺少 instruction');
+    if (!input.target) throw new Error('缺少目标节点或能力选择器');
+    if (!!input.cron === (input.at !== undefined)) throw new Error('cron 和 at 需要且只能指定一个');
+
+    const now = Date.now();
+    let nextRunAt: number | undefined;
+    if (input.cron) {
+      nextRunAt = nextCronTime(input.cron, now);
+      if (nextRunAt === undefined) throw new Error(`cron 表达式没有可执行的时间: ${input.cron}`);
+    } else {
+      nextRunAt = input.at!;
+      if (nextRunAt < now - SCHEDULE_MISSED_GRACE_MS) throw new Error('at 时间已过');
+    }
+
+    const schedule = this.opts.store.add({
+      ...input,
+      scheduleId: randomUUID(),
+      missedPolicy: input.missedPolicy === 'skip' ? 'skip' : 'once',
+      enabled: input.enabled !== false,
+      nextRunAt,
+      runCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.opts.logger.info(`[cluster-hub] 新增定时任务 ${schedule.name || schedule.scheduleId}，下次 ${new Date(nextRunAt).toLocaleString()}`);
+    this.emit(schedule);
+    return schedule;
+  }
+
+  remove(scheduleId: string): boolean {
+    const schedule = this.opts.store.get(scheduleId);
+    return !!schedule && this.opts.store.remove(schedule.scheduleId);
+  }
+
+  /** 启用时从当前时间重新计算下次执行 */
+  setEnabled(scheduleId: string, enabled: boolean): Schedule | null {
+    const schedule = this.opts.store.get(scheduleId);
+    if (!schedule) return null;
+    const update: Partial<Schedule> = { enabled };
+    if (enabled && schedule.cron) update.nextRunAt = nextCronTime(schedule.cron, Date.now());
+    const updated = this.opts.store.update(schedule.scheduleId, update);
+    this.emit(updated);
+    return updated;
+  }
+
+  /** 立即执行一次（不影响下次计划时间） */
+  async runNow(scheduleId: string): Promise<Schedule | null> {
+    const schedule = this.opts.store.get(scheduleId);
+    if (!schedule) return null;
+    await this.fire(schedule, false);
+    return schedule;
+  }
+
+  /** 服务启动：按 missedPolicy 处理停机期间错过的执行，然后开始定时检查 */
+  start(): void {
+    const now = Date.now();
+    for (const schedule of this.opts.store.list()) {
+      if (!schedule.enabled || schedule.nextRunAt === undefined) continue;
+      if (schedule.nextRunAt > now - SCHEDULE_MISSED_GRACE_MS) continue;
+      const missedAt = new Date(schedule.nextRunAt).toLocaleString();
+      if (schedule.missedPolicy === 'once') {
+        this.opts.logger.info(`[cluster-hub] 定时任务 ${schedule.name || schedule.scheduleId} 错过 ${missedAt}，补跑一次`);
+        this.fire(schedule, true);
+      } else {
+        this.opts.logger.info(`[cluster-hub] 定时任务 ${schedule.name || schedule.scheduleId} 错过 ${missedAt}，按策略跳过`);
+        this.advance(schedule, `错过 ${missedAt} 的执行（已跳过）`);
+      }
+    }
+    if (!this.timer) this.timer = setInterval(() => this.tick(), SCHEDULE_TICK_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  tick(): void {
+    const now = Date.now();
+    for (const schedule of this.opts.store.list()) {
+      if (schedule.enabled && schedule.nextRunAt !== undefined && schedule.nextRunAt <= now) {
+        this.fire(schedule, true);
+      }
+    }
+  }
+
+  private async fire(schedule: Schedule, scheduled: boolean): Promise<void> {
+    if (this.firing.has(schedule.scheduleId)) return;
+    this.firing.add(schedule.scheduleId);
+    // 先推进计划时间，下发耗时较长时也不会重复触发
+    if (scheduled) this.advance(schedule);
+    try {
+      const taskId = await this.opts.fire(schedule);
+      this.opts.logger.info(`[cluster-hub] 定时任务 ${schedule.name || schedule.scheduleId} 触发 → 任务 ${taskId}`);
+      this.emit(this.opts.store.update(schedule.scheduleId, {
+        lastRunAt: Date.now(), lastTaskId: taskId, lastError: undefined, runCount: schedule.runCount + 1,
+      }));
+    } catch (err: any) {
+      this.opts.logger.warn(`[cluster-hub] 定时任务 ${schedule.name || schedule.scheduleId} 触发失败: ${err.message}`);
+      this.emit(this.opts.store.update(schedule.scheduleId, { lastRunAt: Date.now(), lastError: err.message }));
+    } finally {
+      this.firing.delete(schedule.scheduleId);
+    }
+  }
+
+  /** 计算下次执行；一次性任务执行（或跳过）后停用 */
+  private advance(schedule: Schedule, lastError?: string): void {
+    const update: Partial<Schedule> = schedule.cron
+      ? { nextRunAt: nextCronTime(schedule.cron, Date.now()) }
+      : { nextRunAt: undefined, enabled: false };
+    if (lastError) update.lastError = lastError;
+    this.emit(this.opts.store.update(schedule.scheduleId, update));
+  }
+
+  private emit(schedule: Schedule | null): void {
+    if (schedule) this.opts.onUpdate?.(schedule);
+  }
+}
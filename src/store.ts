@@ -1,5 +1,5 @@
 /**
- * 持久化存储 — TaskStore + ChatStore
+ * 持久化存储 — TaskStore + ChatStore + OutboxStore + TaskQueueStore + FileTransferStore + WorkflowStore + ScheduleStore
  *
  * 核心原则：插件持久化一切，控制台只做呈现。
  * 数据目录: ~/.openclaw/hub-data/
@@ -7,20 +7,36 @@
 
 import fs from 'fs';
 import path from 'path';
+import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
-import type { StoredTask, StoredChatMessage, StoredNodeEvent, ResultPayload, ReceivedTask } from './types.js';
+import type { StoredTask, StoredChatMessage, StoredNodeEvent, ResultPayload, ReceivedTask, OutboxEntry, WSMessage, TaskAttempt, QueuedTask, TaskProgress, FileTransfer, WorkflowRun, Schedule } from './types.js';
 
 // ============================================================================
 // TaskStore — 任务持久化
 // ============================================================================
 
-export class TaskStore {
+const FINAL_TASK_STATUSES: StoredTask['status'][] = ['completed', 'failed', 'cancelled', 'timeout', 'lost'];
+
+/** 任务是否已结束（不会再变化） */
+export function isFinalTaskStatus(status: StoredTask['status']): boolean {
+  return FINAL_TASK_STATUSES.includes(status);
+}
+
+/**
+ * 事件：
+ * - update (task)  任务新增或状态 / 结果变化
+ * - done (task)    任务进入结束状态（每个任务一次）
+ */
+export class TaskStore extends EventEmitter {
   private tasks: StoredTask[] = [];
   private dataDir: string;
   private saveTimer: ReturnType<typeof setTimeout> | null = null;
   private maxHistory = 200;
 
   constructor(dataDir: string) {
+    super();
+    // 每个等待方一个监听器，数量不设上限
+    this.setMaxListeners(0);
     this.dataDir = dataDir;
     this.load();
   }
@@ -32,8 +48,10 @@ export class TaskStore {
     targetNodeName: string | undefined,
     instruction: string,
     source: 'local' | 'remote',
+    extra?: Partial<StoredTask>,
   ): StoredTask {
     const task: StoredTask = {
+      ...extra,
       taskId,
       targetNodeId,
       targetNodeName,
@@ -45,6 +63,7 @@ export class TaskStore {
     this.tasks.unshift(task);
     this.trim();
     this.scheduleSave();
+    this.notify(task, 'sent');
     return task;
   }
 
@@ -52,8 +71,10 @@ export class TaskStore {
   updateStatus(taskId: string, update: Partial<StoredTask>): StoredTask | null {
     const task = this.findTask(taskId);
     if (!task) return null;
+    const prev = task.status;
     Object.assign(task, update);
     this.scheduleSave();
+    this.notify(task, prev);
     return task;
   }
 
@@ -61,15 +82,88 @@ export class TaskStore {
   recordResult(taskId: string, payload: ResultPayload): StoredTask | null {
     const task = this.findTask(taskId);
     if (!task) return null;
+    const prev = task.status;
     task.status = payload.success ? 'completed' : 'failed';
     task.completedAt = Date.now();
     task.result = payload.result;
     task.error = payload.error;
     task.durationMs = task.completedAt - task.sentAt;
     this.scheduleSave();
+    this.notify(task, prev);
+    return task;
+  }
+
+  /**
+   * 等待任务结束：mode=all 全部结束，mode=any 任一结束。
+   * 不存在的任务视为已结束；超时返回仍未结束的任务 ID
+   */
+  waitFor(taskIds: string[], timeoutMs: number, mode: 'all' | 'any' = 'all'): Promise<{ pending: string[] }> {
+    const pending = new Set(taskIds.filter(id => {
+      const task = this.findTask(id);
+      return task && !isFinalTaskStatus(task.status);
+    }));
+    const settled = () => pending.size === 0 || (mode === 'any' && pending.size < taskIds.length);
+    if (settled()) return Promise.resolve({ pending: [...pending] });
+
+    return new Promise(resolve => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.off('done', onDone);
+        resolve({ pending: [...pending] });
+      };
+      const onDone = (task: StoredTask) => {
+        if (pending.delete(task.taskId) && settled()) finish();
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      this.on('done', onDone);
+    });
+  }
+
+  private notify(task: StoredTask, prevStatus: StoredTask['status']): void {
+    this.emit('update', task);
+    if (isFinalTaskStatus(task.status) && !isFinalTaskStatus(prevStatus)) this.emit('done', task);
+  }
+
+  /** 追加进度帧，只保留最近 maxEntries 帧 */
+  appendProgress(taskId: string, progress: TaskProgress, maxEntries = 50): StoredTask | null {
+    const task = this.findTask(taskId);
+    if (!task) return null;
+    task.progress = [...(task.progress || []), progress].slice(-maxEntries);
+    this.scheduleSave();
+    return task;
+  }
+
+  /** 追加一次尝试记录 */
+  addAttempt(taskId: string, attempt: TaskAttempt): StoredTask | null {
+    const task = this.findTask(taskId);
+    if (!task) return null;
+    task.attempts = [...(task.attempts || []), attempt];
+    this.scheduleSave();
     return task;
   }
 
+  /** 更新某次尝试的状态 */
+  updateAttempt(taskId: string, wireId: string, update: Partial<TaskAttempt>): TaskAttempt | null {
+    const attempt = this.findTask(taskId)?.attempts?.find(a => a.wireId === wireId);
+    if (!attempt) return null;
+    Object.assign(attempt, update);
+    this.scheduleSave();
+    return attempt;
+  }
+
+  /**
+   * 按 WS 消息 ID 查找任务：重试产生的消息 ID 形如 taskId#n
+   * stale=true 表示该消息属于已被后续重试取代的旧尝试
+   */
+  findByWireId(wireId: string): { task: StoredTask; attempt?: TaskAttempt; stale: boolean } | null {
+    const task = this.findTask(wireId.split('#')[0]);
+    if (!task) return null;
+    const attempts = task.attempts || [];
+    const attempt = attempts.find(a => a.wireId === wireId);
+    const stale = attempts.length > 0 && attempts[attempts.length - 1].wireId !== wireId;
+    return { task, attempt, stale };
+  }
+
   /** 查询任务列表 */
   list(opts?: { nodeId?: string; status?: string; limit?: number }): StoredTask[] {
     let result = this.tasks;
@@ -88,7 +182,7 @@ export class TaskStore {
     const cutoff = before || Date.now();
     const original = this.tasks.length;
     this.tasks = this.tasks.filter(t => {
-      if (t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled') {
+      if (t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled' || t.status === 'timeout' || t.status === 'lost') {
         return (t.completedAt || 0) > cutoff;
       }
       return true;
@@ -98,11 +192,16 @@ export class TaskStore {
     return cleared;
   }
 
+  /** 已发出、尚未结束的任务（不含等待重试的） */
+  listOpen(): StoredTask[] {
+    return this.tasks.filter(t => t.status === 'sent' || t.status === 'queued' || t.status === 'running');
+  }
+
   /** 获取摘要统计 */
   summary(): { total: number; running: number; completed: number; failed: number } {
     return {
       total: this.tasks.length,
-      running: this.tasks.filter(t => t.status === 'sent' || t.status === 'queued' || t.status === 'running').length,
+      running: this.tasks.filter(t => t.status === 'sent' || t.status === 'queued' || t.status === 'running' || t.status === 'retrying').length,
       completed: this.tasks.filter(t => t.status === 'completed').length,
       failed: this.tasks.filter(t => t.status === 'failed').length,
     };
@@ -216,16 +315,34 @@ export class ReceivedTaskStore {
   }
 
   /** 标记取消 */
-  markCancelled(taskId: string): ReceivedTask | null {
+  markCancelled(taskId: string, reason?: string): ReceivedTask | null {
     const task = this.find(taskId);
     if (!task) return null;
     task.status = 'cancelled';
+    task.error = reason;
+    task.completedAt = Date.now();
+    task.durationMs = task.completedAt - task.receivedAt;
+    this.scheduleSave();
+    return task;
+  }
+
+  /** 标记丢失（重启后无法恢复执行） */
+  markLost(taskId: string, error: string): ReceivedTask | null {
+    const task = this.find(taskId);
+    if (!task) return null;
+    task.status = 'lost';
+    task.error = error;
     task.completedAt = Date.now();
     task.durationMs = task.completedAt - task.receivedAt;
     this.scheduleSave();
     return task;
   }
 
+  /** 尚未结束（queued / running）的任务 */
+  listOpen(): ReceivedTask[] {
+    return this.tasks.filter(t => t.status === 'queued' || t.status === 'running');
+  }
+
   /** 查询列表 */
   list(opts?: { status?: string; limit?: number }): ReceivedTask[] {
     let result = this.tasks;
@@ -255,7 +372,7 @@ export class ReceivedTaskStore {
     const cutoff = before || Date.now();
     const original = this.tasks.length;
     this.tasks = this.tasks.filter(t => {
-      if (t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled') {
+      if (t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled' || t.status === 'lost') {
         return (t.completedAt || 0) > cutoff;
       }
       return true;
@@ -476,3 +593,459 @@ export class NodeEventStore {
     this.save();
   }
 }
+
+// ============================================================================
+// OutboxStore — 离线发件箱（断线期间待发送的 WS 消息）
+// ============================================================================
+
+export class OutboxStore {
+  private entries: OutboxEntry[] = [];
+  private dataDir: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxSize: number;
+
+  constructor(dataDir: string, maxSize = 500) {
+    this.dataDir = dataDir;
+    this.maxSize = Math.max(1, maxSize);
+    this.load();
+  }
+
+  /** 入队，超出容量时丢弃最旧的条目，返回被丢弃的条目 */
+  enqueue(message: WSMessage, ttlMs: number): { entry: OutboxEntry; dropped: OutboxEntry[] } {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      message,
+      enqueuedAt: now,
+      expiresAt: now + ttlMs,
+    };
+    this.entries.push(entry);
+    const dropped = this.entries.length > this.maxSize
+      ? this.entries.splice(0, this.entries.length - this.maxSize)
+      : [];
+    this.scheduleSave();
+    return { entry, dropped };
+  }
+
+  /** 取出全部未过期条目（按入队顺序）并清空 */
+  drain(): OutboxEntry[] {
+    const pending = this.pruneExpired();
+    this.entries = [];
+    this.scheduleSave();
+    return pending;
+  }
+
+  /** 发送失败的条目放回队首，保持原有顺序 */
+  requeue(entries: OutboxEntry[]): void {
+    if (entries.length === 0) return;
+    this.entries = [...entries, ...this.entries].slice(-this.maxSize);
+    this.scheduleSave();
+  }
+
+  /** 查看待发条目（不含已过期） */
+  list(): OutboxEntry[] {
+    this.entries = this.pruneExpired();
+    return [...this.entries];
+  }
+
+  /** 清除条目（不传 ids 则全部清除），返回清除数量 */
+  purge(ids?: string[]): number {
+    const original = this.entries.length;
+    if (ids && ids.length > 0) {
+      const set = new Set(ids);
+      this.entries = this.entries.filter(e => !set.has(e.id));
+    } else {
+      this.entries = [];
+    }
+    const removed = original - this.entries.length;
+    if (removed > 0) this.scheduleSave();
+    return removed;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  stats(): { size: number; maxSize: number; oldestAt: number | null } {
+    const pending = this.list();
+    return {
+      size: pending.length,
+      maxSize: this.maxSize,
+      oldestAt: pending.length > 0 ? pending[0].enqueuedAt : null,
+    };
+  }
+
+  private pruneExpired(): OutboxEntry[] {
+    const now = Date.now();
+    return this.entries.filter(e => e.expiresAt > now);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+  }
+
+  private save(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'outbox.json');
+      fs.mkdirSync(this.dataDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({
+        version: 1,
+        updatedAt: Date.now(),
+        entries: this.entries,
+      }, null, 2));
+    } catch { /* ignore */ }
+  }
+
+  private load(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'outbox.json');
+      const raw = fs.readFileSync(filePath, 'utf-8');
+      const data = JSON.parse(raw);
+      this.entries = Array.isArray(data.entries) ? data.entries : [];
+      this.entries = this.pruneExpired();
+    } catch {
+      this.entries = [];
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+}
+
+// ============================================================================
+// TaskQueueStore — 子节点任务队列快照（排队 + 执行中），重启后恢复
+// ============================================================================
+
+export class TaskQueueStore {
+  private tasks: QueuedTask[] = [];
+  private dataDir: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.load();
+  }
+
+  /** 上次保存的队列快照 */
+  snapshot(): QueuedTask[] {
+    return this.tasks.map(t => ({ ...t }));
+  }
+
+  /** 用当前队列状态覆盖快照 */
+  replace(tasks: QueuedTask[]): void {
+    this.tasks = tasks.map(t => ({ ...t }));
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+  }
+
+  private save(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'task-queue.json');
+      fs.mkdirSync(this.dataDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({
+        version: 1,
+        updatedAt: Date.now(),
+        tasks: this.tasks,
+      }, null, 2));
+    } catch { /* ignore */ }
+  }
+
+  private load(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'task-queue.json');
+      const raw = fs.readFileSync(filePath, 'utf-8');
+      const data = JSON.parse(raw);
+      this.tasks = Array.isArray(data.tasks) ? data.tasks : [];
+    } catch {
+      this.tasks = [];
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+}
+
+// ============================================================================
+// FileTransferStore — 文件传输记录
+// ============================================================================
+
+export class FileTransferStore {
+  private transfers: FileTransfer[] = [];
+  private dataDir: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxHistory = 200;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.load();
+  }
+
+  /** 新增或覆盖一条记录 */
+  upsert(transfer: FileTransfer): FileTransfer {
+    const idx = this.transfers.findIndex(t => t.transferId === transfer.transferId);
+    if (idx >= 0) this.transfers.splice(idx, 1);
+    this.transfers.unshift(transfer);
+    if (this.transfers.length > this.maxHistory) {
+      this.transfers = this.transfers.slice(0, this.maxHistory);
+    }
+    this.scheduleSave();
+    return transfer;
+  }
+
+  update(transferId: string, update: Partial<FileTransfer>): FileTransfer | null {
+    const transfer = this.get(transferId);
+    if (!transfer) return null;
+    Object.assign(transfer, update, { updatedAt: Date.now() });
+    this.scheduleSave();
+    return transfer;
+  }
+
+  get(transferId: string): FileTransfer | null {
+    return this.transfers.find(t => t.transferId === transferId) || null;
+  }
+
+  list(opts?: { status?: string; limit?: number }): FileTransfer[] {
+    let result = this.transfers;
+    if (opts?.status) result = result.filter(t => t.status === opts.status);
+    return opts?.limit ? result.slice(0, opts.limit) : result;
+  }
+
+  /** 未结束的传输 */
+  listOpen(): FileTransfer[] {
+    return this.transfers.filter(t => t.status === 'pending' || t.status === 'transferring');
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+  }
+
+  private save(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'file-transfers.json');
+      fs.mkdirSync(this.dataDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({
+        version: 1,
+        updatedAt: Date.now(),
+        transfers: this.transfers,
+      }, null, 2));
+    } catch { /* ignore */ }
+  }
+
+  private load(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'file-transfers.json');
+      const raw = fs.readFileSync(filePath, 'utf-8');
+      const data = JSON.parse(raw);
+      this.transfers = Array.isArray(data.transfers) ? data.transfers : [];
+    } catch {
+      this.transfers = [];
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+}
+
+// ============================================================================
+// WorkflowStore — 工作流运行状态
+// ============================================================================
+
+export class WorkflowStore {
+  private runs: WorkflowRun[] = [];
+  private dataDir: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxHistory = 100;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.load();
+  }
+
+  add(run: WorkflowRun): WorkflowRun {
+    this.runs.unshift(run);
+    if (this.runs.length > this.maxHistory) {
+      // 只淘汰已结束的运行
+      const overflow = this.runs.length - this.maxHistory;
+      const finished = this.runs.filter(r => r.status !== 'running').slice(-overflow);
+      this.runs = this.runs.filter(r => !finished.includes(r));
+    }
+    this.scheduleSave();
+    return run;
+  }
+
+  /** 修改后调用，标记需要写盘 */
+  touch(run: WorkflowRun): void {
+    run.updatedAt = Date.now();
+    this.scheduleSave();
+  }
+
+  get(runId: string): WorkflowRun | null {
+    return this.runs.find(r => r.runId === runId) || null;
+  }
+
+  list(opts?: { status?: string; limit?: number }): WorkflowRun[] {
+    let result = this.runs;
+    if (opts?.status) result = result.filter(r => r.status === opts.status);
+    return opts?.limit ? result.slice(0, opts.limit) : result;
+  }
+
+  listRunning(): WorkflowRun[] {
+    return this.runs.filter(r => r.status === 'running');
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+  }
+
+  private save(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'workflows.json');
+      fs.mkdirSync(this.dataDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({
+        version: 1,
+        updatedAt: Date.now(),
+        runs: this.runs,
+      }, null, 2));
+    } catch { /* ignore */ }
+  }
+
+  private load(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'workflows.json');
+      const raw = fs.readFileSync(filePath, 'utf-8');
+      const data = JSON.parse(raw);
+      this.runs = Array.isArray(data.runs) ? data.runs : [];
+    } catch {
+      this.runs = [];
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+}
+
+// ============================================================================
+// ScheduleStore — 定时任务
+// ============================================================================
+
+export class ScheduleStore {
+  private schedules: Schedule[] = [];
+  private dataDir: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.load();
+  }
+
+  add(schedule: Schedule): Schedule {
+    this.schedules.push(schedule);
+    this.scheduleSave();
+    return schedule;
+  }
+
+  update(scheduleId: string, update: Partial<Schedule>): Schedule | null {
+    const schedule = this.get(scheduleId);
+    if (!schedule) return null;
+    Object.assign(schedule, update, { updatedAt: Date.now() });
+    this.scheduleSave();
+    return schedule;
+  }
+
+  remove(scheduleId: string): boolean {
+    const before = this.schedules.length;
+    this.schedules = this.schedules.filter(s => s.scheduleId !== scheduleId);
+    if (this.schedules.length === before) return false;
+    this.scheduleSave();
+    return true;
+  }
+
+  /** 按 ID 或 ID 前缀查找 */
+  get(scheduleId: string): Schedule | null {
+    return this.schedules.find(s => s.scheduleId === scheduleId)
+      || this.schedules.find(s => scheduleId.length >= 6 && s.scheduleId.startsWith(scheduleId))
+      || null;
+  }
+
+  list(): Schedule[] {
+    return this.schedules;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+  }
+
+  private save(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'schedules.json');
+      fs.mkdirSync(this.dataDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({
+        version: 1,
+        updatedAt: Date.now(),
+        schedules: this.schedules,
+      }, null, 2));
+    } catch { /* ignore */ }
+  }
+
+  private load(): void {
+    try {
+      const filePath = path.join(this.dataDir, 'schedules.json');
+      const raw = fs.readFileSync(filePath, 'utf-8');
+      const data = JSON.parse(raw);
+      this.schedules = Array.isArray(data.schedules) ? data.schedules : [];
+    } catch {
+      this.schedules = [];
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+}
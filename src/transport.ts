@@ -0,0 +1,384 @@
+/**
+ * Hub 传输层 — HubClient 与 Hub 之间的 REST 请求和消息通道
+ *
+ * - websocket: fetch + WebSocket（默认）
+ * - longpoll:  fetch + HTTP 长轮询，用于屏蔽 WebSocket 的网络（需要 Hub 支持 /api/lp/*，dev-server 已支持）
+ * - loopback:  直接调用同进程内注册的 Hub，不走网络（集成测试、单机集群）
+ *
+ * HubClient 只依赖 HubTransport / HubChannel，不关心底层是哪种连接。
+ */
+
+import type { HubTransportKind } from './types.js';
+
+/** 长轮询单次请求在 Hub 端最长挂起时间 */
+export const LONG_POLL_HOLD_MS = 25_000;
+/** 长轮询单次发送的请求体上限（Hub 限制 1MB，留出 JSON 包装余量）；超过上限的单条消息单独发送 */
+export const LONG_POLL_MAX_BATCH_BYTES = 900 * 1024;
+
+export interface TransportRequest {
+  method: string;
+  /** 以 / 开头的路径，如 /api/nodes */
+  path: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface TransportResponse {
+  status: number;
+  text: string;
+}
+
+/**
+ * 消息通道回调
+ * 回调不会在 open() 内同步触发；onClose 每个通道只触发一次，未触发 onOpen 直接 onClose 表示握手失败
+ */
+export interface ChannelHandlers {
+  onOpen(): void;
+  onMessage(data: string): void;
+  onClose(code?: number, reason?: string): void;
+  onError(err: Error): void;
+  /** send() 已接受但没能送达 Hub 的消息（按原顺序），在 onClose 之后触发，由调用方重新排队 */
+  onUndelivered?(data: string[]): void;
+}
+
+/** 节点侧的消息通道 */
+export interface HubChannel {
+  /** 通道未打开时抛错 */
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  /** 不等握手直接丢弃（半开连接） */
+  terminate(): void;
+}
+
+export interface HubTransport {
+  readonly kind: HubTransportKind;
+  request(req: TransportRequest): Promise<TransportResponse>;
+  open(token: string, handlers: ChannelHandlers): Promise<HubChannel>;
+}
+
+// ============================================================================
+// 进程内 Hub（loopback）
+// ============================================================================
+
+/** Hub 侧看到的节点连接 */
+export interface HubPeer {
+  readonly open: boolean;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  terminate(): void;
+}
+
+export interface PeerHandlers {
+  onMessage(data: string): void;
+  onClose(): void;
+}
+
+/** 可被 loopback 传输直接调用的 Hub 实现 */
+export interface LoopbackHub {
+  handleRequest(req: TransportRequest): Promise<TransportResponse>;
+  /** token 无效时返回 null */
+  attachPeer(token: string, peer: HubPeer): PeerHandlers | null;
+}
+
+const loopbackHubs = new Map<string, LoopbackHub>();
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/** 以 url 注册进程内 Hub，hubUrl 相同且 transport=loopback 的节点直接连到它 */
+export function registerLoopbackHub(url: string, hub: LoopbackHub): void {
+  loopbackHubs.set(normalizeUrl(url), hub);
+}
+
+export function unregisterLoopbackHub(url: string, hub: LoopbackHub): void {
+  const key = normalizeUrl(url);
+  if (loopbackHubs.get(key) === hub) loopbackHubs.delete(key);
+}
+
+// ============================================================================
+// 工厂
+// ============================================================================
+
+/** hubUrl 按调用时读取，注册后改地址无需重建传输 */
+export function createHubTransport(kind: HubTransportKind, hubUrl: () => string): HubTransport {
+  switch (kind) {
+    case 'longpoll': return new LongPollTransport(hubUrl);
+    case 'loopback': return new LoopbackTransport(hubUrl);
+    default: return new WebSocketTransport(hubUrl);
+  }
+}
+
+async function fetchRequest(baseUrl: string, req: TransportRequest, signal?: AbortSignal): Promise<TransportResponse> {
+  const res = await fetch(`${baseUrl}${req.path}`, { method: req.method, headers: req.headers, body: req.body, signal });
+  return { status: res.status, text: await res.text() };
+}
+
+// ============================================================================
+// WebSocket
+// ============================================================================
+
+class WebSocketTransport implements HubTransport {
+  readonly kind = 'websocket' as const;
+
+  constructor(private hubUrl: () => string) { }
+
+  request(req: TransportRequest): Promise<TransportResponse> {
+    return fetchRequest(this.hubUrl(), req);
+  }
+
+  async open(token: string, handlers: ChannelHandlers): Promise<HubChannel> {
+    const wsUrl = this.hubUrl()
+      .replace(/^https:/, 'wss:')
+      .replace(/^http:/, 'ws:')
+      + `/ws?token=${encodeURIComponent(token)}`;
+
+    // 使用原生 WebSocket（Node.js 22+ 内置）
+    const WebSocketImpl = typeof WebSocket !== 'undefined'
+      ? WebSocket
+      : (await import('ws')).default;
+
+    const ws: any = new WebSocketImpl(wsUrl);
+    ws.onopen = () => handlers.onOpen();
+    ws.onmessage = (event: any) => {
+      handlers.onMessage(typeof event.data === 'string' ? event.data : event.data.toString());
+    };
+    ws.onclose = (event: any) => handlers.onClose(event?.code, event?.reason);
+    ws.onerror = (err: any) => handlers.onError(err instanceof Error ? err : new Error(err?.message || String(err)));
+
+    return {
+      send: (data) => ws.send(data),
+      close: (code, reason) => ws.close(code, reason),
+      terminate: () => {
+        if (typeof ws.terminate === 'function') ws.terminate();
+        else ws.close();
+      },
+    };
+  }
+}
+
+// ============================================================================
+// 进程内直连
+// ============================================================================
+
+class LoopbackTransport implements HubTransport {
+  readonly kind = 'loopback' as const;
+
+  constructor(private hubUrl: () => string) { }
+
+  private hub(): LoopbackHub | undefined {
+    return loopbackHubs.get(normalizeUrl(this.hubUrl()));
+  }
+
+  async request(req: TransportRequest): Promise<TransportResponse> {
+    const hub = this.hub();
+    if (!hub) throw new Error(`进程内没有运行 Hub: ${this.hubUrl()}`);
+    return hub.handleRequest(req);
+  }
+
+  async open(token: string, handlers: ChannelHandlers): Promise<HubChannel> {
+    const hub = this.hub();
+    let open = false;
+    let closed = false;
+    let server: PeerHandlers | null = null;
+
+    // 两端回调都异步投递，模拟网络且避免重入
+    const shutdown = (code?: number, reason?: string) => {
+      if (closed) return;
+      closed = true;
+      open = false;
+      setImmediate(() => {
+        server?.onClose();
+        handlers.onClose(code, reason);
+      });
+    };
+
+    const peer: HubPeer = {
+      get open() { return open; },
+      send: (data) => {
+        if (open) setImmediate(() => { if (open) handlers.onMessage(data); });
+      },
+      close: (code, reason) => shutdown(code ?? 1000, reason),
+      terminate: () => shutdown(1006),
+    };
+
+    setImmediate(() => {
+      if (closed) return;
+      server = hub?.attachPeer(token, peer) ?? null;
+      if (!server) {
+        shutdown(1006, hub ? 'unauthorized' : 'hub not running');
+        return;
+      }
+      open = true;
+      handlers.onOpen();
+    });
+
+    return {
+      send: (data) => {
+        if (!open || !server) throw new Error('通道未打开');
+        const target = server;
+        setImmediate(() => { if (open) target.onMessage(data); });
+      },
+      close: (code, reason) => shutdown(code ?? 1000, reason),
+      terminate: () => shutdown(1006),
+    };
+  }
+}
+
+// ============================================================================
+// HTTP 长轮询
+// ============================================================================
+
+/**
+ * 协议（均带 Authorization: Bearer <token>）：
+ * - POST   /api/lp/connect        → { data: { sessionId } }
+ * - GET    /api/lp/<sessionId>    → 挂起至有消息或 LONG_POLL_HOLD_MS 超时，返回 { data: { messages: string[] } }；
+ *                                    会话已关闭返回 410 { code, reason }
+ * - POST   /api/lp/<sessionId>    { messages: string[] } 发送消息
+ * - DELETE /api/lp/<sessionId>    关闭会话
+ */
+class LongPollTransport implements HubTransport {
+  readonly kind = 'longpoll' as const;
+
+  constructor(private hubUrl: () => string) { }
+
+  request(req: TransportRequest): Promise<TransportResponse> {
+    return fetchRequest(this.hubUrl(), req);
+  }
+
+  async open(token: string, handlers: ChannelHandlers): Promise<HubChannel> {
+    const baseUrl = this.hubUrl();
+    const headers = { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' };
+    const abort = new AbortController();
+    let sessionId: string | null = null;
+    let open = false;
+    let closed = false;
+    let outgoing: string[] = [];
+    let sending = false;
+
+    const finish = (code?: number, reason?: string) => {
+      if (closed) return;
+      closed = true;
+      open = false;
+      abort.abort();
+      handlers.onClose(code, reason);
+    };
+
+    const call = (method: string, path: string, body?: any) =>
+      fetchRequest(baseUrl, { method, path, headers, body: body === undefined ? undefined : JSON.stringify(body) }, abort.signal);
+
+    const poll = async () => {
+      while (!closed) {
+        const res = await call('GET', `/api/lp/${sessionId}`);
+        if (closed) return;
+        const data = parseJson(res.text);
+        if (res.status === 410) {
+          finish(data?.code, data?.reason);
+          return;
+        }
+        if (res.status !== 200) {
+          finish(1006, `poll HTTP ${res.status}`);
+          return;
+        }
+        for (const message of data?.data?.messages || []) {
+          if (closed) return;
+          handlers.onMessage(message);
+        }
+      }
+    };
+
+    // 按入队顺序逐批发送，同一时刻只有一个发送请求；失败时未送达的消息交还调用方
+    const flush = async () => {
+      if (sending || closed) return;
+      sending = true;
+      let batch: string[] = [];
+      try {
+        while (outgoing.length > 0 && !closed) {
+          batch = takeBatch();
+          const res = await call('POST', `/api/lp/${sessionId}`, { messages: batch });
+          if (res.status === 413 && batch.length === 1) {
+            handlers.onError(new Error(`消息过大被 Hub 拒绝，已丢弃 (${Buffer.byteLength(batch[0])} 字节)`));
+            continue;
+          }
+          if (res.status !== 200) {
+            finish(res.status === 410 ? parseJson(res.text)?.code : 1006, `send HTTP ${res.status}`);
+            giveBack(batch);
+            return;
+          }
+        }
+      } catch (err) {
+        fail(err);
+        giveBack(batch);
+      } finally {
+        sending = false;
+      }
+    };
+
+    const takeBatch = (): string[] => {
+      let size = 0;
+      let count = 0;
+      while (count < outgoing.length) {
+        const next = Buffer.byteLength(outgoing[count]);
+        if (count > 0 && size + next > LONG_POLL_MAX_BATCH_BYTES) break;
+        size += next;
+        count++;
+      }
+      return outgoing.splice(0, count);
+    };
+
+    const giveBack = (batch: string[]) => {
+      const undelivered = [...batch, ...outgoing];
+      outgoing = [];
+      if (undelivered.length > 0) handlers.onUndelivered?.(undelivered);
+    };
+
+    const fail = (err: any) => {
+      if (closed) return;
+      handlers.onError(err instanceof Error ? err : new Error(String(err)));
+      finish(1006, err?.message);
+    };
+
+    setImmediate(async () => {
+      try {
+        const res = await call('POST', '/api/lp/connect', {});
+        if (closed) return;
+        if (res.status !== 200) {
+          // 握手失败不带 close code，由 HubClient 探测是否为认证问题
+          finish(undefined, `connect HTTP ${res.status}`);
+          return;
+        }
+        sessionId = parseJson(res.text)?.data?.sessionId;
+        if (!sessionId) throw new Error('Hub 未返回 sessionId');
+        open = true;
+        handlers.onOpen();
+        poll().catch(fail);
+      } catch (err) {
+        fail(err);
+      }
+    });
+
+    const close = (code?: number, reason?: string) => {
+      const id = open ? sessionId : null;
+      finish(code ?? 1000, reason);
+      if (id) fetchRequest(baseUrl, { method: 'DELETE', path: `/api/lp/${id}`, headers }).catch(() => { });
+    };
+
+    return {
+      send: (data) => {
+        if (!open) throw new Error('通道未打开');
+        outgoing.push(data);
+        flush();
+      },
+      close,
+      terminate: () => close(1006),
+    };
+  }
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
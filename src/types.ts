@@ -8,6 +8,8 @@
 
 export interface HubPluginConfig {
   hubUrl: string;
+  /** 与 Hub 的连接方式，见 HubTransportKind */
+  transport: HubTransportKind;
   adminKey?: string;
   nodeId?: string;
   nodeName?: string;
@@ -17,27 +19,154 @@ export interface HubPluginConfig {
   parentId?: string | null;
   capabilities: string[];
   heartbeatIntervalMs: number;
+  /** 连续这么多个心跳周期未收到 Hub 任何消息时判定连接已死，强制重连 */
+  heartbeatMaxMissed: number;
+  /** 重连退避基准间隔 (ms) */
   reconnectIntervalMs: number;
+  /** 重连退避上限 (ms) */
+  reconnectMaxDelayMs: number;
+  /** 重连退避倍数（每次失败后基准间隔乘以该值） */
+  reconnectBackoffFactor: number;
+  /** 发出任务的空闲超时：下发后未确认、或执行中超过该时长没有进度即标记 timeout (ms) */
   taskTimeoutMs: number;
+  /** 任务在子节点排队等待的最长时间，超过即标记 timeout (ms) */
+  taskQueueTimeoutMs: number;
+  /** 任务超时时向目标节点发送 task_cancel */
+  cancelOnTimeout: boolean;
+  /** 排队任务每等待该时长提升一级优先级，避免低优先级任务饿死 (ms) */
+  taskPriorityAgingMs: number;
   autoConnect: boolean;
   /** 自发任务模式: "local"=本地短路(默认), "hub"=走Hub路由 */
   selfTaskMode: 'local' | 'hub';
+  /** 离线发件箱最大条数（超出丢弃最旧的） */
+  outboxMaxSize: number;
+  /** 发件箱消息默认存活时间 (ms) */
+  outboxTtlMs: number;
+  /** 允许其他节点写入 / 读取的目录（hub-data/files 始终允许） */
+  fileAllowDirs: string[];
+  /** 单个文件传输大小上限 (bytes) */
+  fileMaxBytes: number;
+  /** 局域网直连：同网段节点发现后绕过 Hub 直接收发消息 */
+  lanEnabled: boolean;
+  /** 直连 WebSocket 监听端口，0 表示随机 */
+  lanPort: number;
+  /** UDP 发现端口 */
+  lanDiscoveryPort: number;
+  /** 额外的单播发现地址 host[:port]（广播不通时） */
+  lanPeers: string[];
+  /** 内置 Hub：本节点在后台服务中提供 Hub REST / WS 接口，子树节点把 hubUrl 指向它（无云端 Hub 时） */
+  hubServerEnabled: boolean;
+  /** 内置 Hub 监听端口 */
+  hubServerPort: number;
+  /** 内置 Hub 监听地址 */
+  hubServerHost: string;
 }
 
 export const DEFAULT_CONFIG: HubPluginConfig = {
   hubUrl: 'https://openclaw-hub.hpplay.com.cn',
+  transport: 'websocket',
   capabilities: ['coding', 'shell'],
   heartbeatIntervalMs: 30000,
+  heartbeatMaxMissed: 3,
   reconnectIntervalMs: 5000,
+  reconnectMaxDelayMs: 120000,
+  reconnectBackoffFactor: 2,
   taskTimeoutMs: 300000,
+  taskQueueTimeoutMs: 3600000,
+  cancelOnTimeout: true,
+  taskPriorityAgingMs: 60000,
   autoConnect: true,
   selfTaskMode: 'local',
+  outboxMaxSize: 500,
+  outboxTtlMs: 3600000,
+  fileAllowDirs: [],
+  fileMaxBytes: 512 * 1024 * 1024,
+  lanEnabled: false,
+  lanPort: 0,
+  lanDiscoveryPort: 18793,
+  lanPeers: [],
+  hubServerEnabled: false,
+  hubServerPort: 18790,
+  hubServerHost: '0.0.0.0',
 };
 
+// ============================================================================
+// Hub 连接状态
+// ============================================================================
+
+/**
+ * 与 Hub 的连接方式
+ * - websocket: WebSocket（默认）
+ * - longpoll: HTTP 长轮询，网络屏蔽 WebSocket 时使用
+ * - loopback: 同进程内的 Hub，不走网络
+ */
+export type HubTransportKind = 'websocket' | 'longpoll' | 'loopback';
+
+/**
+ * WebSocket 连接状态机
+ * - connecting: 正在建立连接
+ * - open: 已连接
+ * - backoff: 连接断开，等待退避后重连
+ * - closed: 主动断开 / 未连接
+ * - auth_failed: Hub 拒绝认证（401/403），停止重连，需重新注册或更新 token
+ */
+export type ConnectionState = 'connecting' | 'open' | 'backoff' | 'closed' | 'auth_failed';
+
+export interface ConnectionStateInfo {
+  state: ConnectionState;
+  reconnectAttempts: number;
+  nextReconnectAt: number | null;
+  lastError: string | null;
+  since: number;
+}
+
+/** 心跳往返统计 */
+export interface HeartbeatStats {
+  /** Hub 是否回应心跳（回应才有往返时延） */
+  acknowledged: boolean;
+  lastRttMs: number | null;
+  avgRttMs: number | null;
+  minRttMs: number | null;
+  maxRttMs: number | null;
+  lastAckAt: number | null;
+  /** 最近一次收到 Hub 任意消息的时间 */
+  lastMessageAt: number | null;
+  /** 当前未回应的心跳数 */
+  missed: number;
+  /** 因长时间无入站消息触发的强制重连次数 */
+  deadConnections: number;
+}
+
 // ============================================================================
 // Hub 节点
 // ============================================================================
 
+/** 心跳上报的节点资源与任务队列指标 */
+export interface NodeMetrics {
+  /** CPU 使用率 0-100 */
+  cpuLoad: number;
+  /** 1/5/15 分钟 loadavg（Windows 恒为 0） */
+  loadAvg: number[];
+  cpuCount: number;
+  memTotalMb: number;
+  memFreeMb: number;
+  memUsedPct: number;
+  /** 数据目录所在磁盘剩余空间，无法获取时为 null */
+  diskFreeMb: number | null;
+  diskTotalMb: number | null;
+  /** 子节点 TaskQueue 占用 */
+  queue: {
+    dispatching: number;
+    inflight: number;
+    queued: number;
+    maxConcurrent: number;
+  };
+  /** Gateway agents.defaults.maxConcurrent */
+  agentMaxConcurrent: number | null;
+  /** Gateway agents.defaults.subagents.maxConcurrent */
+  subagentMaxConcurrent: number | null;
+}
+
 export interface HubNode {
   id: string;
   name: string;
@@ -55,6 +184,10 @@ export interface HubNode {
   os?: string;
   arch?: string;
   version?: string;
+  /** 最近一次心跳上报的资源指标（旧版节点没有） */
+  metrics?: NodeMetrics;
+  /** 本节点到该节点的消息路径（插件本地填写，Hub 不返回）：local=本节点，lan=局域网直连，hub=Hub 中转 */
+  path?: 'local' | 'lan' | 'hub';
 }
 
 export interface HubCluster {
@@ -101,7 +234,7 @@ export interface RegisterResponse {
 // WebSocket 消息
 // ============================================================================
 
-export type WSMessageType = 'task' | 'result' | 'task_ack' | 'task_status' | 'task_cancel' | 'chat' | 'direct' | 'broadcast' | 'heartbeat' | 'subscribe';
+export type WSMessageType = 'task' | 'result' | 'task_ack' | 'task_status' | 'task_cancel' | 'task_sync' | 'task_artifact' | 'file' | 'chat' | 'direct' | 'broadcast' | 'heartbeat' | 'subscribe';
 
 export interface WSMessage {
   type: WSMessageType;
@@ -113,17 +246,158 @@ export interface WSMessage {
   timestamp?: number;
 }
 
+export type TaskPriority = 'high' | 'normal' | 'low';
+
 export interface TaskPayload {
   task: string;
   requirements?: string[];
-  attachments?: any[];
-  priority?: 'high' | 'normal' | 'low';
+  /** 输入文件，子节点保存后把路径附在指令后 */
+  attachments?: TaskArtifact[];
+  /** 要求回传产物：指令末尾附上输出目录 */
+  collectArtifacts?: boolean;
+  priority?: TaskPriority;
+}
+
+/**
+ * 任务输入附件 / 输出产物
+ * 小文件 data 内联 base64；大文件 data 为空，内容先经 task_artifact 消息分块发送，chunks 为块数
+ */
+export interface TaskArtifact {
+  name: string;
+  mime: string;
+  size: number;
+  sha256: string;
+  data?: string;
+  chunks?: number;
+}
+
+/** task_artifact 消息负载：大文件的一个分块（按序发送，先于 task / result 消息） */
+export interface ArtifactChunkPayload {
+  /** input = 父→子 的输入附件，output = 子→父 的输出产物 */
+  direction: 'input' | 'output';
+  name: string;
+  index: number;
+  total: number;
+  data: string;
+}
+
+/** 已落盘的产物（hub-data/artifacts/<taskId>/） */
+export interface StoredArtifact {
+  name: string;
+  mime: string;
+  size: number;
+  sha256: string;
+  path: string;
+  savedAt: number;
+}
+
+/**
+ * 按能力选择目标节点，替代显式节点 ID
+ * 例: { requires: ["gpu", "browser"], strategy: "least-loaded" }
+ */
+export interface TargetSelector {
+  /** 必须全部具备的能力标签 */
+  requires?: string[];
+  /** least-loaded=CPU 负载最低（默认），least-tasks=任务最少，random=随机 */
+  strategy?: 'least-loaded' | 'least-tasks' | 'random';
+  /** 排除的节点 ID */
+  exclude?: string[];
+}
+
+/** 扇出（map）的节点范围 */
+export interface MapSelector {
+  /** all=全部在线节点（默认），children=root 的直接子节点，subtree=root 及其全部后代 */
+  scope?: 'all' | 'children' | 'subtree';
+  /** children / subtree 的根节点，默认本节点 */
+  root?: string;
+  /** 必须全部具备的能力标签 */
+  requires?: string[];
+  /** 是否包含本节点（默认 true） */
+  includeSelf?: boolean;
+}
+
+/** map 中单个节点的结果 */
+export interface MapNodeResult {
+  nodeId: string;
+  nodeName?: string;
+  taskId: string;
+  status: StoredTask['status'];
+  result?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface MapResult {
+  instruction: string;
+  nodes: MapNodeResult[];
+  /** 下发失败的节点 */
+  dispatchErrors: Array<{ nodeId: string; nodeName?: string; error: string }>;
+  /** 等待超时时仍未结束的任务数 */
+  pending: number;
+  reduce?: { instruction: string; success: boolean; result?: string; error?: string };
+}
+
+/** 触发重试的结果：执行失败 / 目标节点离线 / 超时 / 对账发现任务丢失 */
+export type RetryTrigger = 'failed' | 'offline' | 'timeout' | 'lost';
+
+/** 任务重试策略 */
+export interface RetryPolicy {
+  /** 最大尝试次数（含首次） */
+  maxAttempts: number;
+  /** 首次重试前等待 (ms) */
+  backoffMs: number;
+  /** 每次重试等待时间的倍数 */
+  backoffFactor: number;
+  retryOn: RetryTrigger[];
+  /** 重试时改派到其他具备相同能力的在线节点 */
+  failover: boolean;
+}
+
+/** 任务执行进度帧（子节点经 task_status 的 payload.progress 上报） */
+export interface TaskProgress {
+  /** 单次执行内递增 */
+  seq: number;
+  at: number;
+  /** 新增的 assistant 文本（截断） */
+  text?: string;
+  /** 新增的工具调用摘要，如 "⚡ 执行命令 ✓ `ls -la`" */
+  tools?: string[];
+}
+
+/** 一次尝试的记录（任务配置了重试策略时才有） */
+export interface TaskAttempt {
+  attempt: number;
+  /** 本次尝试的 WS 消息 ID：首次为 taskId，之后为 taskId#n */
+  wireId: string;
+  nodeId: string;
+  nodeName?: string;
+  status: 'sent' | 'queued' | 'running' | 'completed' | 'failed' | 'offline' | 'timeout' | 'lost' | 'cancelled';
+  sentAt: number;
+  completedAt?: number;
+  error?: string;
+}
+
+/** sendTaskAndTrack 可选参数 */
+export interface SendTaskOptions {
+  /** 目标由选择器挑出时记录下来 */
+  selector?: TargetSelector;
+  /** 子节点排队优先级，默认 normal */
+  priority?: TaskPriority;
+  retry?: RetryPolicy;
+  /** 覆盖 taskTimeoutMs（每次尝试单独计时） */
+  timeoutMs?: number;
+  /** 输入附件的本地文件路径 */
+  attachments?: string[];
+  /** 要求目标节点把输出目录中的文件作为产物回传 */
+  collectArtifacts?: boolean;
 }
 
 export interface ResultPayload {
   success: boolean;
   result?: string;
   error?: string;
+  /** 输出产物（子节点 task-output 目录中的文件） */
+  artifacts?: TaskArtifact[];
 }
 
 // ============================================================================
@@ -174,12 +448,18 @@ export interface QueuedTask {
   taskId: string;
   fromNodeId: string;
   instruction: string;
-  priority: 'high' | 'normal' | 'low';
+  priority: TaskPriority;
   receivedAt: number;
   status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  /** 最近一次上报给父节点的排队位置 */
+  position?: number;
   startedAt?: number;
   completedAt?: number;
   sessionKey?: string;
+  /** agent 运行 ID，重启后据此重新等待结果 */
+  runId?: string;
+  /** 已收到取消请求（执行中的任务在 agent 中止后确认取消） */
+  cancelReason?: string;
   result?: string;
   error?: string;
 }
@@ -205,7 +485,8 @@ export interface StoredTask {
   targetNodeId: string;
   targetNodeName?: string;
   instruction: string;
-  status: 'sent' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timeout';
+  /** retrying = 上次尝试失败，等待重试；lost = 对账发现目标节点已无此任务 */
+  status: 'sent' | 'queued' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled' | 'timeout' | 'lost';
   sentAt: number;
   ackedAt?: number;
   startedAt?: number;
@@ -214,6 +495,33 @@ export interface StoredTask {
   error?: string;
   source: 'local' | 'remote';
   durationMs?: number;
+  /** 按能力路由时使用的选择器（targetNodeId 为选中的节点） */
+  selector?: TargetSelector;
+  priority?: TaskPriority;
+  /** 子节点上报的排队位置（queued 状态时有效） */
+  queuePosition?: number;
+  retry?: RetryPolicy;
+  /** 每次尝试的记录，最后一项为当前尝试 */
+  attempts?: TaskAttempt[];
+  /** 下次重试时间（retrying 状态时有效） */
+  nextRetryAt?: number;
+  /** 单次尝试的超时时长，未设置时使用 taskTimeoutMs */
+  timeoutMs?: number;
+  /** 当前尝试的截止时间（最近一次下发 / 开始执行 / 进度 + 超时时长），超过后由超时扫描标记为 timeout */
+  deadlineAt?: number;
+  /** 已发出取消请求，等待子节点确认 */
+  cancelRequestedAt?: number;
+  cancelReason?: string;
+  /** 执行进度日志（保留最近的若干帧） */
+  progress?: TaskProgress[];
+  /** 输入附件的本地路径（每次尝试重新打包发送） */
+  attachmentPaths?: string[];
+  /** 输入附件的元数据（不含内容） */
+  attachments?: Omit<TaskArtifact, 'data' | 'chunks'>[];
+  /** 要求回传产物 */
+  collectArtifacts?: boolean;
+  /** 已保存的输出产物 */
+  artifacts?: StoredArtifact[];
 }
 
 /** 接收到的任务（子节点持久化） */
@@ -222,7 +530,8 @@ export interface ReceivedTask {
   fromNodeId: string;
   fromNodeName?: string;
   instruction: string;
-  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  /** lost = 重启后队列中已无此任务，无法继续执行 */
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'lost';
   receivedAt: number;
   startedAt?: number;
   completedAt?: number;
@@ -231,6 +540,28 @@ export interface ReceivedTask {
   durationMs?: number;
 }
 
+/**
+ * 任务对账（task_sync 消息）
+ * 父节点 query 在途任务 ID，子节点 report 各任务的实际状态；
+ * 子节点重启后也会主动 report 无法恢复的任务
+ */
+export interface TaskSyncPayload {
+  op: 'query' | 'report';
+  taskIds?: string[];
+  tasks?: TaskSyncEntry[];
+}
+
+export interface TaskSyncEntry {
+  taskId: string;
+  /** unknown = 子节点没有该任务的任何记录 */
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'lost' | 'unknown';
+  position?: number;
+  result?: string;
+  error?: string;
+  /** 结果回传时未送达的产物，随对账重发（分块先行） */
+  artifacts?: TaskArtifact[];
+}
+
 /** 持久化聊天消息 */
 export interface StoredChatMessage {
   id: string;
@@ -240,6 +571,14 @@ export interface StoredChatMessage {
   timestamp: number;
 }
 
+/** 离线发件箱条目 — 断线期间待发送的 WS 帧，重连后按序重放 */
+export interface OutboxEntry {
+  id: string;
+  message: WSMessage;
+  enqueuedAt: number;
+  expiresAt: number;
+}
+
 /** 持久化节点事件 */
 export interface StoredNodeEvent {
   nodeId: string;
@@ -259,3 +598,155 @@ export interface ChatConfig {
   /** 定时轮询间隔(ms)，null=不开启定时轮询 */
   autoRefreshMs: number | null;
 }
+
+// ============================================================================
+// 文件传输
+// ============================================================================
+
+/**
+ * file 消息帧（payload.op 区分）
+ * - offer:    发送方 → 接收方，声明文件（大小、sha256、目标路径）
+ * - accept:   接收方 → 发送方，同意接收并告知续传偏移
+ * - reject:   接收方 → 发送方，拒绝（不在白名单、超限等）
+ * - chunk:    发送方 → 接收方，一段数据（offset + base64）
+ * - ack:      接收方 → 发送方，已落盘字节数
+ * - complete: 接收方 → 发送方，校验通过，传输完成
+ * - error:    任意方向，传输中止
+ * - pull:     请求方 → 持有方，请求对方把文件推送过来
+ */
+export type FileFrameOp = 'offer' | 'accept' | 'reject' | 'chunk' | 'ack' | 'complete' | 'error' | 'pull';
+
+export interface FileFrame {
+  op: FileFrameOp;
+  transferId: string;
+  /** offer: 文件名 */
+  name?: string;
+  /** offer: 接收方写入路径；pull: 持有方读取路径 */
+  path?: string;
+  /** pull: 请求方的本地保存路径（持有方回 offer 时原样带回） */
+  dest?: string;
+  size?: number;
+  sha256?: string;
+  /** chunk: 本段起始偏移；accept / ack: 接收方已有字节数 */
+  offset?: number;
+  data?: string;
+  error?: string;
+}
+
+export type FileTransferStatus = 'pending' | 'transferring' | 'completed' | 'failed' | 'cancelled';
+
+export interface FileTransfer {
+  transferId: string;
+  direction: 'send' | 'receive';
+  /** 对端节点 */
+  peerNodeId: string;
+  peerNodeName?: string;
+  /** 本地文件路径（发送方为源，接收方为目标） */
+  localPath: string;
+  /** 对端文件路径 */
+  remotePath: string;
+  size: number;
+  sha256?: string;
+  /** 已确认的字节数 */
+  transferred: number;
+  status: FileTransferStatus;
+  /** 由 pull 发起 */
+  pulled?: boolean;
+  /** 断点续传的起始偏移 */
+  resumedFrom?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+// ============================================================================
+// 工作流（任务 DAG）
+// ============================================================================
+
+export interface WorkflowStep {
+  /** 步骤 ID（模板中以 {{steps.<id>.result}} 引用） */
+  id: string;
+  /** 目标节点 ID 或别名（与 requires 二选一） */
+  nodeId?: string;
+  requires?: string[];
+  strategy?: TargetSelector['strategy'];
+  priority?: TaskPriority;
+  /** 指令模板，支持 {{steps.<id>.result|error|status|taskId}} 和 {{inputs.<key>}} */
+  instruction: string;
+  /** 依赖的步骤，全部完成后才下发 */
+  dependsOn?: string[];
+  retry?: number | Partial<RetryPolicy>;
+  timeoutMs?: number;
+  /** 本步骤失败时不中止工作流，依赖它的步骤照常执行 */
+  continueOnError?: boolean;
+}
+
+export interface WorkflowDefinition {
+  name?: string;
+  steps: WorkflowStep[];
+  /** 同时执行的步骤上限（默认不限） */
+  maxParallel?: number;
+}
+
+export type WorkflowStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+export interface WorkflowStepState {
+  id: string;
+  status: WorkflowStepStatus;
+  taskId?: string;
+  nodeId?: string;
+  /** 渲染后的指令 */
+  instruction?: string;
+  result?: string;
+  error?: string;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface WorkflowRun {
+  runId: string;
+  name?: string;
+  definition: WorkflowDefinition;
+  inputs: Record<string, string>;
+  status: WorkflowRunStatus;
+  steps: Record<string, WorkflowStepState>;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+// ============================================================================
+// 定时任务
+// ============================================================================
+
+/** 错过执行时间（进程停机期间到期）的处理：skip=跳过，once=启动后补跑一次 */
+export type MissedRunPolicy = 'skip' | 'once';
+
+export interface Schedule {
+  scheduleId: string;
+  name?: string;
+  /** 5 段 cron 表达式（分 时 日 月 周，本地时区），与 at 二选一 */
+  cron?: string;
+  /** 一次性执行时间（毫秒时间戳） */
+  at?: number;
+  /** 目标节点 ID，或能力选择器 */
+  target: string | TargetSelector;
+  instruction: string;
+  priority?: TaskPriority;
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  missedPolicy: MissedRunPolicy;
+  enabled: boolean;
+  /** 下次执行时间；一次性任务执行后为 undefined */
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastTaskId?: string;
+  lastError?: string;
+  runCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,337 @@
+/**
+ * 工作流引擎 — 按 dependsOn 编排的任务 DAG
+ *
+ * 每个步骤就是一个普通 Hub 任务（经 sendTaskAndTrack 下发，复用路由/重试/超时），
+ * 依赖全部完成后渲染指令模板并下发。运行状态持久化在 hub-data/workflows.json，
+ * 重启后继续跟踪在途步骤。
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  WorkflowDefinition, WorkflowStep, WorkflowRun, WorkflowStepState, StoredTask,
+} from './types.js';
+import type { WorkflowStore } from './store.js';
+
+/** 检查在途步骤的间隔 (ms) */
+export const WORKFLOW_TICK_INTERVAL_MS = 2000;
+export const WORKFLOW_MAX_STEPS = 100;
+
+const STEP_ID_RE = /^[\w-]+$/;
+const TEMPLATE_RE = /\{\{\s*(?:steps\.([\w-]+)\.(result|error|status|taskId)|inputs\.([\w-]+))\s*\}\}/g;
+
+type PluginLogger = {
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+};
+
+export interface WorkflowRunnerOptions {
+  store: WorkflowStore;
+  logger: PluginLogger;
+  /** 下发一个步骤，返回任务 ID */
+  dispatch: (step: WorkflowStep, instruction: string) => Promise<{ taskId: string; nodeId?: string }>;
+  getTask: (taskId: string) => StoredTask | null;
+  cancelTask: (taskId: string, reason: string) => void;
+  onUpdate?: (run: WorkflowRun) => void;
+}
+
+/** 模板中引用的步骤和输入 */
+function templateRefs(text: string): { steps: string[]; inputs: string[] } {
+  const steps: string[] = [];
+  const inputs: string[] = [];
+  for (const m of text.matchAll(TEMPLATE_RE)) {
+    if (m[1]) steps.push(m[1]);
+    if (m[3]) inputs.push(m[3]);
+  }
+  return { steps, inputs };
+}
+
+/**
+ * 校验工作流定义：步骤 ID 唯一、依赖存在且无环、
+ * 模板只引用上游步骤（直接或间接依赖）和已提供的输入。返回规范化后的定义
+ */
+export function validateWorkflow(raw: any, inputs: Record<string, string> = {}): WorkflowDefinition {
+  if (!raw || !Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new Error('工作流需要非空的 steps 数组');
+  }
+  if (raw.steps.length > WORKFLOW_MAX_STEPS) {
+    throw new Error(`步骤数超过上限 ${WORKFLOW_MAX_STEPS}`);
+  }
+
+  const steps: WorkflowStep[] = raw.steps.map((s: any, i: number) => {
+    if (!s || typeof s.id !== 'string' || !STEP_ID_RE.test(s.id)) {
+      throw new Error(`第 ${i + 1} 个步骤的 id 无效（仅限字母、数字、_ 和 -）`);
+    }
+    if (typeof s.instruction !== 'string' || !s.instruction.trim()) {
+      throw new Error(`步骤 ${s.id} 缺少 instruction`);
+    }
+    if (!s.nodeId && !(Array.isArray(s.requires) && s.requires.length > 0)) {
+      throw new Error(`步骤 ${s.id} 需要 nodeId 或 requires`);
+    }
+    return { ...s, dependsOn: Array.isArray(s.dependsOn) ? s.dependsOn.map(String) : [] };
+  });
+
+  const byId = new Map<string, WorkflowStep>();
+  for (const step of steps) {
+    if (byId.has(step.id)) throw new Error(`步骤 id 重复: ${step.id}`);
+    byId.set(step.id, step);
+  }
+  for (const step of steps) {
+    for (const dep of step.dependsOn!) {
+      if (!byId.has(dep)) throw new Error(`步骤 ${step.id} 依赖不存在的步骤 ${dep}`);
+      if (dep === step.id) throw new Error(`步骤 ${step.id} 依赖自身`);
+    }
+  }
+
+  // 拓扑检查 + 每个步骤的全部上游
+  const ancestors = new Map<string, Set<string>>();
+  const visiting = new Set<string>();
+  const collect = (id: string): Set<string> => {
+    const cached = ancestors.get(id);
+    if (cached) return cached;
+    if (visiting.has(id)) throw new Error(`工作流存在循环依赖（经过步骤 ${id}）`);
+    visiting.add(id);
+    const result = new Set<string>();
+    for (const dep of byId.get(id)!.dependsOn!) {
+      result.add(dep);
+      for (const a of collect(dep)) result.add(a);
+    }
+    visiting.delete(id);
+    ancestors.set(id, result);
+    return result;
+  };
+
+  for (const step of steps) {
+    const upstream = collect(step.id);
+    const refs = templateRefs(step.instruction);
+    for (const ref of refs.steps) {
+      if (!upstream.has(ref)) {
+        throw new Error(`步骤 ${step.id} 引用了非上游步骤 ${ref}（需在 dependsOn 中直接或间接依赖）`);
+      }
+    }
+    for (const key of refs.inputs) {
+      if (!(key in inputs)) throw new Error(`步骤 ${step.id} 引用了未提供的输入 ${key}`);
+    }
+  }
+
+  const maxParallel = Number(raw.maxParallel);
+  return {
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    steps,
+    maxParallel: Number.isFinite(maxParallel) && maxParallel > 0 ? Math.floor(maxParallel) : undefined,
+  };
+}
+
+/** 渲染指令模板 */
+export function renderTemplate(text: string, run: WorkflowRun): string {
+  return text.replace(TEMPLATE_RE, (_m, stepId: string, field: string, inputKey: string) => {
+    if (inputKey) return run.inputs[inputKey] ?? '';
+    const state = run.steps[stepId] as any;
+    return state?.[field] != null ? String(state[field]) : '';
+  });
+}
+
+export class WorkflowRunner {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private waiters = new Map<string, Array<(run: WorkflowRun) => void>>();
+
+  constructor(private opts: WorkflowRunnerOptions) { }
+
+  /** 启动一次运行 */
+  run(raw: any, inputs: Record<string, string> = {}): WorkflowRun {
+    const definition = validateWorkflow(raw, inputs);
+    const now = Date.now();
+    const steps: Record<string, WorkflowStepState> = {};
+    for (const step of definition.steps) steps[step.id] = { id: step.id, status: 'pending' };
+    const run = this.opts.store.add({
+      runId: randomUUID(),
+      name: definition.name,
+      definition,
+      inputs,
+      status: 'running',
+      steps,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.opts.logger.info(`[cluster-hub] 工作流 ${run.name || run.runId} 开始，共 ${definition.steps.length} 步`);
+    this.advance(run);
+    return run;
+  }
+
+  cancel(runId: string, reason = '工作流已取消'): WorkflowRun | null {
+    const run = this.opts.store.get(runId);
+    if (!run || run.status !== 'running') return run;
+    this.abortSteps(run, reason, 'cancelled');
+    this.finish(run, 'cancelled', reason);
+    return run;
+  }
+
+  /** 等待运行结束；超时返回当前状态 */
+  wait(runId: string, timeoutMs: number): Promise<WorkflowRun | null> {
+    const run = this.opts.store.get(runId);
+    if (!run || run.status !== 'running') return Promise.resolve(run);
+    return new Promise(resolve => {
+      const done = (r: WorkflowRun) => { clearTimeout(timer); resolve(r); };
+      const timer = setTimeout(() => {
+        this.waiters.set(runId, (this.waiters.get(runId) || []).filter(w => w !== done));
+        resolve(this.opts.store.get(runId));
+      }, timeoutMs);
+      this.waiters.set(runId, [...(this.waiters.get(runId) || []), done]);
+    });
+  }
+
+  /** 服务启动：恢复运行中的工作流并开始定时检查 */
+  start(): void {
+    for (const run of this.opts.store.listRunning()) {
+      // 下发途中进程退出、尚未拿到 taskId 的步骤重新下发
+      for (const state of Object.values(run.steps)) {
+        if (state.status === 'running' && !state.taskId) {
+          state.status = 'pending';
+          state.startedAt = undefined;
+        }
+      }
+      this.opts.store.touch(run);
+    }
+    if (!this.timer) this.timer = setInterval(() => this.tick(), WORKFLOW_TICK_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  tick(): void {
+    for (const run of this.opts.store.listRunning()) {
+      try {
+        this.advance(run);
+      } catch (err: any) {
+        this.opts.logger.warn(`[cluster-hub] 工作流 ${run.runId} 推进失败: ${err.message}`);
+      }
+    }
+  }
+
+  /** 收集在途步骤的结果，下发就绪步骤，全部结束时收尾 */
+  private advance(run: WorkflowRun): void {
+    if (run.status !== 'running') return;
+    const { definition } = run;
+    let changed = false;
+
+    for (const step of definition.steps) {
+      const state = run.steps[step.id];
+      if (state.status !== 'running' || !state.taskId) continue;
+      const task = this.opts.getTask(state.taskId);
+      if (!task) {
+        this.settleStep(run, step, 'failed', undefined, '任务记录已被清理');
+        changed = true;
+      } else if (task.status === 'completed') {
+        this.settleStep(run, step, 'completed', task.result);
+        changed = true;
+      } else if (task.status === 'failed' || task.status === 'timeout' || task.status === 'lost' || task.status === 'cancelled') {
+        this.settleStep(run, step, 'failed', task.result, `${task.status}: ${task.error || '未知错误'}`);
+        changed = true;
+      }
+      if (run.status !== 'running') return;
+    }
+
+    let running = definition.steps.filter(s => run.steps[s.id].status === 'running').length;
+    for (const step of definition.steps) {
+      const state = run.steps[step.id];
+      if (state.status !== 'pending') continue;
+      const deps = step.dependsOn || [];
+      const depStates = deps.map(d => run.steps[d]);
+      if (depStates.some(d => d.status === 'pending' || d.status === 'running')) continue;
+
+      // 上游失败（且未声明 continueOnError）或被跳过 → 跳过
+      const blocked = deps.find(d => {
+        const s = run.steps[d];
+        const depStep = definition.steps.find(x => x.id === d)!;
+        return s.status === 'skipped' || s.status === 'cancelled' || (s.status === 'failed' && !depStep.continueOnError);
+      });
+      if (blocked) {
+        state.status = 'skipped';
+        state.error = `上游步骤 ${blocked} 未成功`;
+        state.completedAt = Date.now();
+        changed = true;
+        continue;
+      }
+
+      if (definition.maxParallel && running >= definition.maxParallel) continue;
+      running++;
+      changed = true;
+      this.dispatchStep(run, step);
+    }
+
+    if (changed) this.touch(run);
+
+    const states = Object.values(run.steps);
+    if (states.every(s => s.status !== 'pending' && s.status !== 'running')) {
+      const failed = definition.steps.filter(s => run.steps[s.id].status === 'failed' && !s.continueOnError);
+      if (failed.length > 0) this.finish(run, 'failed', `步骤 ${failed.map(s => s.id).join(', ')} 失败`);
+      else this.finish(run, 'completed');
+    }
+  }
+
+  private dispatchStep(run: WorkflowRun, step: WorkflowStep): void {
+    const state = run.steps[step.id];
+    state.status = 'running';
+    state.startedAt = Date.now();
+    state.instruction = renderTemplate(step.instruction, run);
+    this.opts.dispatch(step, state.instruction).then(({ taskId, nodeId }) => {
+      state.taskId = taskId;
+      state.nodeId = nodeId;
+      this.opts.logger.info(`[cluster-hub] 工作流 ${run.runId} 步骤 ${step.id} → 任务 ${taskId}`);
+      // 下发期间工作流已结束（取消或其他步骤失败）
+      if (run.status !== 'running') this.opts.cancelTask(taskId, run.error || '工作流已结束');
+      this.touch(run);
+    }).catch(err => {
+      if (run.status !== 'running') return;
+      this.settleStep(run, step, 'failed', undefined, `下发失败: ${err.message}`);
+      this.touch(run);
+      this.advance(run);
+    });
+  }
+
+  private settleStep(run: WorkflowRun, step: WorkflowStep, status: 'completed' | 'failed', result?: string, error?: string): void {
+    const state = run.steps[step.id];
+    state.status = status;
+    state.result = result;
+    state.error = error;
+    state.completedAt = Date.now();
+    if (status === 'failed' && !step.continueOnError) {
+      // 快速失败：取消在途步骤，未开始的标记跳过
+      this.abortSteps(run, `步骤 ${step.id} 失败，工作流中止`, 'skipped');
+      this.finish(run, 'failed', `步骤 ${step.id} 失败: ${error}`);
+    }
+  }
+
+  private abortSteps(run: WorkflowRun, reason: string, pendingStatus: 'skipped' | 'cancelled'): void {
+    for (const state of Object.values(run.steps)) {
+      if (state.status === 'running') {
+        if (state.taskId) this.opts.cancelTask(state.taskId, reason);
+        state.status = 'cancelled';
+        state.error = reason;
+        state.completedAt = Date.now();
+      } else if (state.status === 'pending') {
+        state.status = pendingStatus;
+        state.error = reason;
+      }
+    }
+  }
+
+  private finish(run: WorkflowRun, status: WorkflowRun['status'], error?: string): void {
+    if (run.status !== 'running') return;
+    run.status = status;
+    run.error = error;
+    run.completedAt = Date.now();
+    this.touch(run);
+    this.opts.logger.info(`[cluster-hub] 工作流 ${run.name || run.runId} ${status}${error ? `: ${error}` : ''}`);
+    const waiters = this.waiters.get(run.runId) || [];
+    this.waiters.delete(run.runId);
+    for (const done of waiters) done(run);
+  }
+
+  private touch(run: WorkflowRun): void {
+    this.opts.store.touch(run);
+    this.opts.onUpdate?.(run);
+  }
+}
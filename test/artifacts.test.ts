@@ -0,0 +1,42 @@
+/**
+ * 附件 / 产物落盘：分块累计大小上限，manifest.json 为保留名
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ArtifactStore, ARTIFACT_MAX_TOTAL, packFiles } from '../src/artifacts.js';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-'));
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('同一任务的分块累计超过上限时拒绝写入', () => {
+  const store = new ArtifactStore(path.join(dataDir, 'store'));
+  const data = Buffer.alloc(1024 * 1024, 1).toString('base64');
+  const count = ARTIFACT_MAX_TOTAL / (1024 * 1024);
+  for (let index = 0; index < count; index++) {
+    store.writeChunk('t1', { direction: 'input', name: `part-${index % 2}.bin`, index: Math.floor(index / 2), total: count, data });
+  }
+  assert.throws(() => store.writeChunk('t1', { direction: 'input', name: 'more.bin', index: 0, total: 1, data }), /上限/);
+  // 从头重写同一文件不重复计算已有部分
+  store.writeChunk('t1', { direction: 'input', name: 'part-0.bin', index: 0, total: 1, data });
+});
+
+test('manifest.json 不能被附件覆盖，打包时自动改名', () => {
+  const store = new ArtifactStore(path.join(dataDir, 'store'));
+  assert.throws(() => store.writeChunk('t2', { direction: 'output', name: '../manifest.json', index: 0, total: 1, data: 'e30=' }), /保留名/);
+  assert.throws(() => store.save('t2', { name: 'manifest.json', mime: 'application/json', size: 2, sha256: '0'.repeat(64), data: 'e30=' }), /保留名/);
+
+  const file = path.join(dataDir, 'manifest.json');
+  fs.writeFileSync(file, '{}');
+  const { artifacts } = packFiles([file], 'output');
+  assert.equal(artifacts[0].name, 'manifest-1.json');
+  const saved = store.save('t2', artifacts[0]);
+  assert.equal(saved.name, 'manifest-1.json');
+  assert.deepEqual(store.list('t2').map(a => a.name), ['manifest-1.json']);
+});
@@ -0,0 +1,227 @@
+/**
+ * 端到端：本地 Hub 替身 + 根节点 / 子节点，覆盖任务下发、子节点队列、聊天、取消和断线重连
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { SimCluster, SimNode, waitFor, echoScript, type AgentScriptFn } from './harness.js';
+
+/**
+ * 在 echoScript 之外：slow xxx → 2 秒后回复；hang → 30 秒后回复（用于取消）；steady → 7 秒内持续输出进度；
+ * produce [slow] → 指令带输出目录时写入 300KB 产物（分块发送）
+ */
+const script: AgentScriptFn = (message) => {
+  const text = message.split('\n').find(line => /^(slow|hang|steady|produce)\b/.test(line.trim()))?.trim() || message.trim();
+  if (text.startsWith('produce')) {
+    const outputDir = message.match(/^\[输出目录\].*: (.+)$/m)?.[1];
+    if (!outputDir) return { reply: 'NO_OUTPUT_DIR', delayMs: 50 };
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'report.bin'), Buffer.alloc(300 * 1024, 7));
+    return { reply: 'PRODUCED', delayMs: text === 'produce slow' ? 1_000 : 50 };
+  }
+  if (text.startsWith('steady')) return { reply: 'STEADY', delayMs: 7_000, progress: ['步骤 1', '步骤 2', '步骤 3', '步骤 4', '步骤 5', '步骤 6'] };
+  if (text.startsWith('slow ')) return { reply: `SLOW:${text.slice(5)}`, delayMs: 2_000 };
+  if (text.startsWith('hang')) return { reply: 'HANG', delayMs: 30_000 };
+  return echoScript(message);
+};
+
+const cluster = new SimCluster();
+let root: SimNode;
+let child: SimNode;
+
+before(async () => {
+  await cluster.start();
+  root = await cluster.addNode('root', { script });
+  child = await cluster.addNode('child', { parent: root, script });
+});
+
+after(async () => {
+  await cluster.stop();
+});
+
+async function waitTask(node: SimNode, taskId: string, timeoutMs = 10_000): Promise<any> {
+  const { tasks, timedOut } = await node.call('hub.task.wait', { taskId, timeoutMs });
+  assert.equal(timedOut, false, `任务 ${taskId} 未在 ${timeoutMs}ms 内结束`);
+  return tasks[0];
+}
+
+test('任务经 Hub 下发到子节点并回传结果', async () => {
+  const { taskId, nodeId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'echo hello' });
+  assert.equal(nodeId, child.nodeId);
+
+  const task = await waitTask(root, taskId);
+  assert.equal(task.status, 'completed');
+  assert.match(task.result, /ECHO:hello/);
+  assert.ok(child.gateway.dispatched.some(m => m.includes('echo hello')));
+});
+
+test('子节点队列并发处理多个任务', async () => {
+  const sent = await Promise.all(['a', 'b', 'c'].map(x =>
+    root.call('hub.task.send', { nodeId: child.nodeId, instruction: `echo ${x}`, priority: x === 'c' ? 'high' : 'normal' }),
+  ));
+  const tasks = await Promise.all(sent.map(({ taskId }) => waitTask(root, taskId)));
+  assert.deepEqual(tasks.map(t => t.status), ['completed', 'completed', 'completed']);
+  assert.deepEqual(tasks.map(t => t.result.match(/ECHO:(\w)/)?.[1]), ['a', 'b', 'c']);
+
+  const { queue } = await child.call('hub.tasks');
+  assert.equal(queue.queued, 0);
+  assert.equal(queue.running, 0);
+  assert.ok(queue.completed >= 3);
+});
+
+test('聊天消息由子节点 agent 回复', async () => {
+  await root.call('hub.chat.send', { nodeId: child.nodeId, content: 'echo 你好' });
+  const reply = await waitFor(async () => {
+    const { messages } = await root.call('hub.chat.history', { nodeId: child.nodeId });
+    return messages.find((m: any) => m.role === 'assistant' && String(m.content).includes('ECHO:你好'));
+  }, 10_000, '聊天回复');
+  assert.ok(reply);
+});
+
+test('取消执行中的远程任务会中止子节点 agent', async () => {
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'hang' });
+  await waitFor(() => child.gateway.activeRuns > 0, 5_000, '子节点开始执行');
+
+  await root.call('hub.task.cancel', { taskId, reason: '测试取消' });
+  const task = await waitTask(root, taskId);
+  assert.equal(task.status, 'cancelled');
+  assert.equal(child.gateway.aborted.length, 1);
+  assert.equal(child.gateway.activeRuns, 0);
+});
+
+test('执行超过超时时长但持续有进度的任务不会超时', async () => {
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'steady', timeoutMs: 3_000 });
+  const task = await waitTask(root, taskId, 15_000);
+  assert.equal(task.status, 'completed');
+  assert.match(task.result, /STEADY/);
+  assert.ok(task.progress.length > 0);
+});
+
+test('执行中断线，重连后结果照常回传', async () => {
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'slow reconnect' });
+  await waitFor(() => child.gateway.activeRuns > 0, 5_000, '子节点开始执行');
+
+  const { since } = await child.connection();
+  assert.ok(cluster.hub.dropConnection(child.nodeId));
+  // 断开后重连很快，按 since 判断是否是新连接
+  await waitFor(async () => {
+    const conn = await child.connection();
+    return conn.state === 'open' && conn.since > since;
+  }, 5_000, '子节点重连');
+
+  const task = await waitTask(root, taskId);
+  assert.equal(task.status, 'completed');
+  assert.match(task.result, /SLOW:reconnect/);
+});
+
+test('只有要求产物的任务才附上输出目录', async () => {
+  const plain = await waitTask(root, (await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'produce' })).taskId);
+  assert.match(plain.result, /NO_OUTPUT_DIR/);
+  assert.equal(child.gateway.dispatched.at(-1), 'produce');
+
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'produce', collectArtifacts: true });
+  const task = await waitTask(root, taskId);
+  assert.match(task.result, /PRODUCED/);
+  const { artifacts } = await root.call('hub.task.artifacts', { taskId });
+  assert.deepEqual(artifacts.map((a: any) => [a.name, a.size]), [['report.bin', 300 * 1024]]);
+});
+
+test('断线时产物分块不进发件箱，重连后连同结果重发', async () => {
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'produce slow', collectArtifacts: true });
+  await waitFor(() => child.gateway.activeRuns > 0, 5_000, '子节点开始执行');
+  await child.call('hub.disconnect');
+  await waitFor(async () => {
+    const { tasks } = await child.call('hub.task.received', { status: 'completed' });
+    return tasks.some((t: any) => t.taskId === taskId);
+  }, 10_000, '子节点执行完成');
+  assert.notEqual((await root.call('hub.task.get', { taskId })).task.status, 'completed');
+
+  await child.call('hub.connect');
+  const task = await waitTask(root, taskId);
+  assert.equal(task.status, 'completed');
+  assert.match(task.result, /PRODUCED/);
+  const { artifacts } = await root.call('hub.task.artifacts', { taskId });
+  assert.deepEqual(artifacts.map((a: any) => a.name), ['report.bin']);
+});
+
+test('对账报告与查询只认任务的下发方和目标节点', async () => {
+  const { ws } = await cluster.addRawMember(root);
+  const replies: any[] = [];
+  ws.on('message', data => {
+    const msg = JSON.parse(data.toString());
+    if (msg.type === 'task_sync') replies.push(msg);
+  });
+
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'slow forged' });
+  await waitFor(() => child.gateway.activeRuns > 0, 5_000, '子节点开始执行');
+  ws.send(JSON.stringify({
+    type: 'task_sync', id: 'forged-report', to: root.nodeId,
+    payload: { op: 'report', tasks: [{ taskId, status: 'completed', result: 'FORGED' }] },
+  }));
+  ws.send(JSON.stringify({ type: 'task_sync', id: 'forged-query', to: child.nodeId, payload: { op: 'query', taskIds: [taskId] } }));
+
+  await waitFor(() => replies.length > 0, 5_000, '子节点回答查询');
+  assert.deepEqual(replies[0].payload.tasks, [{ taskId, status: 'unknown' }]);
+  const task = await waitTask(root, taskId);
+  assert.equal(task.status, 'completed');
+  assert.match(task.result, /SLOW:forged/);
+});
+
+test('输入附件分块限制每个节点的在途任务数', async () => {
+  const { ws } = await cluster.addRawMember(root);
+  const ids = Array.from({ length: 6 }, (_, i) => `flood-${i}`);
+  for (const id of ids) {
+    ws.send(JSON.stringify({
+      type: 'task_artifact', id, to: child.nodeId,
+      payload: { direction: 'input', name: 'a.bin', index: 0, total: 2, data: 'AAAA' },
+    }));
+  }
+  const inputDir = path.join(child.home, '.openclaw', 'hub-data', 'task-input');
+  await waitFor(() => fs.existsSync(path.join(inputDir, 'flood-3')), 5_000, '分块落盘');
+  await new Promise(resolve => setTimeout(resolve, 200));
+  assert.deepEqual(fs.readdirSync(inputDir).filter(name => name.startsWith('flood-')).sort(), ids.slice(0, 4));
+});
+
+test('在子节点排队超过排队预算的任务标记为 timeout', async () => {
+  const { node, ws } = await cluster.addRawMember(root);
+  const cancels: string[] = [];
+  ws.on('message', data => {
+    const msg = JSON.parse(data.toString());
+    // 模拟并发槽一直占满：只确认排队，从不开始执行
+    if (msg.type === 'task') ws.send(JSON.stringify({ type: 'task_ack', id: msg.id, to: root.nodeId, payload: { status: 'queued', position: 1 } }));
+    if (msg.type === 'task_cancel') cancels.push(msg.id);
+  });
+
+  await root.call('hub.config.set', { config: { taskQueueTimeoutMs: 1_500 } });
+  try {
+    const { taskId } = await root.call('hub.task.send', { nodeId: node.nodeId, instruction: 'echo never' });
+    const task = await waitTask(root, taskId, 15_000);
+    assert.equal(task.status, 'timeout');
+    assert.match(task.error, /排队超时/);
+    await waitFor(() => cancels.includes(taskId), 5_000, '通知目标节点取消');
+  } finally {
+    await root.call('hub.config.set', { config: { taskQueueTimeoutMs: 3_600_000 } });
+  }
+});
+
+test('本地执行的任务持续有进度时不会被超时扫描提前结束', async () => {
+  await root.call('hub.config.set', { config: { taskTimeoutMs: 3_000 } });
+  try {
+    const sync = root.call('hub.send.sync', { nodeId: root.nodeId, instruction: 'steady' });
+    await waitFor(() => root.gateway.activeRuns > 0, 5_000, '本地开始执行');
+    // 超过 taskTimeoutMs 且经过一轮超时扫描后仍在执行
+    await new Promise(resolve => setTimeout(resolve, 5_500));
+    const { tasks } = await root.call('hub.tasks', { nodeId: root.nodeId, limit: 1 });
+    assert.notEqual(tasks[0].status, 'timeout');
+
+    const { result } = await sync;
+    assert.equal(result.success, true);
+    assert.match(result.result, /STEADY/);
+    const settled = await root.call('hub.tasks', { nodeId: root.nodeId, limit: 1 });
+    assert.equal(settled.tasks[0].status, 'completed');
+  } finally {
+    await root.call('hub.config.set', { config: { taskTimeoutMs: 300_000 } });
+  }
+});
@@ -0,0 +1,82 @@
+/**
+ * 文件传输：同一目标路径同时只接受一路接收，收完后可再次写入；只认传输对端的帧
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { FileTransferManager } from '../src/file-transfer.js';
+import { FileTransferStore } from '../src/store.js';
+import type { FileFrame } from '../src/types.js';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-transfer-'));
+const logger = { info() { }, warn() { }, error() { } };
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function offer(transferId: string, content: Buffer): FileFrame {
+  return {
+    op: 'offer', transferId, path: 'shared/report.txt', name: 'report.txt',
+    size: content.length, sha256: createHash('sha256').update(content).digest('hex'),
+  };
+}
+
+test('同一目标正在接收时拒绝另一路 offer', async () => {
+  const sent: Array<{ to: string; frame: FileFrame }> = [];
+  const manager = new FileTransferManager({
+    store: new FileTransferStore(dataDir),
+    logger,
+    baseDir: path.join(dataDir, 'files'),
+    send: (to, frame) => { sent.push({ to, frame }); },
+    limits: () => ({ allowDirs: [], maxBytes: 1024 * 1024 }),
+  });
+  const first = Buffer.from('first sender');
+  const second = Buffer.from('second sender!');
+  try {
+    manager.handleFrame('node-a', offer('t-a', first));
+    manager.handleFrame('node-b', offer('t-b', second));
+    assert.deepEqual(sent.map(s => [s.to, s.frame.op]), [['node-a', 'accept'], ['node-b', 'reject']]);
+
+    manager.handleFrame('node-a', { op: 'chunk', transferId: 't-a', offset: 0, data: first.toString('base64') });
+    assert.equal((await manager.wait('t-a', 5_000))?.status, 'completed');
+    const target = path.join(dataDir, 'files', 'shared', 'report.txt');
+    assert.equal(fs.readFileSync(target, 'utf-8'), 'first sender');
+
+    // 上一路结束后同一目标可以再次接收
+    manager.handleFrame('node-b', offer('t-c', second));
+    assert.equal(sent.at(-1)?.frame.op, 'accept');
+  } finally {
+    manager.shutdown();
+  }
+});
+
+test('第三方节点的控制帧不影响他人的传输', async () => {
+  const sent: Array<{ to: string; frame: FileFrame }> = [];
+  const store = new FileTransferStore(dataDir);
+  const manager = new FileTransferManager({
+    store,
+    logger,
+    baseDir: path.join(dataDir, 'files'),
+    send: (to, frame) => { sent.push({ to, frame }); },
+    limits: () => ({ allowDirs: [], maxBytes: 1024 * 1024 }),
+  });
+  const content = Buffer.from('genuine content');
+  try {
+    manager.handleFrame('node-a', { ...offer('t-d', content), path: 'shared/genuine.txt' });
+    manager.handleFrame('node-x', { op: 'error', transferId: 't-d', error: 'forged' });
+    manager.handleFrame('node-x', { op: 'complete', transferId: 't-d' });
+    manager.handleFrame('node-x', { op: 'offer', transferId: 't-d', path: 'shared/evil.txt', size: 1, sha256: 'a'.repeat(64) });
+    assert.equal(store.get('t-d')?.status, 'transferring');
+    assert.deepEqual(sent.map(s => s.to), ['node-a']);
+
+    manager.handleFrame('node-a', { op: 'chunk', transferId: 't-d', offset: 0, data: content.toString('base64') });
+    assert.equal((await manager.wait('t-d', 5_000))?.status, 'completed');
+  } finally {
+    manager.shutdown();
+  }
+});
@@ -0,0 +1,419 @@
+/**
+ * 端到端测试脚手架 — 在一个进程里跑本地 Hub 替身 + N 个模拟节点
+ *
+ * 每个节点：独立 HOME（hub-data / openclaw.json）、一份全新加载的插件模块、
+ * 假的插件 API（registerGatewayMethod 等收集到 Map，call() 直接调用），
+ * 以及一个假 Gateway（WebSocket 协议同真 Gateway：connect 握手、agent / agent.wait /
+ * chat.history / chat.abort / sessions.delete，推送 chat 事件）。agent 的回复由脚本决定，结果可复现。
+ */
+
+import dgram from 'dgram';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { DevHub } from '../src/dev-hub.js';
+import type { HubTransportKind } from '../src/types.js';
+
+// Node 20 没有全局 WebSocket（插件运行在 Node 22+ 的 Gateway 里，直接用全局的）
+if (typeof (globalThis as any).WebSocket === 'undefined') {
+  (globalThis as any).WebSocket = WebSocket;
+}
+
+const SRC_DIR = path.resolve(__dirname, '..', 'src');
+/** 各节点共用的模块：Hub 替身和 loopback 注册表必须是同一份 */
+const SHARED_MODULES = ['dev-hub.js', 'transport.js'];
+
+export interface AgentScript {
+  reply: string;
+  /** 从派发到回复写入会话的耗时 (ms) */
+  delayMs?: number;
+  /** 执行期间依次写入会话的中间 assistant 消息（均匀分布在 delayMs 内，用于产生进度帧） */
+  progress?: string[];
+}
+
+/** 按收到的消息决定 agent 的回复 */
+export type AgentScriptFn = (message: string) => AgentScript | string;
+
+/** 指令中的 echo xxx 行 → 回复 ECHO:xxx，其余回复「收到: 指令」 */
+export const echoScript: AgentScriptFn = (message) => {
+  const text = message.split('\n').find(line => line.trim().startsWith('echo '))?.trim() || message.trim();
+  return { reply: text.startsWith('echo ') ? `ECHO:${text.slice(5)}` : `收到: ${text}`, delayMs: 50 };
+};
+
+/** HUB_TEST_LOG=1 时输出插件日志，排查失败用 */
+const logSink = process.env.HUB_TEST_LOG ? (...args: any[]) => console.error(...args) : () => { };
+const testLogger = { info: logSink, warn: logSink, error: logSink, debug() { } };
+
+/** 取一个当前空闲的 UDP 端口（局域网发现端口需要事先告知对端） */
+export async function freeUdpPort(): Promise<number> {
+  const socket = dgram.createSocket('udp4');
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', () => resolve()));
+  const { port } = socket.address();
+  await new Promise<void>(resolve => socket.close(() => resolve()));
+  return port;
+}
+
+/** 取一个当前空闲的 TCP 端口（节点配置里需要固定端口时） */
+export async function freeTcpPort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  return port;
+}
+
+export async function waitFor<T>(probe: () => T | Promise<T>, timeoutMs = 10_000, label = '条件'): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    const value = await probe();
+    if (value) return value as NonNullable<T>;
+    if (Date.now() > deadline) throw new Error(`等待${label}超时 (${timeoutMs}ms)`);
+    await new Promise(r => setTimeout(r, 20));
+  }
+}
+
+// ============================================================================
+// 假 Gateway
+// ============================================================================
+
+interface AgentRun {
+  runId: string;
+  sessionKey: string;
+  done: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  progressTimers: Array<ReturnType<typeof setTimeout>>;
+  waiters: Array<() => void>;
+}
+
+export class FakeGateway {
+  port = 0;
+  /** 收到的 agent 消息（按顺序） */
+  readonly dispatched: string[] = [];
+  /** 被 chat.abort 中止的 sessionKey */
+  readonly aborted: string[] = [];
+  private wss: WebSocketServer | null = null;
+  private sessions = new Map<string, any[]>();
+  private runs = new Map<string, AgentRun>();
+  private lastTs = 0;
+
+  constructor(
+    private script: AgentScriptFn,
+    /** 非 Gateway 内置方法转给插件注册的 RPC（CLI 路径的 gatewayRpc 会用到） */
+    private pluginMethods: Map<string, Function>,
+  ) { }
+
+  async start(): Promise<void> {
+    const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise<void>(resolve => wss.once('listening', () => resolve()));
+    this.port = (wss.address() as any).port;
+    this.wss = wss;
+    wss.on('connection', ws => {
+      ws.on('message', data => {
+        let msg: any;
+        try { msg = JSON.parse(data.toString()); } catch { return; }
+        if (msg.type === 'req') this.handleRequest(ws, msg);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const run of this.runs.values()) {
+      if (run.timer) clearTimeout(run.timer);
+      for (const timer of run.progressTimers) clearTimeout(timer);
+    }
+    for (const ws of this.wss?.clients || []) ws.terminate();
+    await new Promise<void>(resolve => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    this.wss = null;
+  }
+
+  /** 正在执行（未回复、未中止）的 agent 运行数 */
+  get activeRuns(): number {
+    return [...this.runs.values()].filter(r => !r.done).length;
+  }
+
+  private async handleRequest(ws: WebSocket, msg: any): Promise<void> {
+    const reply = (ok: boolean, payload: any) => {
+      if (ws.readyState === ws.OPEN) ws.send(JSON.stringify({ type: 'res', id: msg.id, ok, payload }));
+    };
+    try {
+      reply(true, await this.dispatch(msg.method, msg.params || {}));
+    } catch (err: any) {
+      reply(false, { message: err.message });
+    }
+  }
+
+  private async dispatch(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'connect':
+        return { type: 'hello-ok', features: { methods: [], events: ['chat'] } };
+      case 'agent':
+        return this.startRun(params);
+      case 'agent.wait':
+        return this.waitRun(params.runId, params.timeoutMs ?? 30_000);
+      case 'chat.history': {
+        const messages = this.sessions.get(params.sessionKey) || [];
+        return { messages: messages.slice(-(params.limit || 200)) };
+      }
+      case 'chat.abort':
+        this.abortRun(params.sessionKey, params.runId);
+        return { ok: true };
+      case 'sessions.delete':
+        this.sessions.delete(params.key);
+        return { ok: true };
+    }
+    const handler = this.pluginMethods.get(method);
+    if (!handler) throw new Error(`unknown method: ${method}`);
+    return new Promise((resolve, reject) => {
+      handler({ params, context: {}, respond: (ok: boolean, payload: any) => (ok ? resolve(payload) : reject(new Error(payload?.message))) });
+    });
+  }
+
+  private append(sessionKey: string, role: string, content: string): void {
+    // timestamp 严格递增，插件按 timestamp 取增量
+    this.lastTs = Math.max(Date.now(), this.lastTs + 1);
+    const messages = this.sessions.get(sessionKey) || [];
+    messages.push({ role, content, timestamp: this.lastTs });
+    this.sessions.set(sessionKey, messages);
+  }
+
+  private pushEvent(sessionKey: string, runId: string, state: string): void {
+    const frame = JSON.stringify({ type: 'event', event: 'chat', payload: { sessionKey, runId, state } });
+    for (const ws of this.wss?.clients || []) {
+      if (ws.readyState === ws.OPEN) ws.send(frame);
+    }
+  }
+
+  private startRun(params: any): { runId: string; status: string } {
+    const message = String(params.message || '');
+    const sessionKey = String(params.sessionKey);
+    const runId = params.idempotencyKey || randomUUID();
+    const scripted = this.script(message);
+    const { reply, delayMs = 0, progress = [] } = typeof scripted === 'string' ? { reply: scripted } : scripted;
+
+    this.dispatched.push(message);
+    this.append(sessionKey, 'user', message);
+    const run: AgentRun = { runId, sessionKey, done: false, timer: null, progressTimers: [], waiters: [] };
+    this.runs.set(runId, run);
+    run.progressTimers = progress.map((text, i) => setTimeout(() => {
+      this.append(sessionKey, 'assistant', text);
+      this.pushEvent(sessionKey, runId, 'delta');
+    }, Math.round(delayMs * (i + 1) / (progress.length + 1))));
+    run.timer = setTimeout(() => {
+      this.append(sessionKey, 'assistant', reply);
+      this.pushEvent(sessionKey, runId, 'final');
+      this.finishRun(run);
+    }, delayMs);
+    return { runId, status: 'accepted' };
+  }
+
+  private waitRun(runId: string, timeoutMs: number): Promise<{ status: string }> {
+    const run = this.runs.get(runId);
+    if (!run || run.done) return Promise.resolve({ status: 'ok' });
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve({ status: 'timeout' }), timeoutMs);
+      run.waiters.push(() => { clearTimeout(timer); resolve({ status: 'ok' }); });
+    });
+  }
+
+  private abortRun(sessionKey: string, runId?: string): void {
+    for (const run of this.runs.values()) {
+      if (run.done || (runId ? run.runId !== runId : run.sessionKey !== sessionKey)) continue;
+      this.aborted.push(run.sessionKey);
+      this.pushEvent(run.sessionKey, run.runId, 'aborted');
+      this.finishRun(run);
+    }
+  }
+
+  private finishRun(run: AgentRun): void {
+    if (run.timer) clearTimeout(run.timer);
+    for (const timer of run.progressTimers) clearTimeout(timer);
+    run.done = true;
+    run.timer = null;
+    for (const wake of run.waiters.splice(0)) wake();
+  }
+}
+
+// ============================================================================
+// 模拟节点
+// ============================================================================
+
+export interface NodeCredentials {
+  nodeId: string;
+  clusterId: string;
+  parentId: string | null;
+  token: string;
+}
+
+export class SimNode {
+  readonly methods = new Map<string, Function>();
+  readonly tools = new Map<string, any>();
+  readonly gateway: FakeGateway;
+  readonly home: string;
+  private services: Array<{ start: () => any; stop?: () => any }> = [];
+
+  constructor(
+    readonly alias: string,
+    readonly credentials: NodeCredentials,
+    private hubUrl: string,
+    script: AgentScriptFn,
+    private extraConfig: Record<string, any> = {},
+  ) {
+    this.home = fs.mkdtempSync(path.join(os.tmpdir(), `cluster-hub-${alias}-`));
+    this.gateway = new FakeGateway(script, this.methods);
+  }
+
+  get nodeId(): string {
+    return this.credentials.nodeId;
+  }
+
+  async start(): Promise<void> {
+    await this.gateway.start();
+    const logger = {
+      info: (...args: any[]) => testLogger.info(`[${this.alias}]`, ...args),
+      warn: (...args: any[]) => testLogger.warn(`[${this.alias}]`, ...args),
+      error: (...args: any[]) => testLogger.error(`[${this.alias}]`, ...args),
+      debug() { },
+    };
+    const pluginConfig = {
+      hubUrl: this.hubUrl,
+      nodeName: this.alias,
+      nodeAlias: this.alias,
+      ...this.credentials,
+      autoConnect: true,
+      reconnectIntervalMs: 100,
+      reconnectMaxDelayMs: 300,
+      ...this.extraConfig,
+    };
+    fs.mkdirSync(path.join(this.home, '.openclaw'), { recursive: true });
+    fs.writeFileSync(path.join(this.home, '.openclaw', 'openclaw.json'), JSON.stringify({
+      plugins: { entries: { 'cluster-hub': { enabled: true, config: pluginConfig } } },
+    }, null, 2));
+
+    const api = {
+      pluginConfig,
+      logger,
+      runtime: { config: { loadConfig: () => ({ gateway: { port: this.gateway.port }, agents: { defaults: {} } }) } },
+      registerGatewayMethod: (name: string, handler: Function) => { this.methods.set(name, handler); },
+      registerTool: (tool: any) => { this.tools.set(tool.name, tool); },
+      registerCli: () => { },
+      registerService: (service: any) => { this.services.push(service); },
+    };
+    loadPlugin(this.home).register(api);
+    for (const service of this.services) await service.start();
+    // 后台服务延迟几秒才自动连接 Hub，测试里直接连
+    await this.call('hub.connect');
+  }
+
+  /** 调用插件注册的 Gateway RPC 方法 */
+  call(method: string, params: any = {}): Promise<any> {
+    const handler = this.methods.get(method);
+    if (!handler) return Promise.reject(new Error(`未注册的方法: ${method}`));
+    return new Promise((resolve, reject) => {
+      handler({ params, context: {}, respond: (ok: boolean, payload: any) => (ok ? resolve(payload) : reject(new Error(payload?.message))) });
+    });
+  }
+
+  /** Hub 连接状态（state / since / reconnectAttempts …） */
+  async connection(): Promise<any> {
+    const status = await this.call('hub.status');
+    return status.connection;
+  }
+
+  async isConnected(): Promise<boolean> {
+    return (await this.connection())?.state === 'open';
+  }
+
+  async stop(): Promise<void> {
+    for (const service of this.services) await service.stop?.();
+    await this.gateway.stop();
+    fs.rmSync(this.home, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 全新加载一份插件模块（模块级状态各节点独立）
+ * 数据目录在模块加载时按 HOME 确定，因此加载期间临时切换 HOME
+ */
+function loadPlugin(home: string): any {
+  for (const key of Object.keys(require.cache)) {
+    if (!key.startsWith(SRC_DIR + path.sep) || SHARED_MODULES.includes(path.basename(key))) continue;
+    delete require.cache[key];
+  }
+  const prevHome = process.env.HOME;
+  process.env.HOME = home;
+  try {
+    return require(path.join(SRC_DIR, 'index.js')).default;
+  } finally {
+    process.env.HOME = prevHome;
+  }
+}
+
+// ============================================================================
+// 集群
+// ============================================================================
+
+export class SimCluster {
+  readonly hub: DevHub;
+  readonly nodes: SimNode[] = [];
+  private rawSockets: WebSocket[] = [];
+  private hubUrl = '';
+
+  /** transport 应用到所有节点（websocket / longpoll / loopback）；hub 不传时用内存中的本地 Hub */
+  constructor(private opts: { transport?: HubTransportKind; hub?: DevHub } = {}) {
+    this.hub = opts.hub ?? new DevHub({ port: 0, logger: testLogger });
+  }
+
+  async start(): Promise<void> {
+    this.hubUrl = await this.hub.start();
+  }
+
+  /** 注册并启动一个节点；有 parent 时用父节点的邀请码加入其集群 */
+  async addNode(alias: string, opts: { parent?: SimNode; script: AgentScriptFn; config?: Record<string, any> }): Promise<SimNode> {
+    let inviteCode: string | undefined;
+    if (opts.parent) {
+      const res = await this.http('POST', `/api/nodes/${opts.parent.nodeId}/invite-code`, {}, opts.parent.credentials.token);
+      inviteCode = res.data.inviteCode;
+    }
+    const { data } = await this.http('POST', '/api/nodes/register', {
+      name: alias, alias, parentId: opts.parent?.nodeId ?? null, inviteCode, capabilities: ['shell'],
+    });
+    const node = new SimNode(alias, {
+      nodeId: data.nodeId, clusterId: data.clusterId, parentId: data.parentId, token: data.token,
+    }, this.hubUrl, opts.script, { ...(this.opts.transport && { transport: this.opts.transport }), ...opts.config });
+    this.nodes.push(node);
+    await node.start();
+    await waitFor(() => node.isConnected(), 5_000, `${alias} 连接 Hub`);
+    return node;
+  }
+
+  /** 凭 parent 的邀请码注册一个不跑插件的成员，直接持有 Hub WebSocket（用于伪造消息） */
+  async addRawMember(parent: SimNode, id?: string): Promise<{ node: any; ws: WebSocket }> {
+    const { data: invite } = await this.http('POST', `/api/nodes/${parent.nodeId}/invite-code`, {}, parent.credentials.token);
+    const alias = id ?? `raw-${randomUUID().slice(0, 8)}`;
+    const { data: node } = await this.http('POST', '/api/nodes/register', {
+      id, name: alias, alias, parentId: parent.nodeId, inviteCode: invite.inviteCode,
+    });
+    const ws = new WebSocket(`${this.hubUrl.replace(/^http/, 'ws')}/ws?token=${node.token}`);
+    await new Promise(resolve => ws.once('open', resolve));
+    this.rawSockets.push(ws);
+    return { node, ws };
+  }
+
+  async stop(): Promise<void> {
+    for (const ws of this.rawSockets.splice(0)) ws.close();
+    for (const node of this.nodes.splice(0).reverse()) await node.stop();
+    await this.hub.stop();
+  }
+
+  private async http(method: string, urlPath: string, body: any, token?: string): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    const res = await fetch(`${this.hubUrl}${urlPath}`, { method, headers, body: JSON.stringify(body) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(`Hub HTTP ${res.status}: ${JSON.stringify(data)}`);
+    return data;
+  }
+}
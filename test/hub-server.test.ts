@@ -0,0 +1,112 @@
+/**
+ * 内置 Hub：注册表 / 邀请码 / 共享配置持久化，重启后节点凭原 token 重连；只服务一个集群
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DevHub } from '../src/dev-hub.js';
+import { SimCluster, freeTcpPort, type AgentScriptFn } from './harness.js';
+
+const logger = { info() { }, warn() { } };
+const script: AgentScriptFn = (message) => message.includes('ping') ? 'pong' : '收到';
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hub-server-'));
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+async function call(
+  hub: DevHub, method: string, urlPath: string, token?: string, body?: any, extra?: { headers?: Record<string, string>; remoteAddress?: string },
+): Promise<{ status: number; data: any }> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...extra?.headers };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  const req = { method, path: urlPath, headers, body: body === undefined ? undefined : JSON.stringify(body) };
+  const res = await hub.handleRequest(req, extra?.remoteAddress);
+  return { status: res.status, data: JSON.parse(res.text) };
+}
+
+test('注册表、邀请码和共享配置在重启后恢复，只允许一个集群', async () => {
+  const first = new DevHub({ listen: false, dataDir, singleCluster: true, logger });
+  await first.start();
+
+  const root = (await call(first, 'POST', '/api/nodes/register', undefined, { name: 'root', alias: 'root' })).data.data;
+  const invite = (await call(first, 'POST', `/api/nodes/${root.nodeId}/invite-code`, root.token, { code: 'join-me' })).data.data.inviteCode;
+  const child = (await call(first, 'POST', '/api/nodes/register', undefined, {
+    name: 'child', alias: 'child', parentId: root.nodeId, inviteCode: invite,
+  })).data.data;
+  await call(first, 'PUT', `/api/clusters/${root.clusterId}/shared-config`, root.token, { owner: { openId: 'ou_1' } });
+
+  const rejected = await call(first, 'POST', '/api/nodes/register', undefined, { name: 'other', alias: 'other' });
+  assert.equal(rejected.status, 403);
+  assert.equal((await call(first, 'PATCH', `/api/nodes/${child.nodeId}/parent`, child.token, { newParentId: null })).status, 403);
+  await first.stop();
+
+  const second = new DevHub({ listen: false, dataDir, singleCluster: true, logger });
+  await second.start();
+  assert.deepEqual(second.status(), { url: second.status().url, nodes: 2, online: 0, clusters: 1, persistent: true });
+
+  const tree = (await call(second, 'GET', `/api/nodes/${root.nodeId}/tree`, child.token)).data.data;
+  assert.deepEqual(tree.children.map((n: any) => n.id), [child.nodeId]);
+  assert.equal((await call(second, 'GET', `/api/nodes/${root.nodeId}/invite-code`, root.token)).data.data.inviteCode, 'join-me');
+  assert.deepEqual((await call(second, 'GET', `/api/clusters/${root.clusterId}/shared-config`, child.token)).data.data, { owner: { openId: 'ou_1' } });
+  await second.stop();
+});
+
+test('根节点只能在 Hub 所在主机或凭管理密钥注册', async () => {
+  const hub = new DevHub({ listen: false, singleCluster: true, adminKey: 'secret', logger });
+  await hub.start();
+  const body = { name: 'intruder', alias: 'intruder' };
+
+  const remote = await call(hub, 'POST', '/api/nodes/register', undefined, body, { remoteAddress: '192.168.1.50' });
+  assert.equal(remote.status, 403);
+  assert.equal(hub.status().clusters, 0);
+
+  const admin = await call(hub, 'POST', '/api/nodes/register', undefined, body, { remoteAddress: '192.168.1.50', headers: { 'X-Admin-Key': 'secret' } });
+  assert.equal(admin.status, 200);
+  await hub.stop();
+
+  const local = new DevHub({ listen: false, singleCluster: true, logger });
+  await local.start();
+  assert.equal((await call(local, 'POST', '/api/nodes/register', undefined, body, { remoteAddress: '::ffff:127.0.0.1' })).status, 200);
+  await local.stop();
+});
+
+test('节点经内置 Hub 收发任务，停止时注册表写盘', async () => {
+  const serverDir = fs.mkdtempSync(path.join(dataDir, 'cluster-'));
+  const cluster = new SimCluster({ hub: new DevHub({ port: 0, dataDir: serverDir, singleCluster: true, label: '内置 Hub', logger }) });
+  try {
+    await cluster.start();
+    const root = await cluster.addNode('root', { script });
+    const child = await cluster.addNode('child', { parent: root, script });
+
+    const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'ping' });
+    const { tasks } = await root.call('hub.task.wait', { taskId, timeoutMs: 10_000 });
+    assert.equal(tasks[0].status, 'completed');
+    assert.match(tasks[0].result, /pong/);
+  } finally {
+    await cluster.stop();
+  }
+  const saved = JSON.parse(fs.readFileSync(path.join(serverDir, 'hub-server.json'), 'utf-8'));
+  assert.equal(saved.nodes.length, 2);
+});
+
+test('hubServerEnabled 时后台服务启动内置 Hub', async () => {
+  const port = await freeTcpPort();
+  const cluster = new SimCluster();
+  try {
+    await cluster.start();
+    const root = await cluster.addNode('root', { script, config: { hubServerEnabled: true, hubServerPort: port, hubServerHost: '127.0.0.1' } });
+
+    const res = await fetch(`http://127.0.0.1:${port}/`);
+    assert.equal(((await res.json()) as any).status, 'running');
+    const { hubServer } = await root.call('hub.status');
+    assert.equal(hubServer.url, `http://127.0.0.1:${port}`);
+    assert.equal(hubServer.persistent, true);
+  } finally {
+    await cluster.stop();
+  }
+  await assert.rejects(fetch(`http://127.0.0.1:${port}/`));
+});
@@ -0,0 +1,161 @@
+/**
+ * 局域网直连：同机两个节点经单播发现、Hub 交换密钥后直连，业务消息不再经 Hub 中转
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac, randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { LanPeering, deriveLanKey } from '../src/lan.js';
+import { SimCluster, SimNode, waitFor, freeUdpPort, echoScript } from './harness.js';
+
+const cluster = new SimCluster();
+let root: SimNode;
+let child: SimNode;
+let childPort: number;
+
+before(async () => {
+  const rootPort = await freeUdpPort();
+  childPort = await freeUdpPort();
+  await cluster.start();
+  root = await cluster.addNode('root', {
+    script: echoScript,
+    config: { lanEnabled: true, lanDiscoveryPort: rootPort, lanPeers: [`127.0.0.1:${childPort}`] },
+  });
+  child = await cluster.addNode('child', {
+    parent: root,
+    script: echoScript,
+    config: { lanEnabled: true, lanDiscoveryPort: childPort, lanPeers: [`127.0.0.1:${rootPort}`] },
+  });
+});
+
+after(async () => {
+  await cluster.stop();
+});
+
+test('发现同集群节点并建立直连', async () => {
+  await waitFor(async () => {
+    const { nodes } = await root.call('hub.nodes');
+    return nodes.find((n: any) => n.id === child.nodeId)?.path === 'lan';
+  }, 10_000, '直连建立');
+
+  const { nodes } = await root.call('hub.nodes');
+  assert.equal(nodes.find((n: any) => n.id === root.nodeId).path, 'local');
+  const status = await child.call('hub.status');
+  assert.equal(status.lan.peers.find((p: any) => p.nodeId === root.nodeId)?.path, 'lan');
+});
+
+test('任务与结果经直连往返', async () => {
+  const before = (await child.call('hub.status')).lan.peers[0].received;
+  const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'echo lan' });
+  const { tasks, timedOut } = await root.call('hub.task.wait', { taskId, timeoutMs: 10_000 });
+  assert.equal(timedOut, false);
+  assert.equal(tasks[0].status, 'completed');
+  assert.match(tasks[0].result, /ECHO:lan/);
+
+  const rootStatus = await root.call('hub.status');
+  const childStatus = await child.call('hub.status');
+  assert.ok(childStatus.lan.peers[0].received > before, '子节点应经直连收到任务');
+  assert.ok(rootStatus.lan.peers[0].received > 0, '根节点应经直连收到结果');
+});
+
+test('Hub 断线期间直连照常收发', async () => {
+  await child.call('hub.disconnect');
+  try {
+    await waitFor(async () => {
+      const { nodes } = await root.call('hub.nodes');
+      return nodes.find((n: any) => n.id === child.nodeId)?.online === false;
+    }, 5_000, 'Hub 标记子节点离线');
+
+    const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'echo offline' });
+    const { tasks } = await root.call('hub.task.wait', { taskId, timeoutMs: 10_000 });
+    assert.equal(tasks[0].status, 'completed');
+    assert.match(tasks[0].result, /ECHO:offline/);
+  } finally {
+    await child.call('hub.connect');
+  }
+});
+
+/** 以同集群普通成员身份注册并连上 Hub（不启动插件），用来模拟集群内的恶意节点 */
+async function joinAsMember(id: string): Promise<{ node: any; hubWs: WebSocket; onDirect: (fn: (msg: any) => void) => void }> {
+  const { node, ws: hubWs } = await cluster.addRawMember(root, id);
+  return {
+    node,
+    hubWs,
+    onDirect: (fn) => hubWs.on('message', data => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === 'direct') fn(msg);
+    }),
+  };
+}
+
+test('直连只接收发给本节点的业务消息，控制面帧被丢弃', async () => {
+  // 节点 ID 最小，由它发起直连
+  const { node: mallory, hubWs, onDirect } = await joinAsMember('00000000-0000-0000-0000-000000000000');
+  const peering = new LanPeering({
+    identity: () => ({ nodeId: mallory.nodeId, clusterId: mallory.clusterId, token: mallory.token }),
+    port: 0,
+    discoveryPort: await freeUdpPort(),
+    staticPeers: [`127.0.0.1:${childPort}`],
+    logger: { info() { }, warn() { } },
+    sendViaHub: (to, payload) => {
+      hubWs.send(JSON.stringify({ type: 'direct', id: randomUUID(), to, payload, timestamp: Date.now() }));
+      return true;
+    },
+    onMessage: () => { },
+  });
+  onDirect(msg => {
+    if (msg.payload?.event === 'lan_key') peering.handleKey(msg.from, msg.payload);
+  });
+
+  try {
+    await peering.start();
+    await waitFor(() => peering.pathTo(child.nodeId) === 'lan', 10_000, '直连建立');
+    const link = (peering as any).peers.get(child.nodeId).link as WebSocket;
+    const frame = (msg: any) => link.send(JSON.stringify({ id: randomUUID(), timestamp: Date.now(), ...msg }));
+    frame({ type: 'direct', to: child.nodeId, payload: { event: 'shared_config', config: { feishu: { appId: 'cli_x', appSecret: 'forged' } } } });
+    frame({ type: 'heartbeat', to: child.nodeId, payload: { replyTo: 'x' } });
+    frame({ type: 'task_ack', to: root.nodeId, payload: {} });
+    // 唯一合法的一帧，按顺序到达后即可断言前面的都被丢弃
+    frame({ type: 'task_ack', to: child.nodeId, payload: {} });
+
+    await waitFor(async () => {
+      const { lan } = await child.call('hub.status');
+      return lan.peers.find((p: any) => p.nodeId === mallory.nodeId)?.received === 1;
+    }, 5_000, '合法消息到达');
+    assert.equal(child.tools.has('feishu_doc'), false, '直连伪造的共享配置不应生效');
+  } finally {
+    await peering.stop();
+    hubWs.close();
+  }
+});
+
+test('成员拿到的密钥不能用来冒充其他节点握手', async () => {
+  const { node: mallory, hubWs, onDirect } = await joinAsMember(`mallory-${randomUUID()}`);
+  try {
+    // 向根节点要一份它给自己的密钥
+    const rootKey = new Promise<string>(resolve => onDirect(msg => {
+      if (msg.from === root.nodeId && msg.payload?.event === 'lan_key') resolve(msg.payload.key);
+    }));
+    hubWs.send(JSON.stringify({
+      type: 'direct', id: randomUUID(), to: root.nodeId,
+      payload: { event: 'lan_key', key: deriveLanKey(mallory.token, mallory.nodeId, root.nodeId), want: true },
+      timestamp: Date.now(),
+    }));
+    const key = await rootKey;
+
+    const { lan } = await child.call('hub.status');
+    const ws = new WebSocket(`ws://127.0.0.1:${lan.port}/`);
+    const closeCode = new Promise<number>(resolve => ws.once('close', code => resolve(code)));
+    ws.on('message', data => {
+      const frame = JSON.parse(data.toString());
+      if (frame.lan !== 'challenge') return;
+      const sig = createHmac('sha256', key).update(['hello', root.nodeId, child.nodeId, frame.nonce].join('|')).digest('hex');
+      ws.send(JSON.stringify({ lan: 'hello', nodeId: root.nodeId, nonce: randomUUID(), sig }));
+    });
+    assert.equal(await closeCode, 4003);
+    assert.equal((await child.call('hub.status')).lan.peers.find((p: any) => p.nodeId === root.nodeId)?.path, 'lan');
+  } finally {
+    hubWs.close();
+  }
+});
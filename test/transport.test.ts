@@ -0,0 +1,166 @@
+/**
+ * 传输层：长轮询 / 进程内 loopback 下任务往返、Hub 推送和断线重连；长轮询大批量发送；静默连接判定失效、连接抖动时的退避
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimCluster, SimNode, waitFor, echoScript } from './harness.js';
+import { DevHub } from '../src/dev-hub.js';
+import { createHubTransport } from '../src/transport.js';
+import type { HubTransportKind } from '../src/types.js';
+
+for (const transport of ['longpoll', 'loopback'] as HubTransportKind[]) {
+  describe(`transport=${transport}`, () => {
+    const cluster = new SimCluster({ transport });
+    let root: SimNode;
+    let child: SimNode;
+
+    before(async () => {
+      await cluster.start();
+      root = await cluster.addNode('root', { script: echoScript });
+      child = await cluster.addNode('child', { parent: root, script: echoScript });
+    });
+
+    after(async () => {
+      await cluster.stop();
+    });
+
+    test('状态中显示当前传输', async () => {
+      const status = await child.call('hub.status');
+      assert.equal(status.transport, transport);
+    });
+
+    test('任务往返', async () => {
+      const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: `echo ${transport}` });
+      const { tasks, timedOut } = await root.call('hub.task.wait', { taskId, timeoutMs: 10_000 });
+      assert.equal(timedOut, false);
+      assert.equal(tasks[0].status, 'completed');
+      assert.match(tasks[0].result, new RegExp(`ECHO:${transport}`));
+    });
+
+    test('断线后重连', async () => {
+      const { since } = await child.connection();
+      assert.ok(cluster.hub.dropConnection(child.nodeId));
+      await waitFor(async () => {
+        const conn = await child.connection();
+        return conn.state === 'open' && conn.since > since;
+      }, 5_000, '子节点重连');
+
+      const { taskId } = await root.call('hub.task.send', { nodeId: child.nodeId, instruction: 'echo again' });
+      const { tasks } = await root.call('hub.task.wait', { taskId, timeoutMs: 10_000 });
+      assert.equal(tasks[0].status, 'completed');
+    });
+  });
+}
+
+describe('长轮询大批量发送', () => {
+  const hub = new DevHub({ port: 0, logger: { info() { }, warn() { } } });
+  let hubUrl: string;
+
+  before(async () => {
+    hubUrl = await hub.start();
+  });
+
+  after(async () => {
+    await hub.stop();
+  });
+
+  async function register(alias: string, parentId?: string, inviteCode?: string): Promise<any> {
+    const transport = createHubTransport('longpoll', () => hubUrl);
+    const res = await transport.request({
+      method: 'POST', path: '/api/nodes/register',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: alias, alias, parentId, inviteCode }),
+    });
+    return JSON.parse(res.text).data;
+  }
+
+  async function openChannel(token: string, received: string[] = []) {
+    const transport = createHubTransport('longpoll', () => hubUrl);
+    let opened!: () => void;
+    const ready = new Promise<void>(resolve => { opened = resolve; });
+    const channel = await transport.open(token, {
+      onOpen: () => opened(),
+      onMessage: (data) => received.push(data),
+      onClose: () => { },
+      onError: () => { },
+    });
+    await ready;
+    return channel;
+  }
+
+  test('超过 Hub 请求体上限的积压按批发出，不丢消息', async () => {
+    const root = await register('lp-root');
+    const { data: invite } = JSON.parse((await createHubTransport('longpoll', () => hubUrl).request({
+      method: 'POST', path: `/api/nodes/${root.nodeId}/invite-code`,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${root.token}` }, body: '{}',
+    })).text);
+    const child = await register('lp-child', root.nodeId, invite.inviteCode);
+
+    const received: string[] = [];
+    const receiver = await openChannel(child.token, received);
+    const sender = await openChannel(root.token);
+    const pad = 'x'.repeat(260 * 1024);
+    for (let i = 0; i < 6; i++) {
+      sender.send(JSON.stringify({ type: 'task_ack', id: `big-${i}`, to: child.nodeId, payload: { pad } }));
+    }
+
+    await waitFor(() => received.filter(m => m.includes('"big-')).length === 6, 10_000, '6 条大消息到达');
+    const ids = received.map(m => JSON.parse(m).id).filter((id: string) => id.startsWith('big-'));
+    assert.deepEqual(ids, ['big-0', 'big-1', 'big-2', 'big-3', 'big-4', 'big-5']);
+    sender.close();
+    receiver.close();
+  });
+});
+
+describe('不回应心跳的 Hub', () => {
+  // 旧版 Hub 不回应心跳：连接静默后仍要按入站帧判定失效
+  const hub = new DevHub({ port: 0, logger: { info() { }, warn() { } } });
+  const sendTo = (hub as any).sendTo.bind(hub);
+  (hub as any).sendTo = (nodeId: string, msg: any) => msg.type === 'heartbeat' ? true : sendTo(nodeId, msg);
+  const cluster = new SimCluster({ hub });
+
+  before(async () => {
+    await cluster.start();
+  });
+
+  after(async () => {
+    await cluster.stop();
+  });
+
+  test('连续多个心跳周期没有入站消息时强制重连', async () => {
+    const node = await cluster.addNode('silent', {
+      script: echoScript,
+      config: { heartbeatIntervalMs: 200, heartbeatMaxMissed: 3, reconnectIntervalMs: 100, reconnectMaxDelayMs: 200 },
+    });
+    await waitFor(async () => (await node.call('hub.status')).heartbeat.deadConnections > 0, 5_000, '判定连接失效');
+    await waitFor(() => node.isConnected(), 5_000, '重新连接');
+    const { heartbeat } = await node.call('hub.status');
+    assert.equal(heartbeat.acknowledged, false);
+  });
+});
+
+describe('连接抖动', () => {
+  const cluster = new SimCluster();
+
+  before(async () => {
+    await cluster.start();
+  });
+
+  after(async () => {
+    await cluster.stop();
+  });
+
+  test('连上后很快断开时退避计数不清零', async () => {
+    const node = await cluster.addNode('flaky', { script: echoScript, config: { reconnectIntervalMs: 100, reconnectMaxDelayMs: 400 } });
+    for (let i = 1; i <= 3; i++) {
+      const { since } = await node.connection();
+      assert.ok(cluster.hub.dropConnection(node.nodeId));
+      await waitFor(async () => {
+        const conn = await node.connection();
+        return conn.state === 'open' && conn.since > since;
+      }, 5_000, `第 ${i} 次重连`);
+    }
+    assert.equal((await node.connection()).reconnectAttempts, 3);
+  });
+});